@@ -1,37 +1,479 @@
-import React, { useState } from 'react';
-import { Upload, FileText, CheckCircle, XCircle, Loader2, ChevronDown, ChevronRight } from 'lucide-react';
-import { MBOXParser, ParseResult, ParsedEmail } from './services/MBOXParser';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Upload, FolderOpen, FileText, CheckCircle, XCircle, Loader2, ChevronDown, ChevronRight, Copy, Download, GitCompare, MessagesSquare, Paperclip, ListMinus, ListPlus, Pause, Play, Square, Star, StickyNote } from 'lucide-react';
+import type { HeaderVisibilityPrefs, SearchQuery, SearchResults, UserMetadata, WorkingSet, WorkingSetEntry } from './types';
+import type { ParsedEmail, ParseSummary } from './services/MBOXParser';
+import { EmailService, ParseCancelledError, type LoadProgress } from './services/EmailService';
+import { MetadataStore, createUserMetadata, type FileMetadata } from './services/MetadataStore';
+import { ArchiveCache, type CachedArchiveInfo } from './services/ArchiveCache';
+import { SearchEngine } from './services/SearchEngine';
+import { WorkingSetManager, entryHas, resolveWorkingSet } from './services/WorkingSetManager';
+import { MAX_COMPARED_EMAILS, MIN_COMPARED_EMAILS } from './services/ComparisonEngine';
+import { ThreadingEngine, flattenThread, type Thread } from './services/ThreadingEngine';
+import { DuplicateDetector } from './services/DuplicateDetector';
+import { MBOXExporter } from './services/MBOXExporter';
+import SearchBar from './components/Search/SearchBar';
+import ArchiveCacheList from './components/Cache/ArchiveCacheList';
+import FileMetadataPanel from './components/Metadata/FileMetadataPanel';
+import WorkingSetPanel from './components/WorkingSet/WorkingSetPanel';
+import ComparisonView from './components/Compare/ComparisonView';
+import AttachmentList from './components/EmailDetail/AttachmentList';
+import DuplicateCopies from './components/EmailDetail/DuplicateCopies';
+import HeaderTable from './components/EmailDetail/HeaderTable';
+import NoteEditor from './components/EmailDetail/NoteEditor';
+import ReceivedChain from './components/EmailDetail/ReceivedChain';
+import { formatAddress } from './utils/addresses';
+import { fileIdentity, stableMessageId } from './utils/identity';
+import { exportMetadataBundle, importMetadataBundle, parseMetadataBundle, type ImportReport, type ImportStrategy } from './utils/metadata-bundle';
+
+const DEFAULT_HEADER_PREFERENCES = createUserMetadata().headerPreferences;
+
+const threading = new ThreadingEngine();
+const duplicateDetector = new DuplicateDetector();
+const mboxExporter = new MBOXExporter();
+
+// Nesting past this depth stops indenting, so deep threads stay readable
+const MAX_THREAD_INDENT = 8;
+
+interface ListRow {
+  key: string;
+  email: ParsedEmail | null; // null for a placeholder in a thread
+  depth: number;
+  thread?: Thread<ParsedEmail>; // on the first row of each thread
+}
+
+function threadIndent(depth: number): React.CSSProperties | undefined {
+  return depth > 0 ? { paddingLeft: `${Math.min(depth, MAX_THREAD_INDENT) * 1.5}rem` } : undefined;
+}
 
 function App() {
-  const [parseResult, setParseResult] = useState<ParseResult | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
+  const [emails, setEmails] = useState<ParsedEmail[]>([]);
+  const [summary, setSummary] = useState<ParseSummary | null>(null);
+  const [progress, setProgress] = useState<LoadProgress | null>(null);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const [isPaused, setIsPaused] = useState(false);
+  const [wasCancelled, setWasCancelled] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [expandedEmail, setExpandedEmail] = useState<string | null>(null);
+  // Saved favorites, notes and header preferences per selected file, by fileIdentity()
+  const [fileMetadata, setFileMetadata] = useState<Map<string, FileMetadata>>(new Map());
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [importReport, setImportReport] = useState<{ fileName: string; report: ImportReport } | null>(null);
+  const [cachedArchives, setCachedArchives] = useState<CachedArchiveInfo[]>([]);
+  const [searchResults, setSearchResults] = useState<SearchResults<ParsedEmail> | null>(null);
+  const [workingSets, setWorkingSets] = useState<WorkingSet[]>([]);
+  const [activeSetId, setActiveSetId] = useState<string | null>(null);
+  const [showWorkingSet, setShowWorkingSet] = useState(false);
+  const [comparing, setComparing] = useState(false);
+  const [comparedUIDs, setComparedUIDs] = useState<string[]>([]); // entries of the active set picked for comparison
+  const [threaded, setThreaded] = useState(false);
+  const [collapseDuplicates, setCollapseDuplicates] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const serviceRef = useRef<EmailService | null>(null);
+  const storeRef = useRef<MetadataStore | null>(null);
+  const cacheRef = useRef<ArchiveCache | null>(null);
+  const searchRef = useRef<SearchEngine | null>(null);
+  const workingSetsRef = useRef<WorkingSetManager | null>(null);
+  const selectionRef = useRef(0);
+
+  useEffect(() => {
+    const cache = new ArchiveCache();
+    const service = new EmailService({ cache });
+    const store = new MetadataStore();
+    const search = new SearchEngine();
+    const workingSets = new WorkingSetManager({ store });
+    serviceRef.current = service;
+    storeRef.current = store;
+    cacheRef.current = cache;
+    searchRef.current = search;
+    workingSetsRef.current = workingSets;
+    cache.list().then(setCachedArchives, () => setCachedArchives([]));
+    workingSets.load().then((sets) => {
+      setWorkingSets(sets);
+      setActiveSetId(sets[0]?.id ?? null);
+    }, (err: Error) => setError(`Saved working sets are unavailable: ${err.message}`));
+    return () => {
+      service.destroy();
+      store.close();
+      cache.close();
+      search.destroy();
+      serviceRef.current = null;
+      storeRef.current = null;
+      cacheRef.current = null;
+      searchRef.current = null;
+      workingSetsRef.current = null;
+    };
+  }, []);
+
+  // The favorites and hasNotes filters search across every selected file
+  useEffect(() => {
+    const favorites: string[] = [];
+    const noted: string[] = [];
+    for (const { metadata } of fileMetadata.values()) {
+      favorites.push(...metadata.favorites);
+      noted.push(...metadata.notes.keys());
+    }
+    searchRef.current?.setUserState(favorites, noted);
+  }, [fileMetadata]);
+
+  const isLoading = activeJobId !== null;
+  const activeSet = workingSets.find((set) => set.id === activeSetId) ?? null;
+
+  // What working set entries can be resolved against, see resolveWorkingSet()
+  const loadedKeys = useMemo(() => new Set(emails.flatMap((email) => {
+    const messageId = stableMessageId(email.messageId);
+    return messageId ? [email.uid, messageId] : [email.uid];
+  })), [emails]);
+
+  const activeSetEmails = useMemo(() => activeSet ? resolveWorkingSet(activeSet, emails) : [], [activeSet, emails]);
+
+  // The loaded emails of the entries picked from the active set, compared side by side when there are 2-4
+  const comparedEmails = useMemo(() => activeSet
+    ? resolveWorkingSet({ ...activeSet, entries: activeSet.entries.filter((entry) => comparedUIDs.includes(entry.uid)) }, emails)
+    : [], [activeSet, comparedUIDs, emails]);
+  const canCompare = comparedEmails.length >= MIN_COMPARED_EMAILS && comparedEmails.length <= MAX_COMPARED_EMAILS;
+
+  const isLoaded = (entry: WorkingSetEntry) =>
+    [entry.uid, ...entry.copies, entry.messageId].some((key) => key !== undefined && loadedKeys.has(key));
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+    const files = Array.from(event.target.files ?? []);
+    const service = serviceRef.current;
+    if (files.length === 0 || !service) return;
 
-    setIsLoading(true);
     setError(null);
-    setParseResult(null);
+    setEmails([]);
+    setSummary(null);
+    setProgress(null);
+    setIsPaused(false);
+    setWasCancelled(false);
+    setSelectedFiles(files);
+    setImportReport(null);
+    setSearchResults(null);
+    searchRef.current?.clear();
+    restoreMetadata(files);
+
+    const job = service.startParse(files, {
+      onProgress: setProgress,
+      onError: setError,
+      onBatch: (batch, index) => {
+        setEmails((current) => [...current, ...batch]);
+        searchRef.current?.addEmails(batch, index);
+      }
+    });
+    setActiveJobId(job.id);
+
+    try {
+      const result = await job.promise;
+      setSummary({ errors: result.errors, stats: result.stats });
+    } catch (err) {
+      if (err instanceof ParseCancelledError) {
+        setWasCancelled(true);
+        setSummary({ errors: err.partialResult.errors, stats: err.partialResult.stats });
+      } else {
+        setError(`Failed to parse files: ${(err as Error).message}`);
+      }
+    } finally {
+      setActiveJobId(null);
+      event.target.value = '';
+      refreshCachedArchives();
+    }
+  };
+
+  const refreshCachedArchives = () => {
+    cacheRef.current?.list().then(setCachedArchives, () => setCachedArchives([]));
+  };
+
+  const evictArchive = async (fingerprint: string) => {
+    await cacheRef.current?.evict(fingerprint);
+    refreshCachedArchives();
+  };
+
+  const clearArchiveCache = async () => {
+    await cacheRef.current?.clear();
+    refreshCachedArchives();
+  };
+
+  const restoreMetadata = async (files: File[]) => {
+    const store = storeRef.current;
+    const selection = ++selectionRef.current;
+    setFileMetadata(new Map());
+    if (!store) return;
+
+    try {
+      const restored = await Promise.all(
+        files.map(async (file) => [fileIdentity(file), await store.restore(file)] as const)
+      );
+      if (selection === selectionRef.current) {
+        setFileMetadata(new Map(restored));
+      }
+    } catch (err) {
+      setError(`Saved notes and favorites are unavailable: ${(err as Error).message}`);
+    }
+  };
+
+  const metadataFor = (email: ParsedEmail) =>
+    email.location ? fileMetadata.get(email.location.fileId) : undefined;
+
+  // Saves through the store, then mirrors the change in state once it is durable
+  const updateMetadata = async <T,>(
+    email: ParsedEmail,
+    save: (store: MetadataStore, fingerprint: string) => Promise<T>,
+    apply: (metadata: UserMetadata, saved: T) => UserMetadata
+  ) => {
+    const store = storeRef.current;
+    const entry = metadataFor(email);
+    if (!store || !entry || !email.location) return;
+
+    const fileId = email.location.fileId;
+    try {
+      const saved = await save(store, entry.fingerprint);
+      setFileMetadata((current) => {
+        const latest = current.get(fileId);
+        if (!latest) return current;
+        return new Map(current).set(fileId, { ...latest, metadata: apply(latest.metadata, saved) });
+      });
+    } catch (err) {
+      setError(`Failed to save: ${(err as Error).message}`);
+    }
+  };
+
+  const toggleFavorite = (email: ParsedEmail) => updateMetadata(
+    email,
+    (store, fingerprint) => store.toggleFavorite(fingerprint, email.uid),
+    (metadata, favorite) => {
+      const favorites = new Set(metadata.favorites);
+      if (favorite) {
+        favorites.add(email.uid);
+      } else {
+        favorites.delete(email.uid);
+      }
+      return { ...metadata, favorites };
+    }
+  );
+
+  const saveNote = (email: ParsedEmail, content: string, tags: string[]) => updateMetadata(
+    email,
+    (store, fingerprint) => store.saveNote(fingerprint, email.uid, content, tags),
+    (metadata, note) => ({ ...metadata, notes: new Map(metadata.notes).set(email.uid, note) })
+  );
+
+  const deleteNote = (email: ParsedEmail) => updateMetadata(
+    email,
+    (store, fingerprint) => store.deleteNote(fingerprint, email.uid),
+    (metadata) => {
+      const notes = new Map(metadata.notes);
+      notes.delete(email.uid);
+      return { ...metadata, notes };
+    }
+  );
+
+  const setHeaderPreferences = (email: ParsedEmail, headerPreferences: HeaderVisibilityPrefs) => updateMetadata(
+    email,
+    (store, fingerprint) => store.setHeaderPreferences(fingerprint, headerPreferences),
+    (metadata) => ({ ...metadata, headerPreferences })
+  );
+
+  const exportMetadata = (file: File) => {
+    const fileId = fileIdentity(file);
+    const entry = fileMetadata.get(fileId);
+    if (!entry) return;
+
+    const bundle = exportMetadataBundle(
+      entry.metadata,
+      { fingerprint: entry.fingerprint, name: file.name, size: file.size },
+      emails.filter(email => email.location?.fileId === fileId)
+    );
+    const url = URL.createObjectURL(new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${file.name}.eama-metadata.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importMetadata = async (file: File, bundleFile: File, strategy: ImportStrategy) => {
+    const store = storeRef.current;
+    const fileId = fileIdentity(file);
+    const entry = fileMetadata.get(fileId);
+    if (!store || !entry) return;
+
+    try {
+      const bundle = parseMetadataBundle(await bundleFile.text());
+      const { metadata, report } = importMetadataBundle(
+        bundle,
+        entry.metadata,
+        entry.fingerprint,
+        emails.filter(email => email.location?.fileId === fileId),
+        strategy
+      );
+      await store.save(entry.fingerprint, metadata, file);
+      setFileMetadata((current) => new Map(current).set(fileId, { ...entry, metadata }));
+      setImportReport({ fileName: file.name, report });
+    } catch (err) {
+      setError(`Failed to import ${bundleFile.name}: ${(err as Error).message}`);
+    }
+  };
+
+  const togglePause = () => {
+    const service = serviceRef.current;
+    if (!service || !activeJobId) return;
+
+    if (isPaused) {
+      service.resume(activeJobId);
+    } else {
+      service.pause(activeJobId);
+    }
+    setIsPaused(!isPaused);
+  };
+
+  const cancelParse = () => {
+    if (activeJobId) {
+      serviceRef.current?.cancel(activeJobId);
+    }
+  };
+
+  // Emails restored from the archive cache have their bodies read when first opened
+  const loadDeferredBody = async (email: ParsedEmail) => {
+    const file = selectedFiles.find((f) => fileIdentity(f) === email.location?.fileId);
+    if (!file) return;
+
+    try {
+      const loaded = { ...email, body: await ArchiveCache.loadBody(email, file), deferredBody: undefined };
+      const replace = (list: ParsedEmail[]) => list.map((e) => (e.uid === loaded.uid ? loaded : e));
+      setEmails(replace);
+      setSearchResults((current) => current && { ...current, emails: replace(current.emails) });
+      searchRef.current?.addEmails([loaded]);
+    } catch (err) {
+      setError(`Failed to read email body: ${(err as Error).message}`);
+    }
+  };
+
+  // Downloads the working set being shown, or every result of the search, as an mboxrd file
+  const exportMBOX = async () => {
+    const search = searchRef.current;
+    const set = showWorkingSet ? activeSet : null;
+    if (!set && !(search && searchResults)) return;
+    setExporting(true);
 
     try {
-      const content = await file.text();
-      const parser = new MBOXParser();
-      const result = parser.parse(content);
-      setParseResult(result);
+      const exported = set
+        ? activeSetEmails
+        : (await search!.search(searchResults!.query, { pageSize: Math.max(1, searchResults!.total) })).emails;
+      const name = set ? set.name : 'search-results';
+      const files = new Map<string, Blob>(selectedFiles.map((file) => [fileIdentity(file), file]));
+      const url = URL.createObjectURL(await mboxExporter.exportToMBOX(exported, { files }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${name}.mbox`;
+      link.click();
+      URL.revokeObjectURL(url);
     } catch (err) {
-      setError(`Failed to parse MBOX file: ${(err as Error).message}`);
+      setError(`Export failed: ${(err as Error).message}`);
     } finally {
-      setIsLoading(false);
+      setExporting(false);
+    }
+  };
+
+  const runSearch = async (query: SearchQuery, page = 0) => {
+    const search = searchRef.current;
+    if (!search) return;
+
+    try {
+      setSearchResults(await search.search(query, { page }));
+    } catch (err) {
+      setError(`Search failed: ${(err as Error).message}`);
     }
   };
 
-  const toggleEmail = (uid: string) => {
-    setExpandedEmail(expandedEmail === uid ? null : uid);
+  // Runs a change through the manager, then mirrors its sets in state
+  const updateWorkingSets = async (change: (manager: WorkingSetManager) => Promise<unknown>) => {
+    const manager = workingSetsRef.current;
+    if (!manager) return;
+
+    try {
+      await change(manager);
+      setWorkingSets(manager.list());
+    } catch (err) {
+      setError(`Working set not saved: ${(err as Error).message}`);
+    }
+  };
+
+  const selectWorkingSet = (id: string | null) => {
+    setActiveSetId(id);
+    setComparedUIDs([]);
+  };
+
+  const createWorkingSet = (name: string) => updateWorkingSets(async (manager) => {
+    selectWorkingSet((await manager.create(name)).id);
+  });
+
+  const deleteWorkingSet = (id: string) => updateWorkingSets(async (manager) => {
+    await manager.delete(id);
+    selectWorkingSet(manager.list()[0]?.id ?? null);
+  });
+
+  const toggleCompared = (uid: string) => {
+    setComparedUIDs((uids) => uids.includes(uid) ? uids.filter((other) => other !== uid) : [...uids, uid]);
+  };
+
+  // Emails added while search results are shown record that search
+  const toggleInWorkingSet = (email: ParsedEmail) => {
+    if (!activeSet) return;
+    const { id } = activeSet;
+    updateWorkingSets((manager) => activeSet.entries.some((entry) => entryHas(entry, email.uid))
+      ? manager.remove(id, [email.uid])
+      : manager.add(id, [email], searchResults?.query));
   };
 
+  const addResultsToWorkingSet = () => {
+    if (!activeSet || !searchResults) return;
+    updateWorkingSets((manager) => manager.add(activeSet.id, searchResults.emails, searchResults.query));
+  };
+
+  const toggleEmail = (email: ParsedEmail) => {
+    const expanding = expandedEmail !== email.uid;
+    setExpandedEmail(expanding ? email.uid : null);
+    if (expanding && email.deferredBody) {
+      loadDeferredBody(email);
+    }
+  };
+
+  const inActiveSet = (email: ParsedEmail) =>
+    activeSet?.entries.some((entry) => entryHas(entry, email.uid)) ?? false;
+
+  // Copies of a message across every loaded file, with where each came from
+  const duplicates = useMemo(() => duplicateDetector.detect(emails), [emails]);
+  const fileNames = useMemo(() => new Map(selectedFiles.map((file) => [fileIdentity(file), file.name])), [selectedFiles]);
+
+  const shownEmails = showWorkingSet && activeSet ? activeSetEmails : searchResults?.emails ?? emails;
+
+  // With duplicates collapsed, the first listed copy of each message stands for the others
+  const listedEmails = useMemo(() => {
+    if (!collapseDuplicates) return shownEmails;
+    const seen = new Set<string>();
+    return shownEmails.filter((email) => {
+      const group = duplicates.groupOf.get(email.uid);
+      if (!group) return true;
+      if (seen.has(group.id)) return false;
+      seen.add(group.id);
+      return true;
+    });
+  }, [collapseDuplicates, shownEmails, duplicates]);
+
+  // Threads span every file loaded, so a reply in one file nests under its parent in another
+  const threads = useMemo(() => threaded ? threading.thread(listedEmails) : null, [threaded, listedEmails]);
+  const listRows: ListRow[] = threads
+    ? threads.flatMap((thread) => flattenThread(thread).map(({ node, depth }, i) => ({
+      key: node.email?.uid ?? `${thread.id}-${i}`,
+      email: node.email,
+      depth,
+      ...(depth === 0 && { thread })
+    })))
+    : listedEmails.map((email) => ({ key: email.uid, email, depth: 0 }));
+
+  const threadSummary = (thread: Thread<ParsedEmail>) =>
+    `${thread.size} messages${thread.fileIds.length > 1 ? ` across ${thread.fileIds.length} files` : ''}`;
+
   const formatBytes = (bytes: number) => {
     if (bytes < 1024) return `${bytes} B`;
     if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
@@ -50,26 +492,78 @@ function App() {
           </p>
         </header>
 
-        <div className="mb-6">
+        <div className="mb-6 flex gap-3">
           <label className="inline-block">
             <input
               type="file"
-              accept=".mbox,.txt"
+              accept=".mbox,.mbx,.txt,.eml,.zip"
+              multiple
               onChange={handleFileUpload}
               disabled={isLoading}
               className="hidden"
             />
             <div className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 cursor-pointer transition-colors text-sm">
               <Upload className="w-4 h-4" />
-              <span>{isLoading ? 'Parsing...' : 'Upload MBOX File'}</span>
+              <span>{isLoading ? 'Parsing...' : 'Upload MBOX, EML or ZIP'}</span>
+            </div>
+          </label>
+          <label className="inline-block">
+            <input
+              type="file"
+              {...{ webkitdirectory: '' }}
+              onChange={handleFileUpload}
+              disabled={isLoading}
+              className="hidden"
+            />
+            <div className="inline-flex items-center gap-2 px-4 py-2 bg-white border border-blue-600 text-blue-700 rounded-lg hover:bg-blue-50 cursor-pointer transition-colors text-sm">
+              <FolderOpen className="w-4 h-4" />
+              <span>Open Maildir Folder</span>
             </div>
           </label>
         </div>
 
+        {cachedArchives.length > 0 && (
+          <ArchiveCacheList
+            archives={cachedArchives}
+            formatBytes={formatBytes}
+            onEvict={evictArchive}
+            onClear={clearArchiveCache}
+          />
+        )}
+
         {isLoading && (
-          <div className="bg-white rounded-lg shadow-lg p-8 text-center">
-            <Loader2 className="w-12 h-12 animate-spin text-blue-600 mx-auto mb-4" />
-            <p className="text-gray-600">Parsing MBOX file...</p>
+          <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+            <div className="flex items-center gap-4">
+              <Loader2 className={`w-8 h-8 text-blue-600 ${isPaused ? '' : 'animate-spin'}`} />
+              <div className="flex-1">
+                <p className="text-gray-700 text-sm mb-2">
+                  {isPaused ? 'Paused' : 'Parsing...'}{' '}
+                  {progress && `${progress.emailsProcessed} emails, ${formatBytes(progress.bytesProcessed)}`}
+                </p>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className="bg-blue-600 h-2 rounded-full transition-all"
+                    style={{ width: `${Math.min(100, progress?.percent ?? 0)}%` }}
+                  />
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={togglePause}
+                className="inline-flex items-center gap-1 px-3 py-1.5 text-sm border rounded hover:bg-gray-50"
+              >
+                {isPaused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+                {isPaused ? 'Resume' : 'Pause'}
+              </button>
+              <button
+                type="button"
+                onClick={cancelParse}
+                className="inline-flex items-center gap-1 px-3 py-1.5 text-sm border border-red-200 text-red-700 rounded hover:bg-red-50"
+              >
+                <Square className="w-4 h-4" />
+                Cancel
+              </button>
+            </div>
           </div>
         )}
 
@@ -85,16 +579,20 @@ function App() {
           </div>
         )}
 
-        {parseResult && (
+        {summary && (
           <>
             <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-6">
               <div className="flex items-center gap-3">
                 <CheckCircle className="w-5 h-5 text-green-600" />
                 <div>
-                  <h3 className="font-semibold text-green-900">Parse Complete</h3>
+                  <h3 className="font-semibold text-green-900">
+                    {wasCancelled ? 'Parse Cancelled' : 'Parse Complete'}
+                  </h3>
                   <p className="text-green-700 text-sm">
-                    Successfully parsed {parseResult.stats.totalEmails} emails in{' '}
-                    {parseResult.stats.parseTime.toFixed(2)}ms
+                    {wasCancelled ? 'Kept' : 'Successfully parsed'} {summary.stats.totalEmails} emails in{' '}
+                    {summary.stats.parseTime.toFixed(2)}ms
+                    {summary.stats.variant && ` (${summary.stats.variant})`}
+                    {summary.stats.cachedFiles && `, ${summary.stats.cachedFiles} restored from cache`}
                   </p>
                 </div>
               </div>
@@ -103,37 +601,37 @@ function App() {
             <div className="grid grid-cols-4 gap-4 mb-6">
               <div className="bg-white rounded-lg shadow p-4">
                 <div className="text-3xl font-bold text-gray-900">
-                  {parseResult.stats.totalEmails}
+                  {summary.stats.totalEmails}
                 </div>
                 <div className="text-sm text-gray-600">Total Emails</div>
               </div>
               <div className="bg-white rounded-lg shadow p-4">
                 <div className="text-3xl font-bold text-gray-900">
-                  {formatBytes(parseResult.stats.totalBytes)}
+                  {formatBytes(summary.stats.totalBytes)}
                 </div>
                 <div className="text-sm text-gray-600">Total Size</div>
               </div>
               <div className="bg-white rounded-lg shadow p-4">
                 <div className="text-3xl font-bold text-gray-900">
-                  {parseResult.stats.parseTime.toFixed(0)}ms
+                  {summary.stats.parseTime.toFixed(0)}ms
                 </div>
                 <div className="text-sm text-gray-600">Parse Time</div>
               </div>
               <div className="bg-white rounded-lg shadow p-4">
                 <div className="text-3xl font-bold text-gray-900">
-                  {formatBytes(parseResult.stats.avgEmailSize)}
+                  {formatBytes(summary.stats.avgEmailSize)}
                 </div>
                 <div className="text-sm text-gray-600">Avg Size</div>
               </div>
             </div>
 
-            {parseResult.errors.length > 0 && (
+            {summary.errors.length > 0 && (
               <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6">
                 <h3 className="font-semibold text-yellow-900 mb-2">
-                  Parse Warnings ({parseResult.errors.length})
+                  Parse Warnings ({summary.errors.length})
                 </h3>
                 <div className="space-y-1">
-                  {parseResult.errors.slice(0, 5).map((err, idx) => (
+                  {summary.errors.slice(0, 5).map((err, idx) => (
                     <p key={idx} className="text-sm text-yellow-800">
                       {err.type}: {err.message}
                     </p>
@@ -141,17 +639,154 @@ function App() {
                 </div>
               </div>
             )}
+          </>
+        )}
+
+        {summary && selectedFiles.length > 0 && (
+          <FileMetadataPanel
+            files={selectedFiles.map(file => ({ file, entry: fileMetadata.get(fileIdentity(file)) }))}
+            report={importReport}
+            onExport={exportMetadata}
+            onImport={importMetadata}
+          />
+        )}
+
+        {(emails.length > 0 || workingSets.length > 0) && (
+          <WorkingSetPanel
+            sets={workingSets}
+            active={activeSet}
+            showInList={showWorkingSet}
+            isLoaded={isLoaded}
+            compared={comparedUIDs}
+            onSelect={selectWorkingSet}
+            onToggleCompared={toggleCompared}
+            onCreate={createWorkingSet}
+            onRename={(id, name) => updateWorkingSets((manager) => manager.rename(id, name))}
+            onDelete={deleteWorkingSet}
+            onRemove={(uid) => activeSet && updateWorkingSets((manager) => manager.remove(activeSet.id, [uid]))}
+            onClear={() => activeSet && updateWorkingSets((manager) => manager.clear(activeSet.id))}
+            onShowInList={setShowWorkingSet}
+          />
+        )}
+
+        {comparing && canCompare && (
+          <ComparisonView emails={comparedEmails} onClose={() => setComparing(false)} />
+        )}
+
+        {emails.length > 0 && (
+          <>
+            <SearchBar
+              onSearch={(query) => runSearch(query)}
+              onClear={() => setSearchResults(null)}
+            />
 
             <div className="bg-white rounded-lg shadow-lg overflow-hidden">
-              <div className="bg-gray-100 px-6 py-3 border-b">
-                <h3 className="font-semibold text-gray-900">Parsed Emails</h3>
+              <div className="bg-gray-100 px-6 py-3 border-b flex items-center gap-3">
+                <div className="flex-1 flex items-center justify-between">
+                  {showWorkingSet && activeSet ? (
+                    <>
+                      <h3 className="font-semibold text-gray-900">
+                        Working Set: {activeSet.name} ({listedEmails.length} of {activeSet.entries.length} loaded)
+                      </h3>
+                      <button
+                        type="button"
+                        onClick={() => setComparing(true)}
+                        disabled={!canCompare}
+                        title={canCompare ? undefined : `Pick ${MIN_COMPARED_EMAILS} to ${MAX_COMPARED_EMAILS} loaded emails of the set to compare`}
+                        className="inline-flex items-center gap-1 px-2 py-0.5 border rounded text-sm text-gray-600 hover:bg-white disabled:text-gray-300"
+                      >
+                        <GitCompare className="w-4 h-4" />
+                        Compare headers
+                      </button>
+                    </>
+                  ) : searchResults ? (
+                    <>
+                      <h3 className="font-semibold text-gray-900">
+                        Search Results ({searchResults.total})
+                        <span className="ml-2 text-xs font-normal text-gray-500">
+                          {searchResults.executionTime.toFixed(0)}ms
+                        </span>
+                      </h3>
+                      <div className="flex items-center gap-2 text-sm text-gray-600">
+                        {activeSet && searchResults.emails.length > 0 && (
+                          <button
+                            type="button"
+                            onClick={addResultsToWorkingSet}
+                            className="inline-flex items-center gap-1 px-2 py-0.5 border rounded hover:bg-white"
+                          >
+                            <ListPlus className="w-4 h-4" />
+                            Add page to {activeSet.name}
+                          </button>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => runSearch(searchResults.query, searchResults.page - 1)}
+                          disabled={searchResults.page === 0}
+                          className="px-2 py-0.5 border rounded hover:bg-white disabled:text-gray-300"
+                        >
+                          Prev
+                        </button>
+                        <span>
+                          Page {searchResults.page + 1} of {Math.max(1, Math.ceil(searchResults.total / searchResults.pageSize))}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => runSearch(searchResults.query, searchResults.page + 1)}
+                          disabled={(searchResults.page + 1) * searchResults.pageSize >= searchResults.total}
+                          className="px-2 py-0.5 border rounded hover:bg-white disabled:text-gray-300"
+                        >
+                          Next
+                        </button>
+                      </div>
+                    </>
+                  ) : (
+                    <h3 className="font-semibold text-gray-900">Parsed Emails ({emails.length})</h3>
+                  )}
+                </div>
+                {duplicates.duplicateCount > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => setCollapseDuplicates(!collapseDuplicates)}
+                    title={collapseDuplicates ? 'Show every copy' : 'Show each message once'}
+                    className={`inline-flex items-center gap-1 px-2 py-0.5 border rounded text-sm hover:bg-white ${collapseDuplicates ? 'bg-white text-blue-700' : 'text-gray-600'}`}
+                  >
+                    <Copy className="w-4 h-4" />
+                    {duplicates.duplicateCount} duplicates
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => setThreaded(!threaded)}
+                  title={threaded ? 'Show as a flat list' : 'Group into conversations'}
+                  className={`inline-flex items-center gap-1 px-2 py-0.5 border rounded text-sm hover:bg-white ${threaded ? 'bg-white text-blue-700' : 'text-gray-600'}`}
+                >
+                  <MessagesSquare className="w-4 h-4" />
+                  Threads{threads && ` (${threads.length})`}
+                </button>
+                {(showWorkingSet && activeSet || searchResults) && (
+                  <button
+                    type="button"
+                    onClick={exportMBOX}
+                    disabled={exporting || (showWorkingSet && activeSet ? activeSetEmails : searchResults?.emails ?? []).length === 0}
+                    title="Download as an mboxrd file"
+                    className="inline-flex items-center gap-1 px-2 py-0.5 border rounded text-sm text-gray-600 hover:bg-white disabled:text-gray-300"
+                  >
+                    {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                    Export MBOX
+                  </button>
+                )}
               </div>
               <div className="divide-y max-h-[600px] overflow-y-auto">
-                {parseResult.emails.map((email, idx) => (
-                  <div key={email.uid} className="hover:bg-gray-50">
+                {listRows.map(({ key, email, depth, thread }) => email === null ? (
+                  <div key={key} className="px-4 py-2 text-sm italic text-gray-400" style={threadIndent(depth)}>
+                    Earlier message not loaded
+                    {thread && thread.size > 1 && <span className="ml-2 not-italic text-xs">{threadSummary(thread)}</span>}
+                  </div>
+                ) : (
+                  <div key={key} className="hover:bg-gray-50" style={threadIndent(depth)}>
                     <div
                       className="p-4 cursor-pointer"
-                      onClick={() => toggleEmail(email.uid)}
+                      onClick={() => toggleEmail(email)}
                     >
                       <div className="flex items-start gap-3">
                         <div className="mt-1">
@@ -167,12 +802,20 @@ function App() {
                             <div className="font-medium text-gray-900 truncate">
                               {email.metadata.subject}
                             </div>
+                            {thread && thread.size > 1 && (
+                              <span className="text-xs text-gray-500 whitespace-nowrap">{threadSummary(thread)}</span>
+                            )}
+                            {duplicates.groupOf.has(email.uid) && (
+                              <span className="text-xs text-gray-500 whitespace-nowrap">
+                                {duplicates.groupOf.get(email.uid)!.copies.length} copies
+                              </span>
+                            )}
                           </div>
                           <div className="text-sm text-gray-600">
-                            <span className="font-medium">From:</span> {email.metadata.from.join(', ')}
+                            <span className="font-medium">From:</span> {email.metadata.from.map(formatAddress).join(', ')}
                           </div>
                           <div className="text-sm text-gray-600">
-                            <span className="font-medium">To:</span> {email.metadata.to.join(', ')}
+                            <span className="font-medium">To:</span> {email.metadata.to.map(formatAddress).join(', ')}
                           </div>
                           {email.metadata.date && (
                             <div className="text-xs text-gray-500 mt-1">
@@ -180,8 +823,44 @@ function App() {
                             </div>
                           )}
                         </div>
-                        <div className="text-xs text-gray-500">
+                        <div className="text-xs text-gray-500 flex items-center gap-1">
+                          {metadataFor(email)?.metadata.notes.has(email.uid) && (
+                            <StickyNote className="w-3 h-3 text-amber-500" />
+                          )}
+                          {email.body.attachments.length > 0 && (
+                            <Paperclip className="w-3 h-3" />
+                          )}
                           {formatBytes(email.rawSize)}
+                          {activeSet && (
+                            <button
+                              type="button"
+                              title={inActiveSet(email) ? `Remove from ${activeSet.name}` : `Add to ${activeSet.name}`}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                toggleInWorkingSet(email);
+                              }}
+                              className="ml-2 p-1 rounded hover:bg-gray-100"
+                            >
+                              {inActiveSet(email)
+                                ? <ListMinus className="w-4 h-4 text-blue-600" />
+                                : <ListPlus className="w-4 h-4 text-gray-300" />}
+                            </button>
+                          )}
+                          {metadataFor(email) && (
+                            <button
+                              type="button"
+                              title="Favorite"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                toggleFavorite(email);
+                              }}
+                              className="ml-2 p-1 rounded hover:bg-gray-100"
+                            >
+                              <Star
+                                className={`w-4 h-4 ${metadataFor(email)!.metadata.favorites.has(email.uid) ? 'fill-yellow-400 text-yellow-500' : 'text-gray-300'}`}
+                              />
+                            </button>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -189,29 +868,32 @@ function App() {
                     {expandedEmail === email.uid && (
                       <div className="px-4 pb-4 bg-gray-50">
                         <div className="border-t pt-4 space-y-4">
-                          <div>
-                            <h4 className="text-sm font-semibold text-gray-700 mb-2">
-                              Headers ({Object.keys(email.headers).length})
-                            </h4>
-                            <div className="bg-white rounded border p-3 max-h-48 overflow-y-auto">
-                              <table className="w-full text-sm">
-                                <tbody>
-                                  {Object.entries(email.headers).map(([key, values]) => (
-                                    <tr key={key} className="border-b last:border-b-0">
-                                      <td className="py-1 pr-4 font-medium text-gray-700 align-top">
-                                        {key}:
-                                      </td>
-                                      <td className="py-1 text-gray-600">
-                                        {values.map((val, i) => (
-                                          <div key={i}>{val}</div>
-                                        ))}
-                                      </td>
-                                    </tr>
-                                  ))}
-                                </tbody>
-                              </table>
-                            </div>
-                          </div>
+                          <HeaderTable
+                            headers={email.headers}
+                            preferences={metadataFor(email)?.metadata.headerPreferences ?? DEFAULT_HEADER_PREFERENCES}
+                            onPreferencesChange={(prefs) => setHeaderPreferences(email, prefs)}
+                          />
+
+                          {metadataFor(email) && (
+                            <NoteEditor
+                              key={email.uid}
+                              note={metadataFor(email)!.metadata.notes.get(email.uid)}
+                              onSave={(content, tags) => saveNote(email, content, tags)}
+                              onDelete={() => deleteNote(email)}
+                            />
+                          )}
+
+                          {email.metadata.receivedChain.length > 0 && (
+                            <ReceivedChain chain={email.metadata.receivedChain} />
+                          )}
+
+                          {duplicates.groupOf.has(email.uid) && (
+                            <DuplicateCopies
+                              group={duplicates.groupOf.get(email.uid)!}
+                              current={email.uid}
+                              fileName={(fileId) => fileNames.get(fileId) ?? fileId}
+                            />
+                          )}
 
                           <div>
                             <h4 className="text-sm font-semibold text-gray-700 mb-2">
@@ -219,11 +901,18 @@ function App() {
                             </h4>
                             <div className="bg-white rounded border p-3 max-h-64 overflow-y-auto">
                               <pre className="text-sm text-gray-800 whitespace-pre-wrap font-mono">
-                                {email.body.text}
+                                {email.deferredBody ? 'Loading...' : email.body.text || email.body.html}
                               </pre>
                             </div>
                           </div>
 
+                          {email.body.attachments.length > 0 && (
+                            <AttachmentList
+                              attachments={email.body.attachments}
+                              formatBytes={formatBytes}
+                            />
+                          )}
+
                           {email.metadata.references && email.metadata.references.length > 0 && (
                             <div>
                               <h4 className="text-sm font-semibold text-gray-700 mb-2">
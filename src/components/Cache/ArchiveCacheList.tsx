@@ -0,0 +1,54 @@
+import { Database, Trash2 } from 'lucide-react';
+import type { CachedArchiveInfo } from '../../services/ArchiveCache';
+
+interface ArchiveCacheListProps {
+  archives: CachedArchiveInfo[];
+  formatBytes: (bytes: number) => string;
+  onEvict: (fingerprint: string) => void;
+  onClear: () => void;
+}
+
+function ArchiveCacheList({ archives, formatBytes, onEvict, onClear }: ArchiveCacheListProps) {
+  return (
+    <details className="bg-white rounded-lg shadow mb-6">
+      <summary className="flex items-center gap-2 px-4 py-3 cursor-pointer text-sm font-semibold text-gray-900">
+        <Database className="w-4 h-4 text-gray-500" />
+        Cached Archives ({archives.length})
+      </summary>
+      <div className="border-t">
+        <div className="divide-y max-h-60 overflow-y-auto">
+          {archives.map((archive) => (
+            <div key={archive.fingerprint} className="flex items-center gap-3 px-4 py-2 text-sm">
+              <div className="flex-1 min-w-0">
+                <div className="font-medium text-gray-800 truncate">{archive.fileName}</div>
+                <div className="text-xs text-gray-500">
+                  {archive.emailCount} emails · {formatBytes(archive.fileSize)} · last opened{' '}
+                  {archive.lastOpened.toLocaleString()}
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => onEvict(archive.fingerprint)}
+                className="inline-flex items-center gap-1 px-2 py-1 text-xs text-red-700 hover:bg-red-50 rounded"
+              >
+                <Trash2 className="w-3 h-3" />
+                Evict
+              </button>
+            </div>
+          ))}
+        </div>
+        <div className="px-4 py-2 border-t text-right">
+          <button
+            type="button"
+            onClick={onClear}
+            className="text-xs text-red-700 hover:underline"
+          >
+            Clear cache
+          </button>
+        </div>
+      </div>
+    </details>
+  );
+}
+
+export default ArchiveCacheList;
@@ -0,0 +1,135 @@
+import { useMemo, useState } from 'react';
+import { Columns, X } from 'lucide-react';
+import type { ParsedEmail } from '../../services/MBOXParser';
+import { ComparisonEngine, type ComparisonStatus } from '../../services/ComparisonEngine';
+import type { DiffToken } from '../../utils/token-diff';
+import { formatAddress } from '../../utils/addresses';
+
+interface ComparisonViewProps {
+  emails: ParsedEmail[];
+  onClose: () => void;
+}
+
+const engine = new ComparisonEngine();
+
+const STATUS_STYLES: Record<ComparisonStatus, string> = {
+  identical: 'text-gray-400',
+  different: 'text-amber-700',
+  missing: 'text-red-700'
+};
+
+function Value({ value, diff }: { value: string | null; diff: DiffToken[] | null }) {
+  if (value === null) return <span className="italic text-gray-400">missing</span>;
+  if (!diff) return <>{value}</>;
+  return (
+    <>
+      {diff.map((token, i) => token.changed
+        ? <mark key={i} className="bg-yellow-200 rounded-sm">{token.text}</mark>
+        : <span key={i}>{token.text}</span>)}
+    </>
+  );
+}
+
+function ComparisonView({ emails, onClose }: ComparisonViewProps) {
+  const [differencesOnly, setDifferencesOnly] = useState(true);
+  const comparison = useMemo(() => engine.compare(emails), [emails]);
+  const headers = differencesOnly
+    ? comparison.headers.filter((header) => header.status !== 'identical')
+    : comparison.headers;
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 mb-4">
+      <div className="flex items-center gap-3 mb-3">
+        <Columns className="w-4 h-4 text-gray-500" />
+        <h3 className="font-semibold text-gray-900 mr-auto">Header Comparison</h3>
+        <span className="text-xs text-gray-500">
+          {comparison.counts.identical} identical · {comparison.counts.different} different · {comparison.counts.missing} missing
+        </span>
+        <label className="flex items-center gap-1 text-xs text-gray-600">
+          <input type="checkbox" checked={differencesOnly} onChange={(e) => setDifferencesOnly(e.target.checked)} />
+          Differences only
+        </label>
+        <button type="button" title="Close" onClick={onClose} className="p-1 text-gray-400 hover:text-gray-700 rounded">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="overflow-x-auto max-h-[32rem] overflow-y-auto border rounded">
+        <table className="w-full text-xs table-fixed">
+          <thead className="sticky top-0 bg-gray-50">
+            <tr className="text-left border-b">
+              <th className="p-2 w-40">Header</th>
+              {emails.map((email) => (
+                <th key={email.uid} className="p-2 font-normal align-top">
+                  <div className="font-medium text-gray-900 truncate">{email.metadata.subject}</div>
+                  <div className="text-gray-500 truncate">{email.metadata.from.map(formatAddress).join(', ')}</div>
+                  {email.metadata.date && (
+                    <div className="text-gray-400">{new Date(email.metadata.date).toLocaleString()}</div>
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {headers.map((header) => header.rows.map((row, i) => (
+              <tr key={`${header.name}-${i}`} className={`align-top ${i === header.rows.length - 1 ? 'border-b' : ''}`}>
+                <td className="p-2">
+                  {i === 0 && (
+                    <div className="font-medium text-gray-700">
+                      {header.name}
+                      <span className={`ml-1 font-normal ${STATUS_STYLES[header.status]}`}>{header.status}</span>
+                    </div>
+                  )}
+                  {row.label && <div className="text-gray-400 font-mono truncate" title={row.label}>{row.label}</div>}
+                </td>
+                {row.values.map((value, column) => (
+                  <td key={column} className="p-2 font-mono break-all text-gray-700">
+                    <Value value={value} diff={row.diff[column]} />
+                  </td>
+                ))}
+              </tr>
+            )))}
+          </tbody>
+        </table>
+      </div>
+
+      {comparison.received.length > 0 && (
+        <>
+          <h4 className="text-sm font-semibold text-gray-700 mt-4 mb-2">
+            Received Hops ({comparison.received.length} relays)
+          </h4>
+          <div className="overflow-x-auto border rounded">
+            <table className="w-full text-xs table-fixed">
+              <tbody>
+                {comparison.received.map((row, i) => (
+                  <tr key={i} className="border-b last:border-b-0 align-top">
+                    <td className="p-2 w-40">
+                      <div className="font-mono text-gray-700 break-all">{row.label}</div>
+                      <div className={STATUS_STYLES[row.status]}>{row.status}</div>
+                    </td>
+                    {row.hops.map((hop, column) => (
+                      <td key={column} className="p-2">
+                        {hop ? (
+                          <>
+                            <div className="font-mono break-all text-gray-700">
+                              <Value value={hop.raw} diff={row.diff[column]} />
+                            </div>
+                            {hop.date && <div className="text-gray-400 mt-1">{hop.date.toLocaleString()}</div>}
+                          </>
+                        ) : (
+                          <span className="italic text-gray-400">not on this route</span>
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default ComparisonView;
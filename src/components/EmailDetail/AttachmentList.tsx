@@ -0,0 +1,54 @@
+import { Download, Paperclip } from 'lucide-react';
+import type { Attachment } from '../../types';
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+  formatBytes: (bytes: number) => string;
+}
+
+function downloadAttachment(attachment: Attachment) {
+  if (!attachment.data) return;
+
+  const blob = new Blob([attachment.data], { type: attachment.mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = attachment.filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function AttachmentList({ attachments, formatBytes }: AttachmentListProps) {
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-gray-700 mb-2">
+        Attachments ({attachments.length})
+      </h4>
+      <div className="bg-white rounded border divide-y">
+        {attachments.map((attachment, i) => (
+          <div key={i} className="flex items-center gap-3 px-3 py-2 text-sm">
+            <Paperclip className="w-4 h-4 text-gray-400 flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+              <div className="font-medium text-gray-800 truncate">{attachment.filename}</div>
+              <div className="text-xs text-gray-500">
+                {attachment.mimeType} · {formatBytes(attachment.size)}
+                {attachment.contentId && <> · cid:{attachment.contentId}</>}
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={() => downloadAttachment(attachment)}
+              disabled={!attachment.data}
+              className="inline-flex items-center gap-1 px-2 py-1 text-xs text-blue-700 hover:bg-blue-50 rounded disabled:text-gray-400"
+            >
+              <Download className="w-3 h-3" />
+              Download
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default AttachmentList;
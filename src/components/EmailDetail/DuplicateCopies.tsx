@@ -0,0 +1,57 @@
+import type { ParsedEmail } from '../../services/MBOXParser';
+import type { DuplicateGroup, DuplicateKind } from '../../services/DuplicateDetector';
+
+interface DuplicateCopiesProps {
+  group: DuplicateGroup<ParsedEmail>;
+  current: string; // uid of the copy being viewed
+  fileName: (fileId: string) => string;
+}
+
+const KIND_LABELS: Record<DuplicateKind, string> = {
+  original: 'first loaded',
+  exact: 'exact copy',
+  near: 'added headers',
+  'message-id': 'same Message-ID, different content'
+};
+
+function DuplicateCopies({ group, current, fileName }: DuplicateCopiesProps) {
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-gray-700 mb-2">
+        Copies ({group.copies.length})
+      </h4>
+      <div className="bg-white rounded border p-3 overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-1 pr-3">Source</th>
+              <th className="py-1 pr-3">Labels</th>
+              <th className="py-1 pr-3">Match</th>
+              <th className="py-1">Differing headers</th>
+            </tr>
+          </thead>
+          <tbody>
+            {group.copies.map((copy) => (
+              <tr
+                key={copy.email.uid}
+                className={`border-b last:border-b-0 align-top ${copy.email.uid === current ? 'font-medium' : ''}`}
+              >
+                <td className="py-1 pr-3 text-gray-700 break-all">
+                  {copy.fileId ? fileName(copy.fileId) : 'unknown file'}
+                  {copy.entry && <span className="text-gray-500"> / {copy.entry}</span>}
+                </td>
+                <td className="py-1 pr-3 text-gray-600">{copy.labels.join(', ')}</td>
+                <td className={`py-1 pr-3 whitespace-nowrap ${copy.kind === 'message-id' ? 'text-red-600' : 'text-gray-600'}`}>
+                  {KIND_LABELS[copy.kind]}
+                </td>
+                <td className="py-1 text-gray-500 font-mono break-all">{copy.differentHeaders.join(', ')}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export default DuplicateCopies;
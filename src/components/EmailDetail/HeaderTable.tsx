@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { EyeOff, Pin, PinOff } from 'lucide-react';
+import type { HeaderVisibilityPrefs } from '../../types';
+import { isHeaderVisible } from '../../utils/header-visibility';
+
+interface HeaderTableProps {
+  headers: Record<string, string[]>;
+  preferences: HeaderVisibilityPrefs;
+  onPreferencesChange: (preferences: HeaderVisibilityPrefs) => void;
+}
+
+const VIEWS: HeaderVisibilityPrefs['defaultView'][] = ['all', 'standard', 'minimal'];
+
+function toggled(set: Set<string>, name: string): Set<string> {
+  const next = new Set(set);
+  if (!next.delete(name)) next.add(name);
+  return next;
+}
+
+function HeaderTable({ headers, preferences, onPreferencesChange }: HeaderTableProps) {
+  const [showHidden, setShowHidden] = useState(false);
+  const entries = Object.entries(headers);
+  const hiddenCount = entries.filter(([key]) => !isHeaderVisible(key, preferences)).length;
+  const shown = showHidden ? entries : entries.filter(([key]) => isHeaderVisible(key, preferences));
+
+  const hide = (name: string) => onPreferencesChange({
+    ...preferences,
+    hiddenHeaders: toggled(preferences.hiddenHeaders, name),
+    alwaysShowHeaders: new Set([...preferences.alwaysShowHeaders].filter(h => h !== name))
+  });
+
+  const pin = (name: string) => onPreferencesChange({
+    ...preferences,
+    alwaysShowHeaders: toggled(preferences.alwaysShowHeaders, name),
+    hiddenHeaders: new Set([...preferences.hiddenHeaders].filter(h => h !== name))
+  });
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-semibold text-gray-700">
+          Headers ({entries.length})
+        </h4>
+        <div className="flex items-center gap-2 text-xs">
+          {hiddenCount > 0 && (
+            <button
+              type="button"
+              onClick={() => setShowHidden(!showHidden)}
+              className="text-blue-700 hover:underline"
+            >
+              {showHidden ? 'Hide filtered' : `Show ${hiddenCount} hidden`}
+            </button>
+          )}
+          <select
+            value={preferences.defaultView}
+            onChange={(e) => onPreferencesChange({
+              ...preferences,
+              defaultView: e.target.value as HeaderVisibilityPrefs['defaultView']
+            })}
+            className="border rounded px-1 py-0.5"
+          >
+            {VIEWS.map(view => (
+              <option key={view} value={view}>{view}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className="bg-white rounded border p-3 max-h-48 overflow-y-auto">
+        <table className="w-full text-sm">
+          <tbody>
+            {shown.map(([key, values]) => (
+              <tr
+                key={key}
+                className={`group border-b last:border-b-0 ${isHeaderVisible(key, preferences) ? '' : 'opacity-50'}`}
+              >
+                <td className="py-1 pr-4 font-medium text-gray-700 align-top">
+                  {key}:
+                </td>
+                <td className="py-1 text-gray-600">
+                  {values.map((val, i) => (
+                    <div key={i}>{val}</div>
+                  ))}
+                </td>
+                <td className="py-1 pl-2 align-top whitespace-nowrap opacity-0 group-hover:opacity-100">
+                  <button
+                    type="button"
+                    title={preferences.alwaysShowHeaders.has(key) ? 'Unpin' : 'Always show'}
+                    onClick={() => pin(key)}
+                    className="p-0.5 text-gray-400 hover:text-gray-700"
+                  >
+                    {preferences.alwaysShowHeaders.has(key) ? <PinOff className="w-3 h-3" /> : <Pin className="w-3 h-3" />}
+                  </button>
+                  <button
+                    type="button"
+                    title={preferences.hiddenHeaders.has(key) ? 'Unhide' : 'Hide'}
+                    onClick={() => hide(key)}
+                    className="p-0.5 text-gray-400 hover:text-gray-700"
+                  >
+                    <EyeOff className="w-3 h-3" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export default HeaderTable;
@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { Save, Trash2 } from 'lucide-react';
+import type { Note } from '../../types';
+
+interface NoteEditorProps {
+  note?: Note;
+  onSave: (content: string, tags: string[]) => void;
+  onDelete: () => void;
+}
+
+function parseTags(value: string): string[] {
+  return [...new Set(value.split(/[\s,]+/).map(tag => tag.replace(/^#/, '')).filter(Boolean))];
+}
+
+// Mount with key={email.uid} so the draft resets when another email is opened
+function NoteEditor({ note, onSave, onDelete }: NoteEditorProps) {
+  const [content, setContent] = useState(note?.content ?? '');
+  const [tags, setTags] = useState(note?.tags?.join(', ') ?? '');
+  const isDirty = content !== (note?.content ?? '') || tags !== (note?.tags?.join(', ') ?? '');
+
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-gray-700 mb-2">
+        Note
+      </h4>
+      <div className="bg-white rounded border p-3 space-y-2">
+        <textarea
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          placeholder="Add a note about this email..."
+          rows={3}
+          className="w-full text-sm border rounded p-2"
+        />
+        <div className="flex items-center gap-2">
+          <input
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            placeholder="Tags, comma separated"
+            className="flex-1 text-sm border rounded px-2 py-1"
+          />
+          <button
+            type="button"
+            onClick={() => onSave(content.trim(), parseTags(tags))}
+            disabled={!isDirty || !content.trim()}
+            className="inline-flex items-center gap-1 px-2 py-1 text-xs text-white bg-blue-600 rounded hover:bg-blue-700 disabled:bg-gray-300"
+          >
+            <Save className="w-3 h-3" />
+            Save
+          </button>
+          {note && (
+            <button
+              type="button"
+              onClick={() => {
+                setContent('');
+                setTags('');
+                onDelete();
+              }}
+              className="inline-flex items-center gap-1 px-2 py-1 text-xs text-red-700 rounded hover:bg-red-50"
+            >
+              <Trash2 className="w-3 h-3" />
+              Delete
+            </button>
+          )}
+        </div>
+        {note && (
+          <p className="text-xs text-gray-500">
+            Created {note.createdAt.toLocaleString()}
+            {note.updatedAt.getTime() !== note.createdAt.getTime() && ` · edited ${note.updatedAt.toLocaleString()}`}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default NoteEditor;
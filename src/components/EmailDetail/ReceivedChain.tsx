@@ -0,0 +1,56 @@
+import type { ReceivedHeader } from '../../types';
+
+interface ReceivedChainProps {
+  chain: ReceivedHeader[];
+}
+
+function formatDelay(ms: number): string {
+  const sign = ms < 0 ? '-' : '+';
+  const abs = Math.abs(ms);
+  if (abs < 1000) return `${sign}${abs}ms`;
+  if (abs < 60_000) return `${sign}${(abs / 1000).toFixed(0)}s`;
+  if (abs < 3_600_000) return `${sign}${(abs / 60_000).toFixed(1)}m`;
+  return `${sign}${(abs / 3_600_000).toFixed(1)}h`;
+}
+
+function ReceivedChain({ chain }: ReceivedChainProps) {
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-gray-700 mb-2">
+        Received Chain ({chain.length} hops)
+      </h4>
+      <div className="bg-white rounded border p-3 overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-1 pr-3">#</th>
+              <th className="py-1 pr-3">From</th>
+              <th className="py-1 pr-3">By</th>
+              <th className="py-1 pr-3">With</th>
+              <th className="py-1 pr-3">Date</th>
+              <th className="py-1">Delay</th>
+            </tr>
+          </thead>
+          <tbody>
+            {chain.map((hop, i) => (
+              <tr key={i} className="border-b last:border-b-0 align-top" title={hop.raw}>
+                <td className="py-1 pr-3 text-gray-500">{i + 1}</td>
+                <td className="py-1 pr-3 text-gray-700 font-mono break-all">{hop.from || '—'}</td>
+                <td className="py-1 pr-3 text-gray-700 font-mono break-all">{hop.by || '—'}</td>
+                <td className="py-1 pr-3 text-gray-600">{hop.with || ''}</td>
+                <td className="py-1 pr-3 text-gray-600 whitespace-nowrap">
+                  {hop.date ? hop.date.toLocaleString() : ''}
+                </td>
+                <td className={`py-1 whitespace-nowrap ${hop.delay !== undefined && hop.delay < 0 ? 'text-red-600' : 'text-gray-600'}`}>
+                  {hop.delay !== undefined ? formatDelay(hop.delay) : ''}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export default ReceivedChain;
@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { AlertTriangle, Download, Upload } from 'lucide-react';
+import type { FileMetadata } from '../../services/MetadataStore';
+import type { ImportReport, ImportStrategy } from '../../utils/metadata-bundle';
+
+export interface MetadataFileEntry {
+  file: File;
+  entry?: FileMetadata; // undefined until restored from storage
+}
+
+interface FileMetadataPanelProps {
+  files: MetadataFileEntry[];
+  report: { fileName: string; report: ImportReport } | null;
+  onExport: (file: File) => void;
+  onImport: (file: File, bundle: File, strategy: ImportStrategy) => void;
+}
+
+function FileMetadataPanel({ files, report, onExport, onImport }: FileMetadataPanelProps) {
+  const [strategy, setStrategy] = useState<ImportStrategy>('merge');
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-semibold text-gray-900">Notes &amp; Favorites</h3>
+        <label className="text-xs text-gray-600 flex items-center gap-1">
+          On import
+          <select
+            value={strategy}
+            onChange={(e) => setStrategy(e.target.value as ImportStrategy)}
+            className="border rounded px-1 py-0.5"
+          >
+            <option value="merge">merge with saved</option>
+            <option value="replace">replace saved</option>
+          </select>
+        </label>
+      </div>
+      <div className="divide-y max-h-40 overflow-y-auto">
+        {files.map(({ file, entry }, i) => (
+          <div key={i} className="flex items-center gap-3 py-2 text-sm">
+            <div className="flex-1 min-w-0">
+              <div className="font-medium text-gray-800 truncate">{file.webkitRelativePath || file.name}</div>
+              <div className="text-xs text-gray-500">
+                {entry
+                  ? `${entry.metadata.favorites.size} favorites, ${entry.metadata.notes.size} notes${entry.restored ? ' · restored' : ''}`
+                  : 'Loading saved metadata...'}
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={() => onExport(file)}
+              disabled={!entry}
+              className="inline-flex items-center gap-1 px-2 py-1 text-xs text-blue-700 hover:bg-blue-50 rounded disabled:text-gray-400"
+            >
+              <Download className="w-3 h-3" />
+              Export
+            </button>
+            <label className={`inline-flex items-center gap-1 px-2 py-1 text-xs rounded ${entry ? 'text-blue-700 hover:bg-blue-50 cursor-pointer' : 'text-gray-400'}`}>
+              <input
+                type="file"
+                accept=".json,application/json"
+                disabled={!entry}
+                onChange={(e) => {
+                  const bundle = e.target.files?.[0];
+                  if (bundle) onImport(file, bundle, strategy);
+                  e.target.value = '';
+                }}
+                className="hidden"
+              />
+              <Upload className="w-3 h-3" />
+              Import
+            </label>
+          </div>
+        ))}
+      </div>
+      {report && (
+        <div className="mt-3 border-t pt-3 text-sm text-gray-700 space-y-1">
+          <p>
+            Imported into {report.fileName}: {report.report.matched} entries matched
+            {report.report.matchedByMessageId > 0 && ` (${report.report.matchedByMessageId} by Message-ID)`}
+            {report.report.conflicts > 0 && `, ${report.report.conflicts} conflicting notes`}
+            {`, ${report.report.unmatched.length} unmatched`}
+          </p>
+          {!report.report.fingerprintMatches && (
+            <p className="flex items-center gap-1 text-xs text-yellow-800">
+              <AlertTriangle className="w-3 h-3" />
+              The export was made from a different file; entries were matched by uid and Message-ID.
+            </p>
+          )}
+          {report.report.unmatched.slice(0, 5).map(({ kind, entry }, i) => (
+            <p key={i} className="text-xs text-gray-500 font-mono truncate">
+              {kind}: {entry.messageId ?? ('emailUid' in entry ? entry.emailUid : entry.uid)}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default FileMetadataPanel;
@@ -0,0 +1,168 @@
+import { useState } from 'react';
+import { Search, SlidersHorizontal, X } from 'lucide-react';
+import type { SearchQuery } from '../../types';
+import { parseQuery, QuerySyntaxError } from '../../utils/query-parser';
+
+interface SearchBarProps {
+  onSearch: (query: SearchQuery) => void;
+  onClear: () => void;
+}
+
+interface FilterFields {
+  text: string;
+  from: string;
+  to: string;
+  subject: string;
+  bodyContains: string;
+  dateFrom: string;
+  dateTo: string;
+  headerName: string;
+  headerValue: string;
+  favorites: boolean;
+  hasNotes: boolean;
+}
+
+const EMPTY_FIELDS: FilterFields = {
+  text: '',
+  from: '',
+  to: '',
+  subject: '',
+  bodyContains: '',
+  dateFrom: '',
+  dateTo: '',
+  headerName: '',
+  headerValue: '',
+  favorites: false,
+  hasNotes: false
+};
+
+// Date inputs give local calendar days; the end of the range includes its whole day
+function toQuery(fields: FilterFields): SearchQuery {
+  const query: SearchQuery = {};
+  const text = (value: string) => value.trim() || undefined;
+
+  // The search box takes Gmail syntax; it throws QuerySyntaxError when malformed
+  if (fields.text.trim()) query.expression = parseQuery(fields.text);
+  query.from = text(fields.from);
+  query.to = text(fields.to);
+  query.subject = text(fields.subject);
+  query.bodyContains = text(fields.bodyContains);
+  if (fields.dateFrom) query.dateFrom = new Date(`${fields.dateFrom}T00:00:00`);
+  if (fields.dateTo) query.dateTo = new Date(`${fields.dateTo}T23:59:59.999`);
+  if (fields.headerName.trim()) query.headers = { [fields.headerName.trim()]: fields.headerValue.trim() };
+  if (fields.favorites) query.favorites = true;
+  if (fields.hasNotes) query.hasNotes = true;
+
+  return Object.fromEntries(Object.entries(query).filter(([, value]) => value !== undefined));
+}
+
+function SearchBar({ onSearch, onClear }: SearchBarProps) {
+  const [fields, setFields] = useState<FilterFields>(EMPTY_FIELDS);
+  const [showFilters, setShowFilters] = useState(false);
+  const [syntaxError, setSyntaxError] = useState<QuerySyntaxError | null>(null);
+
+  const set = <K extends keyof FilterFields>(key: K, value: FilterFields[K]) =>
+    setFields((current) => ({ ...current, [key]: value }));
+
+  const submit = (event: React.FormEvent) => {
+    event.preventDefault();
+    let query: SearchQuery;
+    try {
+      query = toQuery(fields);
+    } catch (error) {
+      if (!(error instanceof QuerySyntaxError)) throw error;
+      setSyntaxError(error);
+      return;
+    }
+
+    if (Object.keys(query).length === 0) {
+      onClear();
+    } else {
+      onSearch(query);
+    }
+  };
+
+  const clear = () => {
+    setFields(EMPTY_FIELDS);
+    setSyntaxError(null);
+    onClear();
+  };
+
+  const input = (key: keyof FilterFields, placeholder: string, type = 'text') => (
+    <input
+      type={type}
+      value={fields[key] as string}
+      onChange={(e) => set(key, e.target.value)}
+      placeholder={placeholder}
+      title={placeholder}
+      className="text-sm border rounded px-2 py-1"
+    />
+  );
+
+  return (
+    <form onSubmit={submit} className="bg-white rounded-lg shadow p-3 mb-4">
+      <div className="flex items-center gap-2">
+        <Search className="w-4 h-4 text-gray-400" />
+        <input
+          value={fields.text}
+          onChange={(e) => {
+            set('text', e.target.value);
+            setSyntaxError(null);
+          }}
+          placeholder={'Search, e.g. from:alice subject:"invoice" after:2023/01/01 has:attachment -label:spam'}
+          className="flex-1 text-sm px-2 py-1 outline-none"
+        />
+        <button
+          type="button"
+          onClick={() => setShowFilters(!showFilters)}
+          className={`p-1.5 rounded hover:bg-gray-100 ${showFilters ? 'text-blue-700' : 'text-gray-500'}`}
+          title="Filters"
+        >
+          <SlidersHorizontal className="w-4 h-4" />
+        </button>
+        <button
+          type="button"
+          onClick={clear}
+          className="p-1.5 rounded hover:bg-gray-100 text-gray-500"
+          title="Clear search"
+        >
+          <X className="w-4 h-4" />
+        </button>
+        <button
+          type="submit"
+          className="px-3 py-1.5 text-sm text-white bg-blue-600 rounded hover:bg-blue-700"
+        >
+          Search
+        </button>
+      </div>
+      {syntaxError && (
+        <div className="mt-2 text-xs text-red-600">
+          <pre className="font-mono">{`${fields.text}\n${' '.repeat(syntaxError.position)}^`}</pre>
+          {syntaxError.message} at position {syntaxError.position + 1}
+        </div>
+      )}
+      {showFilters && (
+        <div className="grid grid-cols-4 gap-2 mt-3 pt-3 border-t">
+          {input('from', 'From')}
+          {input('to', 'To, Cc or Bcc')}
+          {input('subject', 'Subject')}
+          {input('bodyContains', 'Body contains')}
+          {input('dateFrom', 'Date from', 'date')}
+          {input('dateTo', 'Date to', 'date')}
+          {input('headerName', 'Header name, e.g. X-Mailer')}
+          {input('headerValue', 'Header value')}
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={fields.favorites} onChange={(e) => set('favorites', e.target.checked)} />
+            Favorites only
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={fields.hasNotes} onChange={(e) => set('hasNotes', e.target.checked)} />
+            Has notes
+          </label>
+        </div>
+      )}
+    </form>
+  );
+}
+
+export default SearchBar;
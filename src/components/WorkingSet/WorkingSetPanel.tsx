@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { Layers, Plus, Trash2, X } from 'lucide-react';
+import { MAX_COMPARED_EMAILS } from '../../services/ComparisonEngine';
+import type { WorkingSet, WorkingSetEntry } from '../../types';
+
+interface WorkingSetPanelProps {
+  sets: WorkingSet[];
+  active: WorkingSet | null;
+  showInList: boolean;
+  isLoaded: (entry: WorkingSetEntry) => boolean;
+  compared: string[]; // uids of the entries picked for comparison
+  onSelect: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onRemove: (uid: string) => void;
+  onClear: () => void;
+  onShowInList: (show: boolean) => void;
+  onToggleCompared: (uid: string) => void;
+}
+
+function WorkingSetPanel({
+  sets,
+  active,
+  showInList,
+  isLoaded,
+  compared,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  onRemove,
+  onClear,
+  onShowInList,
+  onToggleCompared
+}: WorkingSetPanelProps) {
+  const [name, setName] = useState('');
+  const comparedCount = active?.entries.filter((entry) => compared.includes(entry.uid)).length ?? 0;
+
+  const submitName = (action: (name: string) => void) => {
+    if (!name.trim()) return;
+    action(name);
+    setName('');
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 mb-4">
+      <div className="flex items-center gap-2 mb-2">
+        <Layers className="w-4 h-4 text-gray-500" />
+        <h3 className="font-semibold text-gray-900 mr-auto">Working Sets</h3>
+        {sets.length > 0 && (
+          <select
+            value={active?.id ?? ''}
+            onChange={(e) => onSelect(e.target.value)}
+            className="text-sm border rounded px-1 py-0.5"
+          >
+            {sets.map((set) => (
+              <option key={set.id} value={set.id}>{set.name} ({set.entries.length})</option>
+            ))}
+          </select>
+        )}
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Set name"
+          className="text-sm border rounded px-2 py-0.5 w-36"
+        />
+        <button
+          type="button"
+          onClick={() => submitName(onCreate)}
+          className="inline-flex items-center gap-1 px-2 py-1 text-xs text-blue-700 hover:bg-blue-50 rounded"
+        >
+          <Plus className="w-3 h-3" />
+          New
+        </button>
+        {active && (
+          <>
+            <button
+              type="button"
+              onClick={() => submitName((newName) => onRename(active.id, newName))}
+              className="px-2 py-1 text-xs text-blue-700 hover:bg-blue-50 rounded"
+            >
+              Rename
+            </button>
+            <button
+              type="button"
+              onClick={() => onDelete(active.id)}
+              className="inline-flex items-center gap-1 px-2 py-1 text-xs text-red-700 hover:bg-red-50 rounded"
+            >
+              <Trash2 className="w-3 h-3" />
+              Delete
+            </button>
+          </>
+        )}
+      </div>
+
+      {active && (
+        <>
+          <div className="flex items-center gap-3 text-xs text-gray-600 mb-2">
+            <label className="flex items-center gap-1">
+              <input type="checkbox" checked={showInList} onChange={(e) => onShowInList(e.target.checked)} />
+              Show in list
+            </label>
+            <span className="mr-auto">{active.entries.length} emails</span>
+            {active.entries.length > 0 && (
+              <button type="button" onClick={onClear} className="text-red-700 hover:underline">
+                Clear set
+              </button>
+            )}
+          </div>
+          <div className="divide-y max-h-48 overflow-y-auto">
+            {active.entries.map((entry) => (
+              <div key={entry.uid} className={`flex items-start gap-3 py-2 text-sm ${isLoaded(entry) ? '' : 'opacity-60'}`}>
+                <input
+                  type="checkbox"
+                  title="Compare"
+                  checked={compared.includes(entry.uid)}
+                  disabled={!isLoaded(entry) || (!compared.includes(entry.uid) && comparedCount >= MAX_COMPARED_EMAILS)}
+                  onChange={() => onToggleCompared(entry.uid)}
+                  className="mt-1"
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium text-gray-800 truncate">{entry.subject || '(no subject)'}</div>
+                  <div className="text-xs text-gray-500 truncate">
+                    {entry.from}
+                    {entry.copies.length > 0 && ` · ${entry.copies.length + 1} copies`}
+                    {!isLoaded(entry) && ' · not loaded'}
+                  </div>
+                  {entry.provenance.map((source, i) => (
+                    <div key={i} className="text-xs text-gray-400 font-mono truncate">
+                      {source.query ?? 'added by hand'} · {source.addedAt.toLocaleString()}
+                    </div>
+                  ))}
+                </div>
+                <button
+                  type="button"
+                  title="Remove from set"
+                  onClick={() => onRemove(entry.uid)}
+                  className="p-1 text-gray-400 hover:text-red-700 rounded"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default WorkingSetPanel;
@@ -0,0 +1,264 @@
+// src/services/ArchiveCache.ts
+// IndexedDB cache of parsed archives, so reopening an unchanged file skips parsing
+import type { Attachment } from '../types';
+import { bytesToBinary } from '../utils/encoding';
+import { openDatabase, requestResult, transactionDone } from '../utils/idb';
+import { fileIdentity } from '../utils/identity';
+import { listZipEntries, readZipEntry } from '../utils/zip';
+import type { IndexSegment } from './InvertedIndex';
+import { MBOXParser, type MBOXVariant, type ParsedEmail, type ParseSummary } from './MBOXParser';
+
+export interface ArchiveCacheOptions {
+  dbName?: string;
+  factory?: IDBFactory; // defaults to the global indexedDB
+}
+
+export interface CachedArchiveInfo {
+  fingerprint: string;
+  fileName: string;
+  fileSize: number;
+  lastModified: number;
+  kind: 'mbox' | 'zip';
+  emailCount: number;
+  cachedAt: Date;
+  lastOpened: Date;
+}
+
+export interface CachedArchive {
+  info: CachedArchiveInfo;
+  emails: ParsedEmail[]; // bodies deferred, see loadBody()
+  summary: ParseSummary;
+  index: IndexSegment; // covers the bodies too
+}
+
+interface ArchiveRecord extends CachedArchiveInfo {
+  version: number;
+  summary: ParseSummary;
+}
+
+interface EmailChunkRecord {
+  fingerprint: string;
+  chunk: number;
+  emails: ParsedEmail[];
+}
+
+interface IndexRecord {
+  fingerprint: string;
+  index: IndexSegment;
+}
+
+// Bump when parser or index output changes, so archives cached by older versions are parsed again
+const CACHE_VERSION = 7;
+const DB_VERSION = 2;
+const ARCHIVES = 'archives';
+const EMAILS = 'emails';
+const INDEXES = 'indexes';
+const EMAILS_PER_CHUNK = 500;
+
+function toInfo(record: ArchiveRecord): CachedArchiveInfo {
+  return {
+    fingerprint: record.fingerprint,
+    fileName: record.fileName,
+    fileSize: record.fileSize,
+    lastModified: record.lastModified,
+    kind: record.kind,
+    emailCount: record.emailCount,
+    cachedAt: record.cachedAt,
+    lastOpened: record.lastOpened
+  };
+}
+
+function chunkRange(fingerprint: string): IDBKeyRange {
+  return IDBKeyRange.bound([fingerprint, 0], [fingerprint, Infinity]);
+}
+
+// Keeps headers, metadata and the location; the body is read back from the file on demand
+function withoutBody(email: ParsedEmail, variant: MBOXVariant | undefined): ParsedEmail {
+  const attachments = email.body.attachments.map((attachment): Attachment => ({ ...attachment, data: undefined }));
+  return {
+    ...email,
+    body: { text: '', html: '', raw: '', attachments },
+    deferredBody: { variant }
+  };
+}
+
+/**
+ * Caches the emails parsed from MBOX files and ZIP archives, keyed by
+ * fileFingerprint(). Only headers, metadata and byte locations are stored;
+ * loadBody() reads a body from the original file when it is needed, while
+ * the full-text index stored with them keeps bodies searchable. An
+ * entry is only used while the file's size and modification time still
+ * match, since the fingerprint samples the file rather than hashing all of it.
+ */
+export class ArchiveCache {
+  private factory: IDBFactory;
+  private dbName: string;
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(options: ArchiveCacheOptions = {}) {
+    this.factory = options.factory ?? indexedDB;
+    this.dbName = options.dbName ?? 'eama-archives';
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.db ??= openDatabase(this.factory, this.dbName, DB_VERSION, (db, oldVersion) => {
+      if (oldVersion < 1) {
+        db.createObjectStore(ARCHIVES, { keyPath: 'fingerprint' });
+        db.createObjectStore(EMAILS, { keyPath: ['fingerprint', 'chunk'] });
+      }
+      if (oldVersion < 2) {
+        db.createObjectStore(INDEXES, { keyPath: 'fingerprint' });
+      }
+    });
+    return this.db;
+  }
+
+  /**
+   * Returns the cached emails of a file, or null when it has not been
+   * cached or has changed since. Locations are pointed at the file as
+   * opened now, which may have been renamed.
+   */
+  async load(file: File, fingerprint: string): Promise<CachedArchive | null> {
+    const db = await this.open();
+    const transaction = db.transaction([ARCHIVES, EMAILS, INDEXES], 'readwrite');
+    const done = transactionDone(transaction);
+    // A failed get rejects below and aborts the transaction; that rejection is the one reported
+    done.catch(() => {});
+    const archives = transaction.objectStore(ARCHIVES);
+
+    const record = await requestResult<ArchiveRecord | undefined>(archives.get(fingerprint));
+    if (
+      !record
+      || record.version !== CACHE_VERSION
+      || record.fileSize !== file.size
+      || record.lastModified !== file.lastModified
+    ) {
+      await done;
+      return null;
+    }
+
+    const chunks = await requestResult<EmailChunkRecord[]>(
+      transaction.objectStore(EMAILS).getAll(chunkRange(fingerprint))
+    );
+    const indexRecord = await requestResult<IndexRecord | undefined>(
+      transaction.objectStore(INDEXES).get(fingerprint)
+    );
+    if (!indexRecord) {
+      await done;
+      return null;
+    }
+    const opened: ArchiveRecord = { ...record, lastOpened: new Date() };
+    archives.put(opened);
+    await done;
+
+    const fileId = fileIdentity(file);
+    const emails = chunks.flatMap((chunk) => chunk.emails);
+    for (const email of emails) {
+      if (email.location) email.location.fileId = fileId;
+    }
+
+    return { info: toInfo(opened), emails, summary: record.summary, index: indexRecord.index };
+  }
+
+  async save(
+    file: File,
+    fingerprint: string,
+    kind: CachedArchiveInfo['kind'],
+    emails: ParsedEmail[],
+    summary: ParseSummary,
+    index: IndexSegment
+  ): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([ARCHIVES, EMAILS, INDEXES], 'readwrite');
+    const done = transactionDone(transaction);
+    const store = transaction.objectStore(EMAILS);
+    const variant = kind === 'mbox' && summary.stats.variant !== 'mixed' ? summary.stats.variant : undefined;
+    const now = new Date();
+
+    store.delete(chunkRange(fingerprint));
+    for (let start = 0; start < emails.length; start += EMAILS_PER_CHUNK) {
+      store.put({
+        fingerprint,
+        chunk: start / EMAILS_PER_CHUNK,
+        emails: emails.slice(start, start + EMAILS_PER_CHUNK).map((email) => withoutBody(email, variant))
+      } satisfies EmailChunkRecord);
+    }
+
+    transaction.objectStore(INDEXES).put({ fingerprint, index } satisfies IndexRecord);
+    transaction.objectStore(ARCHIVES).put({
+      fingerprint,
+      fileName: file.name,
+      fileSize: file.size,
+      lastModified: file.lastModified,
+      kind,
+      emailCount: emails.length,
+      cachedAt: now,
+      lastOpened: now,
+      version: CACHE_VERSION,
+      summary
+    } satisfies ArchiveRecord);
+
+    await done;
+  }
+
+  /** Cached archives, most recently opened first. */
+  async list(): Promise<CachedArchiveInfo[]> {
+    const db = await this.open();
+    const records = await requestResult<ArchiveRecord[]>(db.transaction(ARCHIVES).objectStore(ARCHIVES).getAll());
+    return records
+      .map(toInfo)
+      .sort((a, b) => b.lastOpened.getTime() - a.lastOpened.getTime());
+  }
+
+  async evict(fingerprint: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([ARCHIVES, EMAILS, INDEXES], 'readwrite');
+    transaction.objectStore(ARCHIVES).delete(fingerprint);
+    transaction.objectStore(EMAILS).delete(chunkRange(fingerprint));
+    transaction.objectStore(INDEXES).delete(fingerprint);
+    await transactionDone(transaction);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([ARCHIVES, EMAILS, INDEXES], 'readwrite');
+    transaction.objectStore(ARCHIVES).clear();
+    transaction.objectStore(EMAILS).clear();
+    transaction.objectStore(INDEXES).clear();
+    await transactionDone(transaction);
+  }
+
+  async close(): Promise<void> {
+    const db = this.db;
+    this.db = null;
+    (await db)?.close();
+  }
+
+  /**
+   * Reads and parses the body of an email restored from the cache, from
+   * the file it was cached from.
+   */
+  static async loadBody(email: ParsedEmail, file: File): Promise<ParsedEmail['body']> {
+    const location = email.location;
+    if (!email.deferredBody || !location) {
+      return email.body;
+    }
+
+    let bytes: Uint8Array;
+    if (location.entry) {
+      const entry = (await listZipEntries(file)).find((e) => e.path === location.entry);
+      if (!entry) throw new Error(`${location.entry} is no longer in ${file.name}`);
+      bytes = await readZipEntry(file, entry);
+    } else {
+      bytes = new Uint8Array(await file.slice(location.offset, location.offset + location.length).arrayBuffer());
+    }
+
+    const { variant } = email.deferredBody;
+    const parser = new MBOXParser({ variant });
+    const parsed = parser.parseEmail(bytesToBinary(bytes), 0, variant !== undefined, location);
+    if (!parsed) {
+      throw new Error(parser.getErrors()[0]?.message ?? 'Failed to parse email');
+    }
+    return parsed.body;
+  }
+}
@@ -0,0 +1,194 @@
+// src/services/ComparisonEngine.ts
+// Side-by-side alignment of the headers of several emails
+import type { Email, ReceivedHeader } from '../types';
+import { buildReceivedChain } from '../utils/received';
+import { diffTokens, longestCommonSubsequence, type DiffToken } from '../utils/token-diff';
+
+export const MIN_COMPARED_EMAILS = 2;
+export const MAX_COMPARED_EMAILS = 4;
+
+export type ComparisonStatus = 'identical' | 'different' | 'missing';
+
+// Only the headers are compared, so parsed and cached emails both qualify
+export type ComparableEmail = Pick<Email, 'uid' | 'headers'>;
+
+/** One aligned value of a header, with a slot per compared email. */
+export interface ValueComparison {
+  label?: string; // what the values were aligned on, for multi-valued headers
+  values: (string | null)[];
+  status: ComparisonStatus;
+  diff: (DiffToken[] | null)[]; // per value, against the others; null when identical or absent
+}
+
+export interface HeaderComparison {
+  name: string;
+  status: ComparisonStatus;
+  rows: ValueComparison[];
+}
+
+/** One relay, matched across the Received chains by its `by` host. */
+export interface HopComparison {
+  label: string;
+  hops: (ReceivedHeader | null)[];
+  status: ComparisonStatus;
+  diff: (DiffToken[] | null)[];
+}
+
+export interface EmailComparison {
+  uids: string[];
+  headers: HeaderComparison[];
+  received: HopComparison[]; // from the originating hop to the final delivery
+  counts: Record<ComparisonStatus, number>; // headers by status
+}
+
+type AlignmentKey = (value: string) => string;
+
+function normalize(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+function tagValue(value: string, tag: string): string {
+  return new RegExp(`(?:^|;)\\s*${tag}\\s*=\\s*([^;\\s]*)`, 'i').exec(value)?.[1].toLowerCase() ?? '';
+}
+
+// Instances of these headers are matched on what they describe, not their order
+const ALIGNMENT_KEYS: Record<string, AlignmentKey> = {
+  'dkim-signature': (value) => `d=${tagValue(value, 'd')} s=${tagValue(value, 's')}`,
+  'authentication-results': (value) => normalize(value.split(';')[0]).toLowerCase(),
+  'arc-seal': (value) => `i=${tagValue(value, 'i')}`,
+  'arc-message-signature': (value) => `i=${tagValue(value, 'i')}`,
+  'arc-authentication-results': (value) => `i=${tagValue(value, 'i')}`
+};
+
+function hopKey(hop: ReceivedHeader): string {
+  const host = (hop.by || hop.from).split(/\s/)[0].toLowerCase();
+  return host || normalize(hop.raw);
+}
+
+/**
+ * Aligns several sequences into rows with a slot per sequence, matching
+ * items with equal keys in order. Each sequence is merged into the rows
+ * built so far by longest common subsequence; unmatched items get rows
+ * of their own.
+ */
+function alignSequences<T>(sequences: T[][], key: (item: T) => string): (T | null)[][] {
+  let rows: (T | null)[][] = [];
+
+  sequences.forEach((sequence, column) => {
+    const rowKeys = rows.map((row) => key(row.find((item) => item !== null)!));
+    const pairs = longestCommonSubsequence(rowKeys, sequence.map(key));
+    const next: (T | null)[][] = [];
+    let r = 0;
+    let s = 0;
+
+    for (const [i, j] of [...pairs, [rows.length, sequence.length]]) {
+      while (r < i) next.push(rows[r++]);
+      while (s < j) {
+        const row: (T | null)[] = new Array(sequences.length).fill(null);
+        row[column] = sequence[s++];
+        next.push(row);
+      }
+      if (i < rows.length) {
+        rows[i][column] = sequence[j];
+        next.push(rows[i]);
+        r++;
+        s++;
+      }
+    }
+    rows = next;
+  });
+
+  return rows;
+}
+
+function statusOf(values: (string | null)[]): ComparisonStatus {
+  if (values.some((value) => value === null)) return 'missing';
+  const first = normalize(values[0]!);
+  return values.every((value) => normalize(value!) === first) ? 'identical' : 'different';
+}
+
+// A token is changed when it fails to line up with any of the other values
+function diffValues(values: (string | null)[]): (DiffToken[] | null)[] {
+  return values.map((value, i) => {
+    const others = values.filter((other, j): other is string => other !== null && j !== i);
+    if (value === null || others.length === 0) return null;
+
+    const diffs = others.map((other) => diffTokens(other, value));
+    return diffs[0].map((token, t) => ({ ...token, changed: diffs.some((diff) => diff[t].changed) }));
+  });
+}
+
+function compareValues(values: (string | null)[], label?: string): ValueComparison {
+  const status = statusOf(values);
+  return {
+    ...(label !== undefined && { label }),
+    values,
+    status,
+    diff: status === 'identical' ? values.map(() => null) : diffValues(values)
+  };
+}
+
+/**
+ * Compares the headers of 2-4 emails (SRS F-CMP.400/401). Each header is
+ * classified as identical in every email, different, or missing from
+ * some. Multi-valued headers are aligned value by value: Received hops by
+ * relay host, DKIM signatures by domain and selector,
+ * Authentication-Results by the server that wrote them and ARC sets by
+ * instance; any other repeated header by position. Values that differ
+ * carry a token-level diff for highlighting.
+ */
+export class ComparisonEngine {
+  compare(emails: ComparableEmail[]): EmailComparison {
+    if (emails.length < MIN_COMPARED_EMAILS || emails.length > MAX_COMPARED_EMAILS) {
+      throw new Error(`Select ${MIN_COMPARED_EMAILS} to ${MAX_COMPARED_EMAILS} emails to compare, not ${emails.length}`);
+    }
+
+    const received = this.compareReceived(emails);
+    const headers = this.headerNames(emails).map((name): HeaderComparison => {
+      const rows = name === 'received'
+        ? received.map(({ label, hops, status, diff }) => ({ label, values: hops.map((hop) => hop?.raw ?? null), status, diff }))
+        : this.compareHeader(emails.map((email) => email.headers[name] ?? []), ALIGNMENT_KEYS[name]);
+      const missing = emails.some((email) => !email.headers[name]?.length);
+      const status = missing ? 'missing' : rows.every((row) => row.status === 'identical') ? 'identical' : 'different';
+      return { name, status, rows };
+    });
+
+    const counts: Record<ComparisonStatus, number> = { identical: 0, different: 0, missing: 0 };
+    for (const header of headers) counts[header.status]++;
+
+    return { uids: emails.map((email) => email.uid), headers, received, counts };
+  }
+
+  // Header names in order of first appearance, taking the emails in turn
+  private headerNames(emails: ComparableEmail[]): string[] {
+    const names = new Set<string>();
+    for (const email of emails) {
+      for (const [name, values] of Object.entries(email.headers)) {
+        if (values.length > 0) names.add(name);
+      }
+    }
+    return [...names];
+  }
+
+  private compareHeader(valueLists: string[][], key?: AlignmentKey): ValueComparison[] {
+    if (key) {
+      return alignSequences(valueLists, key).map((row) => {
+        const present = row.find((value) => value !== null)!;
+        return compareValues(row, key(present));
+      });
+    }
+
+    const length = Math.max(...valueLists.map((values) => values.length));
+    return Array.from({ length }, (_, i) => compareValues(valueLists.map((values) => values[i] ?? null)));
+  }
+
+  private compareReceived(emails: ComparableEmail[]): HopComparison[] {
+    const chains = emails.map((email) => buildReceivedChain(email.headers.received ?? []));
+
+    return alignSequences(chains, hopKey).map((hops) => {
+      const label = hopKey(hops.find((hop) => hop !== null)!);
+      const { status, diff } = compareValues(hops.map((hop) => hop?.raw ?? null));
+      return { label, hops, status, diff };
+    });
+  }
+}
@@ -0,0 +1,158 @@
+// src/services/DuplicateDetector.ts
+// Grouping of the copies of a message loaded from overlapping exports
+import { originalUID, stableMessageId } from '../utils/identity';
+import type { ParsedEmail } from './MBOXParser';
+
+// Gmail Takeout exports carry labels in this header
+const LABELS_HEADER = 'x-gmail-labels';
+
+/**
+ * How a copy relates to the first one loaded: byte for byte the same,
+ * the same message with headers added on the way, or only sharing its
+ * Message-ID.
+ */
+export type DuplicateKind = 'original' | 'exact' | 'near' | 'message-id';
+
+export type DetectableEmail = Pick<ParsedEmail, 'uid' | 'messageId' | 'headers' | 'location'> & { contentHash?: string };
+
+export interface DuplicateCopy<E extends DetectableEmail = ParsedEmail> {
+  email: E;
+  kind: DuplicateKind;
+  fileId?: string;
+  entry?: string; // path inside a ZIP archive
+  labels: string[];
+  differentHeaders: string[]; // headers whose values differ from the original's
+}
+
+export interface DuplicateGroup<E extends DetectableEmail = ParsedEmail> {
+  id: string; // uid of the original
+  copies: DuplicateCopy<E>[]; // the original first, then in load order
+}
+
+export interface DuplicateReport<E extends DetectableEmail = ParsedEmail> {
+  groups: DuplicateGroup<E>[]; // only messages with more than one copy
+  unique: E[]; // the emails with later copies left out, in load order
+  duplicateCount: number;
+  groupOf: Map<string, DuplicateGroup<E>>; // by uid of every copy
+}
+
+export interface DuplicateDetectorOptions {
+  byMessageId?: boolean; // group copies sharing a Message-ID whatever their content (default true)
+  nearDuplicates?: boolean; // group copies differing only in added headers (default true)
+}
+
+function labelsOf(email: DetectableEmail): string[] {
+  return (email.headers[LABELS_HEADER] ?? [])
+    .flatMap((value) => value.split(','))
+    .map((label) => label.trim())
+    .filter(Boolean);
+}
+
+function differentHeaders(original: DetectableEmail, copy: DetectableEmail): string[] {
+  const names = new Set([...Object.keys(original.headers), ...Object.keys(copy.headers)]);
+  return [...names].filter((name) => {
+    const a = original.headers[name] ?? [];
+    const b = copy.headers[name] ?? [];
+    return a.length !== b.length || a.some((value, i) => value !== b[i]);
+  });
+}
+
+/**
+ * Finds the copies of each message among emails loaded from several files,
+ * as when overlapping Takeout exports hold a message once
+ * per label. Copies are matched by Message-ID and by normalized content
+ * hash, so a copy that only gained Received or X-Gmail-Labels headers is
+ * still found. Each copy keeps the file and labels it came from.
+ */
+export class DuplicateDetector {
+  private readonly byMessageId: boolean;
+  private readonly nearDuplicates: boolean;
+
+  constructor(options: DuplicateDetectorOptions = {}) {
+    this.byMessageId = options.byMessageId ?? true;
+    this.nearDuplicates = options.nearDuplicates ?? true;
+  }
+
+  detect<E extends DetectableEmail>(emails: E[]): DuplicateReport<E> {
+    const members = this.group(emails);
+    const groups: DuplicateGroup<E>[] = [];
+    const groupOf = new Map<string, DuplicateGroup<E>>();
+    const unique: E[] = [];
+
+    for (const [first, indices] of members) {
+      unique.push(emails[first]);
+      if (indices.length < 2) continue;
+
+      const original = emails[first];
+      const group: DuplicateGroup<E> = {
+        id: original.uid,
+        copies: indices.map((i) => this.describe(original, emails[i], i === first))
+      };
+      groups.push(group);
+      for (const copy of group.copies) groupOf.set(copy.email.uid, group);
+    }
+
+    // Groups were collected by their first email, so `unique` is already in load order
+    return { groups, unique, duplicateCount: emails.length - unique.length, groupOf };
+  }
+
+  /** The indices of each message's copies, keyed by the first, in load order. */
+  private group(emails: DetectableEmail[]): Map<number, number[]> {
+    // Union-find over the emails, joining those that share any key
+    const parent = emails.map((_, i) => i);
+    const find = (i: number): number => {
+      while (parent[i] !== i) {
+        parent[i] = parent[parent[i]];
+        i = parent[i];
+      }
+      return i;
+    };
+    const firstWithKey = new Map<string, number>();
+
+    emails.forEach((email, i) => {
+      for (const key of this.keysOf(email)) {
+        const other = firstWithKey.get(key);
+        if (other === undefined) {
+          firstWithKey.set(key, i);
+          continue;
+        }
+        const [a, b] = [find(other), find(i)];
+        // The earlier email stays the root, which makes it the original
+        if (a !== b) parent[Math.max(a, b)] = Math.min(a, b);
+      }
+    });
+
+    const members = new Map<number, number[]>();
+    emails.forEach((_, i) => {
+      const root = find(i);
+      const indices = members.get(root);
+      if (indices) indices.push(i);
+      else members.set(root, [i]);
+    });
+    return members;
+  }
+
+  private keysOf(email: DetectableEmail): string[] {
+    const keys = [`uid:${originalUID(email.uid)}`];
+    const messageId = stableMessageId(email.messageId);
+    if (this.byMessageId && messageId) keys.push(`id:${messageId}`);
+    if (this.nearDuplicates && email.contentHash) keys.push(`content:${email.contentHash}`);
+    return keys;
+  }
+
+  private describe<E extends DetectableEmail>(original: E, email: E, isOriginal: boolean): DuplicateCopy<E> {
+    const kind: DuplicateKind = isOriginal ? 'original'
+      : originalUID(email.uid) === originalUID(original.uid) ? 'exact'
+        : email.contentHash !== undefined && email.contentHash === original.contentHash ? 'near'
+          : 'message-id';
+
+    return {
+      email,
+      kind,
+      ...(email.location && { fileId: email.location.fileId }),
+      ...(email.location?.entry !== undefined && { entry: email.location.entry }),
+      labels: labelsOf(email),
+      differentHeaders: kind === 'original' || kind === 'exact' ? [] : differentHeaders(original, email)
+    };
+  }
+}
@@ -1,5 +1,11 @@
 // src/services/EmailService.ts
-import type { ParsedEmail, ParseResult, ParseError } from '../workers/mbox-parser.worker';
+import type { ParsedEmail, ParseResult, ParseError, ParseSource, ParseSummary } from './MBOXParser';
+import { MBOXStreamReader, usesContentLength } from './MBOXStreamReader';
+import type { ArchiveCache, CachedArchive } from './ArchiveCache';
+import { mergeIndexSegments, type IndexSegment } from './InvertedIndex';
+import { DuplicateDetector } from './DuplicateDetector';
+import { duplicateUID, fileFingerprint, fileIdentity, locationKey } from '../utils/identity';
+import { sourceKindFromContent, sourceKindFromPath, type SourceKind } from '../utils/mail-sources';
 
 export interface LoadProgress {
   percent: number;
@@ -10,128 +16,701 @@ export interface LoadProgress {
 
 export type ProgressCallback = (progress: LoadProgress) => void;
 export type ErrorCallback = (error: string) => void;
+export type BatchCallback = (emails: ParsedEmail[], index?: IndexSegment) => void;
 
-export class EmailService {
-  private worker: Worker | null = null;
-  private onProgressCallback?: ProgressCallback;
-  private onErrorCallback?: ErrorCallback;
+export interface ParseCallbacks {
+  onProgress?: ProgressCallback;
+  onError?: ErrorCallback;
+  onBatch?: BatchCallback;
+}
+
+export interface ParseJob {
+  id: string;
+  files: File[];
+  promise: Promise<ParseResult>;
+}
 
-  constructor() {
-    this.initializeWorker();
+export interface EmailServiceOptions {
+  poolSize?: number; // defaults to navigator.hardwareConcurrency
+  minRangeSize?: number; // files at least twice this size are split into ranges
+  cache?: ArchiveCache; // MBOX files and ZIP archives found here are not parsed again
+}
+
+export interface EmailStatsOptions {
+  collapseDuplicates?: boolean; // count each message once however many copies are loaded (default true)
+}
+
+export const DEFAULT_MIN_RANGE_SIZE = 32 * 1024 * 1024;
+const MESSAGES_PER_TASK = 200;
+const SNIFF_SIZE = 4096;
+
+/**
+ * Rejection reason for a cancelled parse job. Emails parsed before the
+ * cancellation took effect are kept in `partialResult`.
+ */
+export class ParseCancelledError extends Error {
+  readonly jobId: string;
+  readonly partialResult: ParseResult;
+
+  constructor(jobId: string, partialResult: ParseResult) {
+    super(`Parse job ${jobId} was cancelled after ${partialResult.emails.length} emails`);
+    this.name = 'ParseCancelledError';
+    this.jobId = jobId;
+    this.partialResult = partialResult;
   }
+}
 
-  private initializeWorker(): void {
-    if (this.worker) {
-      this.worker.terminate();
-    }
+interface TaskPlan {
+  origin: File; // the input the task came from; ranges of one file share it
+  source: ParseSource;
+  cached?: CachedArchive; // restored instead of parsed
+}
+
+interface TaskBatch {
+  emails: ParsedEmail[];
+  index?: IndexSegment;
+}
+
+// A file, a byte range of one, or a group of messages, parsed by a single worker
+interface ParseTask extends TaskPlan {
+  id: string; // the jobId used in the worker protocol
+  job: ActiveJob;
+  emails: ParsedEmail[];
+  pending: TaskBatch[]; // held back until earlier tasks finish
+  indexes: (IndexSegment | undefined)[]; // of each batch received, when the worker built one
+  progress: LoadProgress | null;
+  summary: ParseSummary | null;
+  worker: PoolWorker | null;
+  done: boolean;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  task: ParseTask | null;
+}
+
+interface ActiveJob {
+  id: string;
+  files: File[];
+  callbacks: ParseCallbacks;
+  tasks: ParseTask[];
+  errors: ParseError[]; // inputs skipped while planning
+  uids: Set<string>; // uids delivered so far, prefixed with the fileId of their file
+  fingerprints: Map<File, string>; // files looked up in the cache
+  delivered: number; // index of the first task whose batches are not all delivered
+  paused: boolean;
+  cancelled: boolean;
+  startTime: number;
+  resolve: (result: ParseResult) => void;
+  reject: (error: Error) => void;
+}
+
+function pathOf(file: File): string {
+  return file.webkitRelativePath || file.name;
+}
+
+function wholeFileSource(file: File, kind: SourceKind): ParseSource {
+  switch (kind) {
+    case 'mbox':
+      return { kind, file, offset: 0, fileId: fileIdentity(file) };
+    case 'message':
+      return { kind: 'messages', files: [file] };
+    case 'zip':
+      return { kind, file };
+  }
+}
+
+/**
+ * Parses mail on a pool of workers: MBOX files, standalone RFC 822
+ * messages such as .eml files and Maildir entries, and ZIP archives of
+ * them. Each file, each range of a large MBOX file split at From_
+ * boundaries, or each group of messages is a task run by one worker; the
+ * tasks of a job run concurrently while their results are reassembled in
+ * file and range order, so the outcome does not depend on which worker
+ * finishes first.
+ */
+export class EmailService {
+  private pool: PoolWorker[] = [];
+  private queue: ParseTask[] = [];
+  private jobs = new Map<string, ActiveJob>();
+  private tasks = new Map<string, ParseTask>();
+  private jobCounter = 0;
+  private readonly poolSize: number;
+  private readonly minRangeSize: number;
+  private readonly cache: ArchiveCache | undefined;
 
-    this.worker = new Worker(
+  constructor(options: EmailServiceOptions = {}) {
+    const concurrency = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency : undefined;
+    this.poolSize = Math.max(1, options.poolSize ?? concurrency ?? 4);
+    this.minRangeSize = options.minRangeSize ?? DEFAULT_MIN_RANGE_SIZE;
+    this.cache = options.cache;
+    // Further workers are started on demand, up to poolSize
+    this.spawnWorker();
+  }
+
+  private spawnWorker(): PoolWorker {
+    const worker = new Worker(
       new URL('../workers/mbox-parser.worker.ts', import.meta.url),
       { type: 'module' }
     );
+    const slot: PoolWorker = { worker, task: null };
 
-    this.worker.onmessage = (e: MessageEvent) => {
-      const { type, data } = e.data;
+    worker.onmessage = (e: MessageEvent) => {
+      const { type, jobId, data } = e.data;
+      const task = this.tasks.get(jobId);
+      if (!task) return;
 
       switch (type) {
         case 'progress':
-          if (this.onProgressCallback) {
-            this.onProgressCallback(data as LoadProgress);
-          }
+          task.progress = data as LoadProgress;
+          this.reportProgress(task.job, task.progress);
+          break;
+        case 'batch':
+          this.receiveBatch(task, data.emails as ParsedEmail[], data.index as IndexSegment | undefined);
+          break;
+        case 'complete':
+        case 'cancelled':
+          this.completeTask(task, data as ParseSummary);
+          break;
+        case 'error':
+          // Fail the job first: completing its last task would resolve it as a success
+          this.failJob(task.job, new Error(data.message));
+          this.completeTask(task, null);
           break;
       }
     };
 
-    this.worker.onerror = (error: ErrorEvent) => {
-      console.error('Worker error:', error);
-      if (this.onErrorCallback) {
-        this.onErrorCallback(`Worker error: ${error.message}`);
-      }
+    // A crashed worker never reports back: fail its job and put a new worker in its place
+    worker.onerror = (error: ErrorEvent) => {
+      const task = slot.task;
+      worker.terminate();
+      this.pool = this.pool.filter((s) => s !== slot);
+      this.spawnWorker();
+      if (!task) return;
+
+      this.failJob(task.job, new Error(`Worker error: ${error.message}`));
+      this.completeTask(task, null);
     };
+
+    this.pool.push(slot);
+    return slot;
+  }
+
+  /**
+   * Starts parsing one or more files and returns a handle whose ID can be
+   * passed to cancel(), pause() and resume(). Files, and ranges of MBOX
+   * files of at least twice `minRangeSize`, are parsed concurrently across
+   * the pool. Files that are none of the supported kinds are reported in
+   * the result's errors, except inside directory selections, where Maildir
+   * bookkeeping files are expected. Emails arrive in batches while
+   * parsing; `onBatch` sees them in file order, with their full-text index
+   * segment, so the UI can render and search early, and the promise resolves with every email once parsing completes.
+   * With a cache, files parsed before are restored from it instead, and
+   * newly parsed MBOX files and ZIP archives are added to it.
+   */
+  startParse(file: File | File[], callbacks: ParseCallbacks = {}): ParseJob {
+    const files = Array.isArray(file) ? file : [file];
+    const id = `parse-${++this.jobCounter}`;
+
+    const promise = new Promise<ParseResult>((resolve, reject) => {
+      if (this.pool.length === 0) {
+        reject(new Error('Worker not initialized'));
+        return;
+      }
+
+      const job: ActiveJob = {
+        id,
+        files,
+        callbacks,
+        tasks: [],
+        errors: [],
+        uids: new Set(),
+        fingerprints: new Map(),
+        delivered: 0,
+        paused: false,
+        cancelled: false,
+        startTime: performance.now(),
+        resolve,
+        reject
+      };
+      this.jobs.set(id, job);
+
+      const plan = this.cache ? null : this.planFromPaths(files);
+      if (plan) {
+        this.enqueue(job, plan);
+      } else {
+        const planned = this.cache
+          ? this.planWithCache(job, this.cache)
+          : this.planFromContent(files, job.errors);
+        planned.then(
+          (asyncPlan) => this.enqueue(job, asyncPlan),
+          (error: Error) => this.failJob(job, error)
+        );
+      }
+    });
+
+    return { id, files, promise };
   }
 
   async parseMBOX(
     file: File,
     onProgress?: ProgressCallback,
-    onError?: ErrorCallback
+    onError?: ErrorCallback,
+    onBatch?: BatchCallback
   ): Promise<ParseResult> {
-    this.onProgressCallback = onProgress;
-    this.onErrorCallback = onError;
+    return this.startParse(file, { onProgress, onError, onBatch }).promise;
+  }
 
-    return new Promise<ParseResult>(async (resolve, reject) => {
-      if (!this.worker) {
-        reject(new Error('Worker not initialized'));
-        return;
-      }
+  /**
+   * Stops a job at the next chunk boundary. Its promise rejects with a
+   * ParseCancelledError holding the emails parsed so far.
+   */
+  cancel(jobId: string): void {
+    const job = this.jobs.get(jobId);
+    if (!job) return;
 
-      try {
-        const content = await file.text();
+    job.cancelled = true;
+    this.abortTasks(job);
+    if (job.tasks.every((task) => task.done)) {
+      this.finishJob(job);
+    }
+  }
 
-        const completeHandler = (e: MessageEvent) => {
-          const { type, data } = e.data;
-          
-          if (type === 'complete') {
-            this.worker?.removeEventListener('message', completeHandler);
-            resolve(data as ParseResult);
-          } else if (type === 'error') {
-            this.worker?.removeEventListener('message', completeHandler);
-            reject(new Error(data.message));
-          }
-        };
+  pause(jobId: string): void {
+    const job = this.jobs.get(jobId);
+    if (!job || job.paused) return;
+    job.paused = true;
+    // Queued tasks stay queued until the job resumes
+    for (const task of job.tasks) {
+      task.worker?.worker.postMessage({ command: 'pause', jobId: task.id });
+    }
+  }
 
-        this.worker.addEventListener('message', completeHandler);
+  resume(jobId: string): void {
+    const job = this.jobs.get(jobId);
+    if (!job || !job.paused) return;
+    job.paused = false;
+    for (const task of job.tasks) {
+      task.worker?.worker.postMessage({ command: 'resume', jobId: task.id });
+    }
+    this.dispatch();
+  }
 
-        this.worker.postMessage({
-          command: 'parse',
-          data: { content }
-        });
-      } catch (error) {
-        reject(error);
-      }
-    });
+  isPaused(jobId: string): boolean {
+    return this.jobs.get(jobId)?.paused ?? false;
   }
 
   async parseMultipleMBOX(
     files: File[],
     onProgress?: ProgressCallback,
-    onError?: ErrorCallback
+    onError?: ErrorCallback,
+    onBatch?: BatchCallback
   ): Promise<ParseResult> {
-    const allEmails: ParsedEmail[] = [];
-    const allErrors: ParseError[] = [];
-    let totalBytes = 0;
-    let totalParseTime = 0;
+    return this.startParse(files, { onProgress, onError, onBatch }).promise;
+  }
 
-    for (let i = 0; i < files.length; i++) {
-      const file = files[i];
-      
-      const partProgress: ProgressCallback = (progress) => {
-        if (onProgress) {
-          const overallPercent = ((i / files.length) * 100) + 
-                                (progress.percent / files.length);
-          
-          onProgress({
-            ...progress,
-            percent: overallPercent
+  private rangeCountFor(file: File): number {
+    return Math.max(1, Math.min(this.poolSize, Math.floor(file.size / this.minRangeSize)));
+  }
+
+  /**
+   * Plans the tasks when file names alone tell what each file is and no
+   * MBOX file needs splitting, so small jobs start without reading anything.
+   */
+  private planFromPaths(files: File[]): TaskPlan[] | null {
+    const kinds = files.map((file) => sourceKindFromPath(pathOf(file)));
+    const needsReading = kinds.some((kind, i) => !kind || (kind === 'mbox' && this.rangeCountFor(files[i]) > 1));
+    if (needsReading) return null;
+
+    return files.map((file, i) => ({ origin: file, source: wholeFileSource(file, kinds[i]!) }));
+  }
+
+  private async planFromContent(files: File[], errors: ParseError[]): Promise<TaskPlan[]> {
+    const plan: TaskPlan[] = [];
+
+    for (const file of files) {
+      const path = pathOf(file);
+      const kind = sourceKindFromPath(path)
+        ?? sourceKindFromContent(new Uint8Array(await file.slice(0, SNIFF_SIZE).arrayBuffer()));
+
+      if (!kind) {
+        if (!file.webkitRelativePath) {
+          errors.push({
+            type: 'UNSUPPORTED_FORMAT',
+            message: `${path}: not an MBOX file, RFC 822 message or ZIP archive`
           });
         }
-      };
+      } else if (kind === 'mbox') {
+        plan.push(...await this.planMBOX(file));
+      } else {
+        plan.push({ origin: file, source: wholeFileSource(file, kind) });
+      }
+    }
 
-      const result = await this.parseMBOX(file, partProgress, onError);
-      
-      allEmails.push(...result.emails);
-      allErrors.push(...result.errors);
-      totalBytes += result.stats.totalBytes;
-      totalParseTime += result.stats.parseTime;
+    return plan;
+  }
+
+  /**
+   * Restores files found in the cache and plans the rest as usual. Files
+   * named as standalone messages are not looked up; they are cheap to
+   * parse and Maildir folders hold thousands of them.
+   */
+  private async planWithCache(job: ActiveJob, cache: ArchiveCache): Promise<TaskPlan[]> {
+    const hits = new Map<File, CachedArchive>();
+
+    for (const file of job.files) {
+      if (sourceKindFromPath(pathOf(file)) === 'message') continue;
+
+      const fingerprint = await fileFingerprint(file);
+      job.fingerprints.set(file, fingerprint);
+      const cached = await cache.load(file, fingerprint).catch((error: Error) => {
+        job.callbacks.onError?.(`Archive cache unavailable: ${error.message}`);
+        return null;
+      });
+      if (cached) hits.set(file, cached);
+    }
+
+    const misses = job.files.filter((file) => !hits.has(file));
+    const parsed = this.planFromPaths(misses) ?? await this.planFromContent(misses, job.errors);
+    const plans = new Map<File, TaskPlan[]>();
+    for (const item of parsed) {
+      plans.set(item.origin, [...plans.get(item.origin) ?? [], item]);
+    }
+
+    return job.files.flatMap((file) => {
+      const cached = hits.get(file);
+      return cached
+        ? [{ origin: file, source: wholeFileSource(file, cached.info.kind), cached }]
+        : plans.get(file) ?? [];
+    });
+  }
+
+  private async planMBOX(file: File): Promise<TaskPlan[]> {
+    const count = this.rangeCountFor(file);
+    if (count === 1) {
+      return [{ origin: file, source: wholeFileSource(file, 'mbox') }];
+    }
+
+    // Ranges cannot detect the variant themselves, and splitting at From_
+    // lines would cut through unquoted bodies framed by Content-Length
+    const variant = await MBOXStreamReader.detectBlobVariant(file);
+    if (usesContentLength(variant)) {
+      return [{ origin: file, source: { kind: 'mbox', file, offset: 0, fileId: fileIdentity(file), variant } }];
+    }
+
+    const ranges = await MBOXStreamReader.splitRanges(file, count);
+    return ranges.map((range) => ({
+      origin: file,
+      source: {
+        kind: 'mbox',
+        file: file.slice(range.start, range.end),
+        offset: range.start,
+        fileId: fileIdentity(file),
+        variant
+      }
+    }));
+  }
+
+  // Consecutive standalone messages share tasks instead of taking one each
+  private groupMessages(plan: TaskPlan[]): TaskPlan[] {
+    const grouped: TaskPlan[] = [];
+
+    for (const item of plan) {
+      const last = grouped[grouped.length - 1];
+      if (
+        item.source.kind === 'messages'
+        && last?.source.kind === 'messages'
+        && last.source.files.length < MESSAGES_PER_TASK
+      ) {
+        last.source.files.push(...item.source.files);
+      } else {
+        grouped.push(item);
+      }
+    }
+
+    return grouped;
+  }
+
+  private enqueue(job: ActiveJob, plan: TaskPlan[]): void {
+    // The job may have been cancelled or destroyed while ranges were planned
+    if (this.jobs.get(job.id) !== job) return;
+
+    const grouped = this.groupMessages(plan);
+    job.tasks = grouped.map(({ origin, source, cached }, i) => ({
+      id: grouped.length === 1 ? job.id : `${job.id}.${i + 1}`,
+      job,
+      origin,
+      source,
+      cached,
+      emails: [],
+      pending: [],
+      indexes: [],
+      progress: null,
+      summary: null,
+      worker: null,
+      done: false
+    }));
+
+    if (job.tasks.length === 0) {
+      this.finishJob(job);
+      return;
+    }
+
+    for (const task of job.tasks) {
+      if (task.cached) continue;
+      this.tasks.set(task.id, task);
+      this.queue.push(task);
+    }
+    for (const task of job.tasks) {
+      if (task.cached) this.restoreTask(task, task.cached);
+    }
+    this.dispatch();
+  }
+
+  private restoreTask(task: ParseTask, archive: CachedArchive): void {
+    const { stats } = archive.summary;
+    task.progress = { percent: 100, emailsProcessed: archive.emails.length, bytesProcessed: task.origin.size };
+    this.reportProgress(task.job, task.progress);
+    this.receiveBatch(task, archive.emails, archive.index);
+    this.completeTask(task, {
+      errors: archive.summary.errors,
+      stats: { ...stats, parseTime: performance.now() - task.job.startTime, cachedFiles: 1 }
+    });
+  }
+
+  private dispatch(): void {
+    for (;;) {
+      const index = this.queue.findIndex((task) => !task.job.paused);
+      if (index === -1) return;
+
+      const slot = this.pool.find((s) => !s.task)
+        ?? (this.pool.length < this.poolSize ? this.spawnWorker() : null);
+      if (!slot) return;
+
+      const [task] = this.queue.splice(index, 1);
+      slot.task = task;
+      task.worker = slot;
+
+      // The worker reads Blobs in slices; MBOX content never lives in one string
+      slot.worker.postMessage({
+        command: 'parse',
+        jobId: task.id,
+        data: task.source
+      });
+    }
+  }
+
+  private receiveBatch(task: ParseTask, emails: ParsedEmail[], index?: IndexSegment): void {
+    task.emails.push(...emails);
+    task.indexes.push(index);
+
+    const job = task.job;
+    if (job.tasks[job.delivered] === task) {
+      this.deliverBatch(task, emails, index);
+    } else {
+      task.pending.push({ emails, index });
+    }
+  }
+
+  /**
+   * Passes a batch on in job order. Each worker only knows the copies of a
+   * message in its own range of a file, so a later copy of one seen in an
+   * earlier range gets its duplicate uid here, as it would in a single
+   * sequential parse. Copies in other files keep their uid and are left
+   * to DuplicateDetector.
+   */
+  private deliverBatch(task: ParseTask, emails: ParsedEmail[], index?: IndexSegment): void {
+    const job = task.job;
+    for (const email of emails) {
+      if (!email.location) continue;
+      if (job.uids.has(`${email.location.fileId}\n${email.uid}`)) {
+        email.uid = duplicateUID(email.uid, locationKey(email.location));
+      }
+      job.uids.add(`${email.location.fileId}\n${email.uid}`);
+    }
+    job.callbacks.onBatch?.(emails, index);
+  }
+
+  private deliverPendingBatches(job: ActiveJob): void {
+    while (job.delivered < job.tasks.length && job.tasks[job.delivered].done) {
+      job.delivered++;
+      const next = job.tasks[job.delivered];
+      if (!next) break;
+
+      for (const batch of next.pending) {
+        this.deliverBatch(next, batch.emails, batch.index);
+      }
+      next.pending = [];
+    }
+  }
+
+  private reportProgress(job: ActiveJob, progress: LoadProgress): void {
+    if (!job.callbacks.onProgress) return;
+
+    if (job.tasks.length === 1) {
+      job.callbacks.onProgress(progress);
+      return;
+    }
+
+    const totalSize = this.totalSize(job.tasks);
+    let bytesProcessed = 0;
+    let emailsProcessed = 0;
+    for (const task of job.tasks) {
+      bytesProcessed += task.progress?.bytesProcessed ?? 0;
+      emailsProcessed += task.progress?.emailsProcessed ?? 0;
+    }
+
+    job.callbacks.onProgress({
+      percent: totalSize > 0 ? (bytesProcessed / totalSize) * 100 : 100,
+      emailsProcessed,
+      bytesProcessed,
+      currentEmail: progress.currentEmail
+    });
+  }
+
+  private completeTask(task: ParseTask, summary: ParseSummary | null): void {
+    task.summary = summary;
+    task.done = true;
+    this.tasks.delete(task.id);
+    if (task.worker) {
+      task.worker.task = null;
+      task.worker = null;
+    }
+
+    const job = task.job;
+    if (this.jobs.get(job.id) === job) {
+      this.deliverPendingBatches(job);
+      if (job.tasks.every((t) => t.done)) {
+        this.finishJob(job);
+      }
+    }
+
+    this.dispatch();
+  }
+
+  /**
+   * Asks running tasks to stop and drops queued ones. Running tasks still
+   * report back, which frees their workers.
+   */
+  private abortTasks(job: ActiveJob): void {
+    this.queue = this.queue.filter((task) => task.job !== job);
+
+    for (const task of job.tasks) {
+      if (task.done) continue;
+
+      if (task.worker) {
+        task.worker.worker.postMessage({ command: 'cancel', jobId: task.id });
+      } else {
+        task.done = true;
+        this.tasks.delete(task.id);
+      }
+    }
+  }
+
+  private finishJob(job: ActiveJob): void {
+    this.jobs.delete(job.id);
+    const result = this.collectResult(job);
+
+    if (job.cancelled) {
+      job.reject(new ParseCancelledError(job.id, result));
+    } else {
+      this.cacheResults(job);
+      job.resolve(result);
+    }
+  }
+
+  /**
+   * Adds the MBOX files and ZIP archives a job parsed to the cache, with
+   * their emails and full-text index. A file whose batches came without index segments is left out.
+   */
+  private cacheResults(job: ActiveJob): void {
+    const cache = this.cache;
+    if (!cache) return;
+
+    const parsed = new Map<File, ParseTask[]>();
+    for (const task of job.tasks) {
+      if (task.cached || task.source.kind === 'messages' || !job.fingerprints.has(task.origin)) continue;
+      parsed.set(task.origin, [...parsed.get(task.origin) ?? [], task]);
+    }
+
+    for (const [file, tasks] of parsed) {
+      if (tasks.some((task) => !task.summary)) continue;
+      const indexes = tasks.flatMap((task) => task.indexes);
+      if (!indexes.every((segment): segment is IndexSegment => segment !== undefined)) continue;
+
+      const { emails, ...summary } = this.collectResult(job, tasks, []);
+      const kind = tasks[0].source.kind === 'zip' ? 'zip' : 'mbox';
+
+      cache.save(file, job.fingerprints.get(file)!, kind, emails, summary, mergeIndexSegments(indexes)).catch((error: Error) => {
+        job.callbacks.onError?.(`Failed to cache ${file.name}: ${error.message}`);
+      });
+    }
+  }
+
+  private failJob(job: ActiveJob, error: Error): void {
+    if (this.jobs.get(job.id) !== job) return;
+    this.jobs.delete(job.id);
+    this.abortTasks(job);
+    job.reject(error);
+  }
+
+  private totalSize(tasks: ParseTask[]): number {
+    const origins = new Set(tasks.map((task) => task.origin));
+    let size = 0;
+    for (const origin of origins) {
+      size += origin.size;
+    }
+    return size;
+  }
+
+  private collectResult(job: ActiveJob, tasks = job.tasks, planErrors = job.errors): ParseResult {
+    if (tasks.length === 1 && tasks[0].summary) {
+      const { errors, stats } = tasks[0].summary;
+      return { emails: tasks[0].emails, errors: [...planErrors, ...errors], stats };
+    }
+
+    const emails = tasks.flatMap((task) => task.emails);
+    const errors: ParseError[] = [...planErrors];
+    let partialBytes = 0;
+    let indexOffset = 0;
+    let previousOrigin: File | null = null;
+
+    for (const task of tasks) {
+      if (task.origin !== previousOrigin) {
+        indexOffset = 0;
+        previousOrigin = task.origin;
+      }
+
+      // Workers number messages from the start of their range; make it the file
+      const taskErrors = task.summary?.errors ?? [];
+      for (const error of taskErrors) {
+        errors.push(error.emailIndex === undefined
+          ? error
+          : { ...error, emailIndex: error.emailIndex + indexOffset });
+      }
+      const failed = taskErrors.filter((error) => error.type === 'CRITICAL').length;
+      indexOffset += task.emails.length + failed;
+
+      partialBytes += task.summary?.stats.totalBytes
+        ?? task.emails.reduce((sum, email) => sum + email.rawSize, 0);
     }
 
+    // Ranges leave out the blank lines between them, so count whole files when complete
+    const totalBytes = job.cancelled ? partialBytes : this.totalSize(tasks);
+
+    const variants = new Set(tasks.flatMap((task) => task.summary?.stats.variant ?? []));
+    const cachedFiles = tasks.filter((task) => task.cached).length;
+
     return {
-      emails: allEmails,
-      errors: allErrors,
+      emails,
+      errors,
       stats: {
-        totalEmails: allEmails.length,
+        totalEmails: emails.length,
         totalBytes,
-        parseTime: totalParseTime,
-        avgEmailSize: totalBytes / allEmails.length
+        parseTime: performance.now() - job.startTime,
+        avgEmailSize: emails.length > 0 ? totalBytes / emails.length : 0,
+        variant: variants.size > 1 ? 'mixed' : [...variants][0],
+        cachedFiles: cachedFiles > 0 ? cachedFiles : undefined
       }
     };
   }
@@ -161,10 +740,52 @@ export class EmailService {
     }
   }
 
-  getEmailStats(emails: ParsedEmail[]) {
+  /**
+   * Checks that a file is something startParse() can ingest: an MBOX file,
+   * a standalone RFC 822 message or a ZIP archive.
+   */
+  async validateFile(file: File): Promise<{
+    valid: boolean;
+    kind?: SourceKind;
+    error?: string;
+  }> {
+    try {
+      const head = new Uint8Array(await file.slice(0, SNIFF_SIZE).arrayBuffer());
+      const kind = sourceKindFromContent(head) ?? sourceKindFromPath(pathOf(file));
+
+      if (!kind) {
+        return {
+          valid: false,
+          error: 'File is not an MBOX file, RFC 822 message or ZIP archive'
+        };
+      }
+      if (kind === 'mbox') {
+        return { ...await this.validateMBOXFile(file), kind };
+      }
+
+      return { valid: true, kind };
+    } catch (error) {
+      return {
+        valid: false,
+        error: `Validation error: ${(error as Error).message}`
+      };
+    }
+  }
+
+  /**
+   * Summary figures for loaded emails. Copies of a message loaded from
+   * overlapping exports count once unless `collapseDuplicates` is false;
+   * `duplicateCount` says how many were left out.
+   */
+  getEmailStats(loaded: ParsedEmail[], options: EmailStatsOptions = {}) {
+    const { unique: emails, duplicateCount } = options.collapseDuplicates === false
+      ? { unique: loaded, duplicateCount: 0 }
+      : new DuplicateDetector().detect(loaded);
+
     if (emails.length === 0) {
       return {
         totalCount: 0,
+        duplicateCount,
         averageSize: 0,
         dateRange: { earliest: null, latest: null },
         topSenders: [],
@@ -189,7 +810,7 @@ export class EmailService {
     const senderCounts = new Map<string, number>();
     emails.forEach(email => {
       email.metadata.from.forEach(sender => {
-        senderCounts.set(sender, (senderCounts.get(sender) || 0) + 1);
+        senderCounts.set(sender.address, (senderCounts.get(sender.address) || 0) + 1);
       });
     });
 
@@ -207,6 +828,7 @@ export class EmailService {
 
     return {
       totalCount: emails.length,
+      duplicateCount,
       averageSize,
       dateRange,
       topSenders,
@@ -215,10 +837,19 @@ export class EmailService {
   }
 
   destroy(): void {
-    if (this.worker) {
-      this.worker.terminate();
-      this.worker = null;
+    // Terminating the workers would otherwise leave pending promises hanging
+    for (const [jobId, job] of this.jobs) {
+      job.cancelled = true;
+      job.reject(new ParseCancelledError(jobId, this.collectResult(job)));
+    }
+    this.jobs.clear();
+    this.tasks.clear();
+    this.queue = [];
+
+    for (const slot of this.pool) {
+      slot.worker.terminate();
     }
+    this.pool = [];
   }
 }
 
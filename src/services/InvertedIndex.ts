@@ -0,0 +1,255 @@
+// src/services/InvertedIndex.ts
+// Positional inverted index over search documents, ranked with BM25
+import { tokenize } from '../utils/tokenize';
+import type { SearchDocument } from './SearchIndex';
+
+export const INDEX_FIELDS = ['subject', 'from', 'to', 'headers', 'body'] as const;
+export type IndexField = typeof INDEX_FIELDS[number];
+
+/**
+ * The postings of a batch of documents, as built where they were parsed
+ * and stored with them in the archive cache. Documents are numbered by
+ * their position in the batch, so the segment stays valid when a uid is
+ * changed after parsing. Each run of postings is the document number, the
+ * count of positions and the positions themselves.
+ */
+export interface IndexSegment {
+  lengths: number[]; // tokens per document
+  postings: Map<string, number[]>;
+}
+
+export interface TextClause {
+  terms: string[]; // consecutive tokens; a single one for a word
+  prefix?: boolean; // the last term matches every indexed term it starts
+}
+
+// A position encodes its field, so phrases never span two fields
+const POSITION_LIMIT = 2 ** 20;
+const FIELD_WEIGHTS = [3, 2, 2, 1, 1];
+
+// Indexed as fields of their own
+const FIELD_HEADERS = new Set(['subject', 'from', 'to', 'cc', 'bcc']);
+
+const K1 = 1.2;
+const B = 0.75;
+
+interface IndexEntry {
+  uid: string;
+  length: number;
+  terms: string[];
+}
+
+function fieldTexts(document: SearchDocument): string[] {
+  const headers = Object.entries(document.headers)
+    .filter(([name]) => !FIELD_HEADERS.has(name.toLowerCase()))
+    .flatMap(([name, values]) => values.map((value) => `${name} ${value}`));
+
+  return [document.subject, document.from, document.to, headers.join('\n'), document.body];
+}
+
+export function buildIndexSegment(documents: SearchDocument[]): IndexSegment {
+  const lengths: number[] = [];
+  const postings = new Map<string, number[]>();
+
+  documents.forEach((document, doc) => {
+    const positions = new Map<string, number[]>();
+    let length = 0;
+
+    fieldTexts(document).forEach((text, field) => {
+      const tokens = tokenize(text).slice(0, POSITION_LIMIT - 1);
+      tokens.forEach((term, position) => {
+        let list = positions.get(term);
+        if (!list) positions.set(term, list = []);
+        list.push(field * POSITION_LIMIT + position);
+      });
+      length += tokens.length;
+    });
+
+    lengths.push(length);
+    for (const [term, list] of positions) {
+      let runs = postings.get(term);
+      if (!runs) postings.set(term, runs = []);
+      runs.push(doc, list.length);
+      for (const position of list) runs.push(position);
+    }
+  });
+
+  return { lengths, postings };
+}
+
+/** Concatenates segments, numbering documents on from the previous one. */
+export function mergeIndexSegments(segments: IndexSegment[]): IndexSegment {
+  const lengths: number[] = [];
+  const postings = new Map<string, number[]>();
+
+  for (const segment of segments) {
+    const offset = lengths.length;
+    for (const [term, runs] of segment.postings) {
+      let merged = postings.get(term);
+      if (!merged) postings.set(term, merged = []);
+      for (let i = 0; i < runs.length; i += 2 + runs[i + 1]) {
+        merged.push(runs[i] + offset);
+        for (let j = i + 1; j < i + 2 + runs[i + 1]; j++) merged.push(runs[j]);
+      }
+    }
+    for (const length of segment.lengths) lengths.push(length);
+  }
+
+  return { lengths, postings };
+}
+
+function hasPosition(sorted: number[], position: number): boolean {
+  let low = 0;
+  let high = sorted.length - 1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (sorted[middle] === position) return true;
+    if (sorted[middle] < position) low = middle + 1;
+    else high = middle - 1;
+  }
+  return false;
+}
+
+/**
+ * Maps terms to the documents and positions they occur at. Segments are
+ * added as batches arrive; adding a uid again replaces its postings.
+ * Clauses are scored with BM25 over field-weighted term frequencies, so a
+ * match in the subject counts for more than one in the body.
+ */
+export class InvertedIndex {
+  private entries: (IndexEntry | undefined)[] = [];
+  private ids = new Map<string, number>();
+  private postings = new Map<string, Map<number, number[]>>();
+  private sortedTerms: string[] | null = null;
+  private totalLength = 0;
+
+  get size(): number {
+    return this.ids.size;
+  }
+
+  /** Adds a segment whose documents have the given uids, in order. */
+  add(uids: string[], segment: IndexSegment): void {
+    const base = this.entries.length;
+    uids.forEach((uid, i) => {
+      this.remove(uid);
+      this.ids.set(uid, base + i);
+      this.entries.push({ uid, length: segment.lengths[i], terms: [] });
+      this.totalLength += segment.lengths[i];
+    });
+
+    for (const [term, runs] of segment.postings) {
+      for (let i = 0; i < runs.length; i += 2 + runs[i + 1]) {
+        const doc = base + runs[i];
+        const entry = this.entries[doc];
+        // A uid repeated within the batch keeps only its last document
+        if (!entry) continue;
+
+        let docs = this.postings.get(term);
+        if (!docs) {
+          this.postings.set(term, docs = new Map());
+          this.sortedTerms = null;
+        }
+        docs.set(doc, runs.slice(i + 2, i + 2 + runs[i + 1]));
+        entry.terms.push(term);
+      }
+    }
+  }
+
+  remove(uid: string): void {
+    const doc = this.ids.get(uid);
+    if (doc === undefined) return;
+    const entry = this.entries[doc]!;
+
+    for (const term of entry.terms) {
+      const docs = this.postings.get(term)!;
+      docs.delete(doc);
+      if (docs.size === 0) {
+        this.postings.delete(term);
+        this.sortedTerms = null;
+      }
+    }
+    this.entries[doc] = undefined;
+    this.ids.delete(uid);
+    this.totalLength -= entry.length;
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.ids.clear();
+    this.postings.clear();
+    this.sortedTerms = null;
+    this.totalLength = 0;
+  }
+
+  /**
+   * Scores the documents matching a clause, by uid. With `fields`, only
+   * occurrences in those fields count.
+   */
+  match(clause: TextClause, fields?: readonly IndexField[]): Map<string, number> {
+    const scores = new Map<string, number>();
+    if (clause.terms.length === 0) return scores;
+
+    const last = clause.terms.length - 1;
+    const postings = clause.terms.map((term, i) =>
+      this.positionsOf(clause.prefix && i === last ? this.termsStartingWith(term) : [term])
+    );
+    const allowed = fields && new Set(fields.map((field) => INDEX_FIELDS.indexOf(field)));
+    const idf = postings.reduce((sum, docs) => sum + this.idf(docs.size), 0);
+    const averageLength = this.totalLength / this.ids.size;
+    const [first, ...rest] = postings;
+
+    for (const [doc, positions] of first) {
+      let frequency = 0;
+      for (const position of positions) {
+        const field = Math.floor(position / POSITION_LIMIT);
+        if (allowed && !allowed.has(field)) continue;
+        if (rest.every((docs, i) => hasPosition(docs.get(doc) ?? [], position + i + 1))) {
+          frequency += FIELD_WEIGHTS[field];
+        }
+      }
+      if (frequency === 0) continue;
+
+      const { uid, length } = this.entries[doc]!;
+      const norm = K1 * (1 - B + B * length / averageLength);
+      scores.set(uid, idf * (frequency * (K1 + 1)) / (frequency + norm));
+    }
+    return scores;
+  }
+
+  private idf(documentFrequency: number): number {
+    return Math.log(1 + (this.ids.size - documentFrequency + 0.5) / (documentFrequency + 0.5));
+  }
+
+  // The sorted positions of any of the terms, per document
+  private positionsOf(terms: string[]): Map<number, number[]> {
+    if (terms.length === 1) return this.postings.get(terms[0]) ?? new Map();
+
+    const union = new Map<number, number[]>();
+    for (const term of terms) {
+      for (const [doc, positions] of this.postings.get(term) ?? []) {
+        union.set(doc, [...union.get(doc) ?? [], ...positions]);
+      }
+    }
+    for (const positions of union.values()) positions.sort((a, b) => a - b);
+    return union;
+  }
+
+  private termsStartingWith(prefix: string): string[] {
+    this.sortedTerms ??= [...this.postings.keys()].sort();
+    const terms = this.sortedTerms;
+
+    let low = 0;
+    let high = terms.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (terms[middle] < prefix) low = middle + 1;
+      else high = middle;
+    }
+
+    const matches: string[] = [];
+    for (let i = low; i < terms.length && terms[i].startsWith(prefix); i++) {
+      matches.push(terms[i]);
+    }
+    return matches;
+  }
+}
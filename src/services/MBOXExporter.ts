@@ -0,0 +1,195 @@
+// src/services/MBOXExporter.ts
+// mboxrd serialization of loaded emails, with header edits applied
+import type { HeaderEdits } from '../types';
+import { encodeAddressList, parseAddressList } from '../utils/addresses';
+import { binaryToBytes, bytesToBinary } from '../utils/encoding';
+import { encodeEncodedWords } from '../utils/encoded-words';
+import { listZipEntries, readZipEntry, type ZipEntry } from '../utils/zip';
+import type { ParsedEmail } from './MBOXParser';
+import { MBOXStreamReader, usesContentLength, type MBOXVariant } from './MBOXStreamReader';
+
+export type ExportableEmail = Pick<ParsedEmail, 'uid' | 'headers' | 'metadata' | 'location' | 'deferredBody'> & {
+  temporaryEdits?: HeaderEdits;
+};
+
+export interface ExportOptions {
+  files: Map<string, Blob>; // the open source files, by fileIdentity()
+}
+
+interface Source {
+  text: string; // one character per byte
+  variant?: MBOXVariant; // how From_ lines were quoted; absent for standalone messages
+  atEnd?: boolean; // the last message of its MBOX, which keeps the file's final blank line
+}
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Framing headers of Content-Length mailboxes, which quoting From_ lines would falsify
+const FRAMING_REMOVALS: HeaderEdits = { 'Content-Length': '', Lines: '' };
+
+// Headers holding an address-list, in which only display names may be encoded-words
+const ADDRESS_HEADERS = new Set(['from', 'to', 'cc', 'bcc', 'reply-to', 'sender']);
+
+// ctime() format, as From_ lines carry it, in UTC
+function asctime(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${DAYS[date.getUTCDay()]} ${MONTHS[date.getUTCMonth()]} ${String(date.getUTCDate()).padStart(2, ' ')} `
+    + `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} ${date.getUTCFullYear()}`;
+}
+
+function unescapeFromLines(text: string, variant: MBOXVariant): string {
+  switch (variant) {
+    case 'mboxrd':
+      return text.replace(/^>(>*From )/gm, '$1');
+    case 'mboxo':
+    case 'mboxcl':
+      return text.replace(/^>From /gm, 'From ');
+    case 'mboxcl2':
+      return text;
+  }
+}
+
+/**
+ * Splits a header block into fields, each a line with its folded
+ * continuation lines.
+ */
+function headerFields(header: string, eol: string): string[] {
+  const fields: string[] = [];
+  for (const line of header ? header.split(eol) : []) {
+    if (/^[ \t]/.test(line) && fields.length > 0) fields[fields.length - 1] += eol + line;
+    else fields.push(line);
+  }
+  return fields;
+}
+
+function fieldName(field: string): string {
+  return field.substring(0, field.indexOf(':')).trim().toLowerCase();
+}
+
+/**
+ * Writes emails as an mboxrd file, e.g. a working set or the
+ * results of a search. Unedited messages are copied byte for byte from
+ * the files they were loaded from, with only their From_ quoting brought
+ * to mboxrd; edited ones get their temporaryEdits applied to the header
+ * block and keep everything else. Messages read from an MBOX keep their
+ * From_ line; others get one built from Return-Path or From and the Date.
+ */
+export class MBOXExporter {
+  async exportToMBOX(emails: ExportableEmail[], options: ExportOptions): Promise<Blob> {
+    const variants = new Map<string, Promise<MBOXVariant>>();
+    const zipEntries = new Map<string, Promise<ZipEntry[]>>();
+    const chunks: Uint8Array<ArrayBuffer>[] = [];
+
+    for (const email of emails) {
+      const source = await this.readSource(email, options.files, variants, zipEntries);
+      chunks.push(binaryToBytes(this.generateMBOXEntry(email, source)));
+    }
+
+    return new Blob(chunks, { type: 'application/mbox' });
+  }
+
+  private async readSource(
+    email: ExportableEmail,
+    files: Map<string, Blob>,
+    variants: Map<string, Promise<MBOXVariant>>,
+    zipEntries: Map<string, Promise<ZipEntry[]>>
+  ): Promise<Source> {
+    const location = email.location;
+    const file = location && files.get(location.fileId);
+    if (!location || !file) {
+      throw new Error(`"${email.metadata.subject}" cannot be exported: the file it was loaded from is not open`);
+    }
+
+    if (location.entry !== undefined) {
+      if (!zipEntries.has(location.fileId)) zipEntries.set(location.fileId, listZipEntries(file));
+      const entry = (await zipEntries.get(location.fileId)!).find((e) => e.path === location.entry);
+      if (!entry) throw new Error(`${location.entry} is no longer in the archive`);
+      return { text: bytesToBinary(await readZipEntry(file, entry)) };
+    }
+
+    const end = location.offset + location.length;
+    const text = bytesToBinary(new Uint8Array(await file.slice(location.offset, end).arrayBuffer()));
+    if (!/^From \S/.test(text)) return { text };
+
+    if (!variants.has(location.fileId)) {
+      variants.set(location.fileId, email.deferredBody?.variant !== undefined
+        ? Promise.resolve(email.deferredBody.variant)
+        : MBOXStreamReader.detectBlobVariant(file));
+    }
+    return { text, variant: await variants.get(location.fileId)!, atEnd: end >= file.size };
+  }
+
+  private generateMBOXEntry(email: ExportableEmail, source: Source): string {
+    let { text } = source;
+    let fromLine: string | null = null;
+
+    if (source.variant !== undefined) {
+      const end = text.indexOf('\n');
+      fromLine = (end === -1 ? text : text.substring(0, end)).replace(/\r$/, '');
+      text = end === -1 ? '' : text.substring(end + 1);
+      if (source.atEnd) text = text.replace(/(\r?\n)\r?\n$/, '$1');
+      text = unescapeFromLines(text, source.variant);
+      if (usesContentLength(source.variant)) text = this.applyTemporaryEdits(text, FRAMING_REMOVALS);
+    }
+
+    if (email.temporaryEdits && Object.keys(email.temporaryEdits).length > 0) {
+      text = this.applyTemporaryEdits(text, email.temporaryEdits);
+    }
+
+    const escaped = this.escapeFromLines(text);
+    const terminated = /\n$/.test(escaped) || escaped === '' ? escaped : `${escaped}\n`;
+    return `${fromLine ?? this.generateFromLine(email)}\n${terminated}\n`;
+  }
+
+  /**
+   * Applies header edits to a message: each edited header is set to its
+   * new value at the position of its first occurrence, replacing any
+   * others, or appended when the message lacks it. An empty value
+   * removes the header. Non-ASCII values are written as encoded-words,
+   * only in the display names of address headers.
+   */
+  private applyTemporaryEdits(message: string, edits: HeaderEdits): string {
+    const blank = /\r?\n\r?\n/.exec(message);
+    const eol = /\r\n/.test(message.substring(0, blank?.index ?? message.length)) ? '\r\n' : '\n';
+    const headerEnd = /^\r?\n/.test(message) ? 0 : blank?.index ?? message.replace(/\r?\n$/, '').length;
+    const fields = headerFields(message.substring(0, headerEnd), eol);
+    const rest = message.substring(headerEnd);
+
+    for (const [name, value] of Object.entries(edits)) {
+      if (!/^[!-9;-~]+$/.test(name)) throw new Error(`Invalid header name "${name}"`);
+
+      const key = name.toLowerCase();
+      const first = fields.findIndex((field) => fieldName(field) === key);
+      const written = first === -1 ? name : fields[first].substring(0, fields[first].indexOf(':'));
+      const replacement = value === '' ? [] : [`${written}: ${this.encodeHeaderValue(key, value.replace(/\r?\n/g, ' '))}`];
+
+      const kept = fields.filter((field, i) => i === first || fieldName(field) !== key);
+      const index = kept.findIndex((field) => fieldName(field) === key);
+      if (index === -1) kept.push(...replacement);
+      else kept.splice(index, 1, ...replacement);
+      fields.splice(0, fields.length, ...kept);
+    }
+
+    const header = fields.join(eol);
+    if (headerEnd === 0) return header ? `${header}${eol}${rest}` : rest;
+    return header ? `${header}${rest}` : rest.replace(/^\r?\n/, '');
+  }
+
+  private encodeHeaderValue(key: string, value: string): string {
+    if (!ADDRESS_HEADERS.has(key) || /^[ -~]*$/.test(value)) return encodeEncodedWords(value);
+    return encodeAddressList(parseAddressList(value));
+  }
+
+  // mboxrd quoting: every line matching /^>*From / gains one more '>'
+  private escapeFromLines(content: string): string {
+    return content.replace(/^(>*From )/gm, '>$1');
+  }
+
+  private generateFromLine(email: ExportableEmail): string {
+    const returnPath = /<([^<>\s]+)>/.exec(email.headers['return-path']?.[0] ?? '')?.[1];
+    const sender = returnPath || email.metadata.from[0]?.address || 'MAILER-DAEMON';
+    const date = new Date(email.metadata.date ?? 0);
+    return `From ${sender.replace(/\s/g, '_')} ${asctime(isNaN(date.getTime()) ? new Date(0) : date)}`;
+  }
+}
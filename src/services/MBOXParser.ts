@@ -1,25 +1,45 @@
 // src/services/MBOXParser.ts
-// Parser logic extracted for direct use in tests
+// MBOX parser core, shared by the parser worker and the unit tests
+import type { Address, Attachment, EmailLocation, ReceivedHeader } from '../types';
+import { parseAddressList } from '../utils/addresses';
+import { decodeEncodedWords } from '../utils/encoded-words';
+import { binaryToBytes, bytesToBinary, decodeBinary } from '../utils/encoding';
+import { contentUID, duplicateUID, fileIdentity, locationKey, normalizedContentHash } from '../utils/identity';
+import { extractAttachments, extractBodies, parseMIMETree, type DecodeIssue } from '../utils/mime';
+import { sourceKindFromPath } from '../utils/mail-sources';
+import { buildReceivedChain } from '../utils/received';
+import { listZipEntries, readZipEntry } from '../utils/zip';
+import { MBOXStreamReader, usesContentLength, type MBOXVariant } from './MBOXStreamReader';
+
+export type { MBOXVariant };
 
 export interface ParsedEmail {
   uid: string;
   messageId: string;
+  contentHash: string; // normalizedContentHash(), shared by copies that differ only in added headers
   headers: Record<string, string[]>;
   body: {
     text: string;
     html: string;
     raw: string;
+    attachments: Attachment[];
   };
   metadata: {
     date: string | null;
-    from: string[];
-    to: string[];
-    cc: string[];
+    from: Address[];
+    to: Address[];
+    cc: Address[];
+    bcc: Address[];
+    replyTo: Address[];
+    sender: Address[];
     subject: string;
     inReplyTo?: string;
     references: string[];
+    receivedChain: ReceivedHeader[];
   };
   rawSize: number;
+  location?: EmailLocation;
+  deferredBody?: { variant?: MBOXVariant }; // restored from ArchiveCache; the body is read on demand
 }
 
 export interface ParseResult {
@@ -30,11 +50,35 @@ export interface ParseResult {
     totalBytes: number;
     parseTime: number;
     avgEmailSize: number;
+    variant?: MBOXVariant | 'mixed'; // 'mixed' when merging files of different variants
+    cachedFiles?: number; // files restored from ArchiveCache instead of parsed
   };
 }
 
+export interface MBOXParserOptions {
+  variant?: MBOXVariant; // detected from the content when omitted
+  fileId?: string; // fileIdentity() of the source, needed when parsing a slice of it
+}
+
+export type ParseSummary = Omit<ParseResult, 'emails'>;
+
+export interface ParseBatch {
+  emails: ParsedEmail[];
+  bytesProcessed: number;
+}
+
+/**
+ * What a parser worker is asked to parse: an MBOX file or a range of one,
+ * standalone RFC 822 messages (.eml files, Maildir entries), or a ZIP
+ * archive holding such messages.
+ */
+export type ParseSource =
+  | { kind: 'mbox'; file: Blob; offset: number; fileId?: string; variant?: MBOXVariant }
+  | { kind: 'messages'; files: Blob[] }
+  | { kind: 'zip'; file: Blob };
+
 export interface ParseError {
-  type: 'MALFORMED_HEADER' | 'ENCODING_ERROR' | 'FROM_LINE_ERROR' | 'CRITICAL';
+  type: 'MALFORMED_HEADER' | 'ENCODING_ERROR' | 'FROM_LINE_ERROR' | 'UNSUPPORTED_FORMAT' | 'CRITICAL';
   message: string;
   context?: string;
   emailIndex?: number;
@@ -43,15 +87,57 @@ export interface ParseError {
 export class MBOXParser {
   private readonly FROM_LINE_REGEX = /^From \S+.*$/;
   private readonly HEADER_REGEX = /^([^:\s]+):\s*(.*)$/;
+  private readonly MESSAGE_BATCH_SIZE = 100;
   private emailCount = 0;
   private errors: ParseError[] = [];
+  private variant: MBOXVariant | undefined;
+  private fileId: string | undefined;
+  private seenUIDs = new Set<string>();
+
+  constructor(options: MBOXParserOptions = {}) {
+    this.variant = options.variant;
+    this.fileId = options.fileId;
+  }
 
-  generateUID(): string {
-    return `eama-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  getErrors(): ParseError[] {
+    return this.errors;
   }
 
-  unescapeFromLines(text: string): string {
-    return text.replace(/^>+From /gm, (match) => match.substring(1));
+  /**
+   * The MBOX variant in use, once given or detected. Standalone messages
+   * have none.
+   */
+  getVariant(): MBOXVariant | undefined {
+    return this.variant;
+  }
+
+  /**
+   * Derives a uid from the message content, so reloading a file yields the
+   * same uids, however it is named and whatever is loaded with it. Exact
+   * copies after the first in a file are told apart by `duplicateKey`,
+   * their location in it; copies in other files are DuplicateDetector's.
+   */
+  generateUID(content: string, fileId: string | undefined, duplicateKey: string): string {
+    const uid = contentUID(content);
+    const seen = `${fileId ?? ''}\n${uid}`;
+    if (!this.seenUIDs.has(seen)) {
+      this.seenUIDs.add(seen);
+      return uid;
+    }
+    return duplicateUID(uid, duplicateKey);
+  }
+
+  unescapeFromLines(text: string, variant: MBOXVariant = this.variant ?? 'mboxrd'): string {
+    switch (variant) {
+      case 'mboxrd':
+        return text.replace(/^>+From /gm, (match) => match.substring(1));
+      case 'mboxo':
+      case 'mboxcl':
+        // Quoting is not reversible here; ">From " is the best guess at "From "
+        return text.replace(/^>From /gm, 'From ');
+      case 'mboxcl2':
+        return text;
+    }
   }
 
   unfoldHeader(value: string): string {
@@ -62,21 +148,22 @@ export class MBOXParser {
     return text.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
   }
 
-  parseAddresses(headerValue: string): string[] {
-    if (!headerValue) return [];
-    
-    const emailRegex = /<?([\w.%+-]+@[\w.-]+\.[A-Za-z]{2,})>?/g;
-    const matches: string[] = [];
-    let match;
-    
-    while ((match = emailRegex.exec(headerValue)) !== null) {
-      matches.push(match[1]);
-    }
-    
-    return matches.length > 0 ? matches : [headerValue.trim()];
+  parseAddresses(headerValue: string): Address[] {
+    return parseAddressList(headerValue);
   }
 
-  parseEmail(rawEmail: string, index: number): ParsedEmail | null {
+  /**
+   * Parses one message from a byte string (see bytesToBinary()), so each
+   * body part can be decoded in its own charset. `fromQuoted` is false for
+   * standalone messages, which never had their "From " lines quoted for
+   * MBOX storage. `location` is known when parsing from a file.
+   */
+  parseEmail(
+    rawEmail: string,
+    index: number,
+    fromQuoted = true,
+    location?: EmailLocation
+  ): ParsedEmail | null {
     try {
       const normalized = this.normalizeEOL(rawEmail);
       const lines = normalized.split('\n');
@@ -96,7 +183,7 @@ export class MBOXParser {
         
         if (line === '') {
           if (currentHeader) {
-            this.addHeader(headers, currentHeader, currentValue.join('\n'));
+            this.addHeader(headers, currentHeader, decodeBinary(currentValue.join('\n')));
           }
           bodyStart = i + 1;
           break;
@@ -112,7 +199,7 @@ export class MBOXParser {
         const headerMatch = line.match(this.HEADER_REGEX);
         if (headerMatch) {
           if (currentHeader) {
-            this.addHeader(headers, currentHeader, currentValue.join('\n'));
+            this.addHeader(headers, currentHeader, decodeBinary(currentValue.join('\n')));
           }
           
           currentHeader = headerMatch[1];
@@ -122,22 +209,43 @@ export class MBOXParser {
 
       const bodyLines = lines.slice(bodyStart);
       const rawBody = bodyLines.join('\n');
-      const unescapedBody = this.unescapeFromLines(rawBody);
+      const unescapedBody = fromQuoted ? this.unescapeFromLines(rawBody) : rawBody;
 
       const metadata = this.extractMetadata(headers);
+      const mimeTree = parseMIMETree(headers, unescapedBody);
+      const reportIssue = (issue: DecodeIssue) => {
+        this.errors.push({
+          type: 'ENCODING_ERROR',
+          message: `Email ${index}: ${issue.message}`,
+          context: issue.context,
+          emailIndex: index
+        });
+      };
+      const { text, html } = extractBodies(mimeTree, reportIssue);
+      const attachments = extractAttachments(mimeTree, reportIssue);
+
+      // The From_ line and From_ quoting differ between copies of the same message.
+      // Hashes are taken over UTF-8 text, as they were before bodies were kept as bytes.
+      const content = decodeBinary(`${lines.slice(headerStart, bodyStart).join('\n')}\n${unescapedBody}`);
+      const duplicateKey = location ? locationKey(location) : String(index);
+      const serializedHeaders = this.serializeHeaders(headers);
 
-      return {
-        uid: this.generateUID(),
+      const email: ParsedEmail = {
+        uid: this.generateUID(content, location?.fileId, duplicateKey),
         messageId: this.getHeader(headers, 'Message-ID') || `<generated-${this.emailCount}@eama>`,
-        headers: this.serializeHeaders(headers),
+        contentHash: normalizedContentHash(serializedHeaders, decodeBinary(unescapedBody)),
+        headers: serializedHeaders,
         body: {
-          text: unescapedBody,
-          html: this.getHeader(headers, 'Content-Type')?.includes('text/html') ? unescapedBody : '',
-          raw: rawBody
+          text,
+          html,
+          raw: decodeBinary(rawBody),
+          attachments
         },
         metadata,
         rawSize: rawEmail.length
       };
+      if (location) email.location = location;
+      return email;
     } catch (error) {
       this.errors.push({
         type: 'CRITICAL',
@@ -177,9 +285,13 @@ export class MBOXParser {
       from: this.parseAddresses(this.getHeader(headers, 'From') || ''),
       to: this.parseAddresses(this.getHeader(headers, 'To') || ''),
       cc: this.parseAddresses(this.getHeader(headers, 'Cc') || ''),
-      subject: this.getHeader(headers, 'Subject') || '(No Subject)',
+      bcc: this.parseAddresses(this.getHeader(headers, 'Bcc') || ''),
+      replyTo: this.parseAddresses(this.getHeader(headers, 'Reply-To') || ''),
+      sender: this.parseAddresses(this.getHeader(headers, 'Sender') || ''),
+      subject: decodeEncodedWords(this.getHeader(headers, 'Subject') || '') || '(No Subject)',
       inReplyTo: this.getHeader(headers, 'In-Reply-To') || undefined,
-      references: this.getHeader(headers, 'References')?.split(/\s+/).filter(Boolean) || []
+      references: this.getHeader(headers, 'References')?.split(/\s+/).filter(Boolean) || [],
+      receivedChain: buildReceivedChain(headers.get('received') || [])
     };
   }
 
@@ -192,38 +304,164 @@ export class MBOXParser {
     }
   }
 
-  splitMBOX(content: string): string[] {
-    const emails: string[] = [];
-    const lines = this.normalizeEOL(content).split('\n');
-    let currentEmail: string[] = [];
-    let inEmail = false;
+  /** Splits MBOX content, a byte string (see bytesToBinary()), into raw messages. */
+  splitMBOX(content: string, variant: MBOXVariant = this.variant ?? 'mboxrd'): string[] {
+    if (usesContentLength(variant)) {
+      // Content-Length counts bytes, so frame the encoded content
+      const reader = new MBOXStreamReader(0, variant);
+      const messages = reader.push(binaryToBytes(content));
+      messages.push(...reader.end());
+      return messages.map((message) => this.normalizeEOL(message.raw));
+    }
 
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      
-      if (this.FROM_LINE_REGEX.test(line) && (i === 0 || lines[i - 1] === '')) {
-        if (currentEmail.length > 0) {
-          emails.push(currentEmail.join('\n'));
+    const normalized = this.normalizeEOL(content);
+    const boundaries: number[] = [];
+    // A From_ line starts a message at the very start or after a blank line
+    const boundaryRegex = /(?:^\n?|\n\n)(?=From \S)/g;
+    let match;
+
+    while ((match = boundaryRegex.exec(normalized)) !== null) {
+      boundaries.push(match.index + match[0].length);
+      if (match[0].length === 0) boundaryRegex.lastIndex++;
+    }
+
+    return boundaries.map((start, i) => {
+      // The blank line's terminator separates messages and belongs to neither
+      const end = i + 1 < boundaries.length ? boundaries[i + 1] - 1 : normalized.length;
+      return normalized.substring(start, end);
+    });
+  }
+
+  /**
+   * Parses a Blob chunk by chunk. `baseOffset` is the position of the Blob
+   * within its source file when it is a range from MBOXStreamReader.splitRanges;
+   * ranges cannot be sniffed, so their variant must be given to the constructor.
+   */
+  async *parseFileBatches(file: Blob, chunkSize?: number, baseOffset = 0): AsyncGenerator<ParseBatch> {
+    let index = 0;
+    this.variant ??= await MBOXStreamReader.detectBlobVariant(file);
+    const fileId = this.fileId ?? fileIdentity(file);
+
+    for await (const chunk of MBOXStreamReader.read(file, chunkSize, baseOffset, this.variant)) {
+      const emails: ParsedEmail[] = [];
+
+      for (const message of chunk.messages) {
+        const location = { fileId, offset: message.offset, length: message.length };
+        const parsed = this.parseEmail(message.raw, index++, true, location);
+        if (parsed) {
+          emails.push(parsed);
+          this.emailCount++;
         }
-        currentEmail = [line];
-        inEmail = true;
-      } else if (inEmail) {
-        currentEmail.push(line);
       }
+
+      yield { emails, bytesProcessed: chunk.bytesRead };
     }
+  }
 
-    if (currentEmail.length > 0) {
-      emails.push(currentEmail.join('\n'));
+  async *parseMessageBatches(files: Blob[]): AsyncGenerator<ParseBatch> {
+    let emails: ParsedEmail[] = [];
+    let bytesProcessed = 0;
+
+    for (let index = 0; index < files.length; index++) {
+      const file = files[index];
+      const raw = bytesToBinary(new Uint8Array(await file.arrayBuffer()));
+      const location = { fileId: fileIdentity(file), offset: 0, length: file.size };
+      const parsed = this.parseEmail(raw, index, false, location);
+      if (parsed) {
+        emails.push(parsed);
+        this.emailCount++;
+      }
+      bytesProcessed += file.size;
+
+      if (emails.length >= this.MESSAGE_BATCH_SIZE || index === files.length - 1) {
+        yield { emails, bytesProcessed };
+        emails = [];
+      }
+    }
+  }
+
+  /**
+   * Parses the messages in a ZIP archive: Maildir cur/ and new/ entries and
+   * .eml files. Other entries are skipped; entries that cannot be read are
+   * reported as errors.
+   */
+  async *parseZipBatches(zip: Blob): AsyncGenerator<ParseBatch> {
+    const entries = (await listZipEntries(zip))
+      .filter((entry) => sourceKindFromPath(entry.path) === 'message');
+    const fileId = fileIdentity(zip);
+    let emails: ParsedEmail[] = [];
+
+    for (let index = 0; index < entries.length; index++) {
+      const entry = entries[index];
+
+      try {
+        const raw = bytesToBinary(await readZipEntry(zip, entry));
+        const location = { fileId, offset: 0, length: entry.size, entry: entry.path };
+        const parsed = this.parseEmail(raw, index, false, location);
+        if (parsed) {
+          emails.push(parsed);
+          this.emailCount++;
+        }
+      } catch (error) {
+        this.errors.push({
+          type: 'CRITICAL',
+          message: `Failed to read ${entry.path}: ${(error as Error).message}`,
+          emailIndex: index
+        });
+      }
+
+      const last = index === entries.length - 1;
+      if (emails.length >= this.MESSAGE_BATCH_SIZE || last) {
+        const bytesProcessed = last ? zip.size : entry.headerOffset + entry.compressedSize;
+        yield { emails, bytesProcessed };
+        emails = [];
+      }
+    }
+  }
+
+  parseSourceBatches(source: ParseSource): AsyncGenerator<ParseBatch> {
+    switch (source.kind) {
+      case 'mbox':
+        this.variant ??= source.variant;
+        this.fileId ??= source.fileId;
+        return this.parseFileBatches(source.file, undefined, source.offset);
+      case 'messages':
+        return this.parseMessageBatches(source.files);
+      case 'zip':
+        return this.parseZipBatches(source.file);
     }
+  }
+
+  async parseFile(file: Blob, chunkSize?: number): Promise<ParseResult> {
+    const startTime = performance.now();
+    const parsedEmails: ParsedEmail[] = [];
+
+    for await (const batch of this.parseFileBatches(file, chunkSize)) {
+      parsedEmails.push(...batch.emails);
+    }
+
+    const parseTime = performance.now() - startTime;
 
-    return emails;
+    return {
+      emails: parsedEmails,
+      errors: this.errors,
+      stats: {
+        totalEmails: parsedEmails.length,
+        totalBytes: file.size,
+        parseTime,
+        avgEmailSize: file.size / parsedEmails.length,
+        variant: this.variant
+      }
+    };
   }
 
   parse(fileContent: string): ParseResult {
     const startTime = performance.now();
-    const rawEmails = this.splitMBOX(fileContent);
+    const bytes = new TextEncoder().encode(fileContent);
+    this.variant ??= MBOXStreamReader.detectVariant(bytes);
+    const rawEmails = this.splitMBOX(bytesToBinary(bytes));
     const parsedEmails: ParsedEmail[] = [];
-    const totalBytes = fileContent.length;
+    const totalBytes = bytes.length;
 
     for (let i = 0; i < rawEmails.length; i++) {
       const rawEmail = rawEmails[i];
@@ -244,7 +482,8 @@ export class MBOXParser {
         totalEmails: parsedEmails.length,
         totalBytes,
         parseTime,
-        avgEmailSize: totalBytes / parsedEmails.length
+        avgEmailSize: totalBytes / parsedEmails.length,
+        variant: this.variant
       }
     };
   }
@@ -0,0 +1,396 @@
+// src/services/MBOXStreamReader.ts
+// Incremental, byte-level MBOX message splitting for large files
+import { bytesToBinary } from '../utils/encoding';
+
+export interface RawMessage {
+  raw: string; // one character per byte, see bytesToBinary()
+  offset: number; // byte offset of the From_ line in the source
+  length: number; // byte length, excluding the separating blank line
+}
+
+export interface StreamChunk {
+  messages: RawMessage[];
+  bytesRead: number;
+}
+
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * MBOX flavours differ in how body lines starting with "From " are kept
+ * from looking like message separators:
+ * - mboxo: "From " is quoted as ">From "; existing ">From " is left as is
+ * - mboxrd: any ">*From " gains one more ">", so unquoting is reversible
+ * - mboxcl: quoted like mboxo, plus a Content-Length header per message
+ * - mboxcl2: not quoted at all; Content-Length alone delimits the body
+ */
+export type MBOXVariant = 'mboxo' | 'mboxrd' | 'mboxcl' | 'mboxcl2';
+
+export function usesContentLength(variant: MBOXVariant): boolean {
+  return variant === 'mboxcl' || variant === 'mboxcl2';
+}
+
+const LF = 0x0a;
+const CR = 0x0d;
+const FROM_PREFIX = [0x46, 0x72, 0x6f, 0x6d, 0x20]; // "From "
+
+export const DEFAULT_CHUNK_SIZE = 4 * 1024 * 1024;
+const BOUNDARY_WINDOW_SIZE = 64 * 1024;
+const VARIANT_SAMPLE_SIZE = 1024 * 1024;
+const MAX_PROBED_MESSAGES = 5;
+const CONTENT_LENGTH_REGEX = /^content-length:[ \t]*(\d+)[ \t]*\r?$/im;
+
+// "From " plus at least one non-whitespace character (FROM_LINE_REGEX)
+function isFromLineAt(bytes: Uint8Array, index: number, length: number): boolean {
+  if (index + FROM_PREFIX.length >= length) return false;
+  for (let i = 0; i < FROM_PREFIX.length; i++) {
+    if (bytes[index + i] !== FROM_PREFIX[i]) return false;
+  }
+  const next = bytes[index + FROM_PREFIX.length];
+  return next !== 0x20 && next !== 0x09 && next !== LF && next !== CR;
+}
+
+function followsBlankLineAt(bytes: Uint8Array, index: number): boolean {
+  if (index < 2 || bytes[index - 1] !== LF) return false;
+  if (bytes[index - 2] === LF) return true;
+  return index >= 3 && bytes[index - 2] === CR && bytes[index - 3] === LF;
+}
+
+/**
+ * Splits MBOX bytes into messages as chunks arrive. A From_ line starts a
+ * message when it is at the start of the input or follows a blank line,
+ * matching MBOXParser.splitMBOX. Only the message currently being assembled
+ * is buffered, so memory is bounded by the largest message rather than the
+ * file size. Boundaries split across chunk edges are handled by deferring
+ * the scan of the last few bytes until more data arrives.
+ *
+ * For mboxcl and mboxcl2 a message's Content-Length is trusted when it ends
+ * right before the next From_ line or the end of input, so unquoted From_
+ * lines in the body are skipped; otherwise From_ lines decide as usual.
+ */
+export class MBOXStreamReader {
+  private buffer = new Uint8Array(0);
+  private length = 0;
+  private bufferOffset = 0; // source offset of buffer[0]
+  private scanFrom = 0; // next buffer index to look for a line start
+  private messageStart = -1; // buffer index of the current message, -1 before the first
+  private atLineStart = true; // whether scanFrom is the start of a line
+  private inHeaders = false; // whether the current message's header block is still open
+  private readonly useContentLength: boolean;
+  private readonly decoder = new TextDecoder('utf-8');
+
+  constructor(private readonly baseOffset = 0, variant: MBOXVariant = 'mboxrd') {
+    this.bufferOffset = baseOffset;
+    this.useContentLength = usesContentLength(variant);
+  }
+
+  push(chunk: Uint8Array): RawMessage[] {
+    this.append(chunk);
+    const messages = this.scan(false);
+    this.compact();
+    return messages;
+  }
+
+  end(): RawMessage[] {
+    const messages = this.scan(true);
+    if (this.messageStart !== -1 && this.messageStart < this.length) {
+      messages.push(this.emit(this.messageStart, this.length, false));
+    }
+    this.messageStart = -1;
+    this.length = 0;
+    this.scanFrom = 0;
+    this.atLineStart = true;
+    this.inHeaders = false;
+    return messages;
+  }
+
+  /**
+   * Reads a Blob slice by slice and yields the messages completed by each
+   * chunk together with the number of bytes consumed so far.
+   */
+  static async *read(
+    blob: Blob,
+    chunkSize = DEFAULT_CHUNK_SIZE,
+    baseOffset = 0,
+    variant: MBOXVariant = 'mboxrd'
+  ): AsyncGenerator<StreamChunk> {
+    const reader = new MBOXStreamReader(baseOffset, variant);
+    let position = 0;
+
+    while (position < blob.size) {
+      const end = Math.min(position + chunkSize, blob.size);
+      const chunk = new Uint8Array(await blob.slice(position, end).arrayBuffer());
+      position = end;
+
+      const messages = reader.push(chunk);
+      if (position >= blob.size) {
+        messages.push(...reader.end());
+      }
+      yield { messages, bytesRead: position };
+    }
+  }
+
+  /**
+   * Divides a Blob into at most `count` ranges of roughly equal size, each
+   * starting on a message boundary and ending before the blank line that
+   * separates it from the next. Parsing every range with
+   * `read(blob.slice(start, end), chunkSize, start)` yields the same
+   * messages as reading the whole Blob. Fewer ranges come back when the
+   * tail of the file has no further boundaries.
+   */
+  static async splitRanges(blob: Blob, count: number): Promise<ByteRange[]> {
+    const ranges: ByteRange[] = [{ start: 0, end: blob.size }];
+
+    for (let i = 1; i < count; i++) {
+      const last = ranges[ranges.length - 1];
+      const target = Math.floor((blob.size * i) / count);
+      const gap = await MBOXStreamReader.findBoundary(blob, Math.max(target, last.start + 1));
+      if (!gap) break;
+
+      last.end = gap.start;
+      ranges.push({ start: gap.end, end: blob.size });
+    }
+
+    return ranges;
+  }
+
+  /**
+   * Finds the first From_ line at or after `from` that follows a blank
+   * line, reading the Blob in windows. Returns the span of the blank line's
+   * terminator, which belongs to neither message, or null if there is none.
+   */
+  private static async findBoundary(blob: Blob, from: number): Promise<ByteRange | null> {
+    const lookback = 3; // enough to see a preceding CRLF blank line
+    let position = from;
+
+    while (position < blob.size) {
+      const windowStart = Math.max(0, position - lookback);
+      const windowEnd = Math.min(blob.size, position + BOUNDARY_WINDOW_SIZE);
+      const bytes = new Uint8Array(await blob.slice(windowStart, windowEnd).arrayBuffer());
+
+      for (let i = position - windowStart; i < bytes.length; i++) {
+        if (isFromLineAt(bytes, i, bytes.length) && followsBlankLineAt(bytes, i)) {
+          const terminator = bytes[i - 2] === CR ? 2 : 1;
+          return { start: windowStart + i - terminator, end: windowStart + i };
+        }
+      }
+
+      if (windowEnd >= blob.size) break;
+      // A From_ line cut by the window edge is rescanned in the next window
+      position = windowEnd - FROM_PREFIX.length;
+    }
+
+    return null;
+  }
+
+  /**
+   * Guesses the variant from the first messages. Content-Length headers
+   * that frame the messages exactly mean mboxcl when bodies show ">From "
+   * quoting and no bare "From " lines, and mboxcl2 otherwise. Anything else is read as mboxrd: mboxo and
+   * mboxrd only differ on ">>From " lines, which either could contain, so
+   * mboxo has to be requested explicitly. `complete` says whether `bytes`
+   * is the whole file rather than a sample of its start.
+   */
+  static detectVariant(bytes: Uint8Array, complete = true): MBOXVariant {
+    // latin1 maps each byte to one character, so string offsets are byte offsets
+    const text = new TextDecoder('latin1').decode(bytes);
+    const first = /(?:^|\n\r?\n)(?=From \S)/.exec(text);
+    if (!first) return 'mboxrd';
+
+    let start = first.index + first[0].length;
+    let framed = false;
+    let quoted = false;
+    let unquoted = false;
+
+    for (let n = 0; n < MAX_PROBED_MESSAGES; n++) {
+      const headerEnd = /\r?\n\r?\n/g;
+      headerEnd.lastIndex = start;
+      const blank = headerEnd.exec(text);
+      if (!blank) break;
+
+      const length = CONTENT_LENGTH_REGEX.exec(text.substring(start, blank.index));
+      if (!length) return 'mboxrd';
+
+      const bodyStart = blank.index + blank[0].length;
+      const bodyEnd = bodyStart + Number(length[1]);
+      const body = text.substring(bodyStart, bodyEnd);
+      quoted ||= /^>+From /m.test(body);
+      unquoted ||= /^From /m.test(body);
+      framed = true;
+
+      if (bodyEnd > text.length) {
+        if (complete) return 'mboxrd';
+        break; // runs past the sample, so it cannot be checked
+      }
+
+      const separator = /^\r?\n(?=From \S)/.exec(text.substring(bodyEnd, bodyEnd + 16));
+      if (!separator) {
+        if (complete && /^[\r\n]*$/.test(text.substring(bodyEnd))) break;
+        if (!complete && bodyEnd + 16 > text.length) break;
+        return 'mboxrd';
+      }
+      start = bodyEnd + separator[0].length;
+    }
+
+    if (!framed) return 'mboxrd';
+    return quoted && !unquoted ? 'mboxcl' : 'mboxcl2';
+  }
+
+  /**
+   * Detects the variant of a Blob from a sample of its start.
+   */
+  static async detectBlobVariant(blob: Blob): Promise<MBOXVariant> {
+    const sample = new Uint8Array(await blob.slice(0, VARIANT_SAMPLE_SIZE).arrayBuffer());
+    return MBOXStreamReader.detectVariant(sample, blob.size <= VARIANT_SAMPLE_SIZE);
+  }
+
+  private append(chunk: Uint8Array): void {
+    const needed = this.length + chunk.length;
+    if (needed > this.buffer.length) {
+      const grown = new Uint8Array(Math.max(needed, this.buffer.length * 2));
+      grown.set(this.buffer.subarray(0, this.length));
+      this.buffer = grown;
+    }
+    this.buffer.set(chunk, this.length);
+    this.length = needed;
+  }
+
+  private isFromLine(index: number): boolean {
+    return isFromLineAt(this.buffer, index, this.length);
+  }
+
+  private followsBlankLine(index: number): boolean {
+    if (this.bufferOffset + index === this.baseOffset) return true;
+    return followsBlankLineAt(this.buffer, index);
+  }
+
+  private scan(final: boolean): RawMessage[] {
+    const messages: RawMessage[] = [];
+    // Without more data the last bytes of a line start cannot be classified yet
+    const limit = final ? this.length : this.length - (FROM_PREFIX.length + 1);
+    let lineStart = this.scanFrom;
+
+    if (!this.atLineStart) {
+      const newline = this.findNewline(lineStart);
+      if (newline === -1) {
+        this.scanFrom = this.length;
+        return messages;
+      }
+      lineStart = newline + 1;
+      this.atLineStart = true;
+    }
+
+    let framedBoundary = -1; // a From_ line reached through Content-Length
+
+    while (lineStart < this.length && lineStart <= limit) {
+      if (
+        this.isFromLine(lineStart)
+        && (lineStart === framedBoundary || this.followsBlankLine(lineStart))
+      ) {
+        if (this.messageStart !== -1) {
+          messages.push(this.emit(this.messageStart, lineStart, true));
+        }
+        this.messageStart = lineStart;
+        this.inHeaders = true;
+      } else if (this.inHeaders && this.isBlankLine(lineStart)) {
+        const bodyEnd = this.findFramedEnd(lineStart, final);
+        if (bodyEnd === null) {
+          // Whether the Content-Length holds cannot be told yet
+          this.scanFrom = lineStart;
+          return messages;
+        }
+
+        this.inHeaders = false;
+        if (bodyEnd !== -1) {
+          lineStart = bodyEnd;
+          framedBoundary = bodyEnd;
+          continue;
+        }
+      }
+
+      const newline = this.findNewline(lineStart);
+      if (newline === -1) {
+        // The rest of this line has not arrived yet
+        this.scanFrom = this.length;
+        this.atLineStart = false;
+        return messages;
+      }
+      lineStart = newline + 1;
+    }
+
+    this.scanFrom = lineStart;
+    return messages;
+  }
+
+  private isBlankLine(index: number): boolean {
+    return this.buffer[index] === LF
+      || (this.buffer[index] === CR && index + 1 < this.length && this.buffer[index + 1] === LF);
+  }
+
+  /**
+   * Applies the Content-Length header of the current message, whose header
+   * block ends with the blank line at `blankLine`. Returns where the next
+   * From_ line (or the end of input) starts, -1 when there is no usable
+   * Content-Length, or null when more data is needed to decide.
+   */
+  private findFramedEnd(blankLine: number, final: boolean): number | null {
+    if (!this.useContentLength) return -1;
+
+    const headers = this.decoder.decode(this.buffer.subarray(this.messageStart, blankLine));
+    const match = CONTENT_LENGTH_REGEX.exec(headers);
+    if (!match) return -1;
+
+    const bodyStart = blankLine + (this.buffer[blankLine] === CR ? 2 : 1);
+    const bodyEnd = bodyStart + Number(match[1]);
+    if (!final && bodyEnd + FROM_PREFIX.length + 3 > this.length) return null;
+    if (bodyEnd > this.length) return -1;
+
+    let next = bodyEnd;
+    if (this.buffer[next] === CR && this.buffer[next + 1] === LF) next += 2;
+    else if (this.buffer[next] === LF) next++;
+
+    if (next > bodyEnd && this.isFromLine(next)) return next;
+
+    for (let i = bodyEnd; i < this.length; i++) {
+      if (this.buffer[i] !== LF && this.buffer[i] !== CR) return -1;
+    }
+    return final ? this.length : -1;
+  }
+
+  private findNewline(from: number): number {
+    const newline = this.buffer.indexOf(LF, from);
+    return newline === -1 || newline >= this.length ? -1 : newline;
+  }
+
+  private emit(start: number, end: number, beforeBoundary: boolean): RawMessage {
+    let stop = end;
+    // Drop the line terminator that belongs to the separating blank line
+    if (beforeBoundary && stop > start && this.buffer[stop - 1] === LF) {
+      stop--;
+      if (stop > start && this.buffer[stop - 1] === CR) stop--;
+    }
+
+    return {
+      raw: bytesToBinary(this.buffer.subarray(start, stop)),
+      offset: this.bufferOffset + start,
+      length: stop - start
+    };
+  }
+
+  private compact(): void {
+    // Keep the message in progress, or a few bytes of lookback before the first
+    const keepFrom = this.messageStart !== -1
+      ? this.messageStart
+      : Math.max(0, Math.min(this.scanFrom, this.length) - 3);
+
+    if (keepFrom === 0) return;
+
+    this.buffer.copyWithin(0, keepFrom, this.length);
+    this.length -= keepFrom;
+    this.bufferOffset += keepFrom;
+    this.scanFrom -= keepFrom;
+    if (this.messageStart !== -1) this.messageStart -= keepFrom;
+  }
+}
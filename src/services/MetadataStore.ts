@@ -0,0 +1,212 @@
+// src/services/MetadataStore.ts
+// Per-file persistence of favorites, notes and header preferences in IndexedDB
+import type { HeaderVisibilityPrefs, Note, UserMetadata, WorkingSet } from '../types';
+import { fileFingerprint, hashString } from '../utils/identity';
+import { openDatabase, requestResult, transactionDone } from '../utils/idb';
+
+export interface MetadataStoreOptions {
+  dbName?: string;
+  factory?: IDBFactory; // defaults to the global indexedDB
+}
+
+export interface StoredFileInfo {
+  fingerprint: string;
+  fileName: string;
+  fileSize: number;
+  lastUpdated: Date;
+}
+
+export interface FileMetadata {
+  fingerprint: string;
+  metadata: UserMetadata;
+  restored: boolean; // false when the file has not been analyzed before
+}
+
+interface MetadataRecord extends StoredFileInfo {
+  metadata: UserMetadata; // Sets, Maps and Dates survive IndexedDB's structured clone
+}
+
+const DB_VERSION = 2;
+const STORE = 'metadata';
+const WORKING_SETS = 'workingSets';
+
+export function createUserMetadata(): UserMetadata {
+  return {
+    favorites: new Set(),
+    notes: new Map(),
+    headerPreferences: {
+      hiddenHeaders: new Set(),
+      alwaysShowHeaders: new Set(),
+      defaultView: 'all'
+    },
+    lastUpdated: new Date()
+  };
+}
+
+/**
+ * Stores UserMetadata per source file, keyed by fileFingerprint(), so that
+ * reopening a previously analyzed file restores its favorites and notes.
+ * Updates read and write the record in one transaction, so two tabs
+ * editing the same file do not lose each other's changes. Working sets,
+ * which span files, are kept alongside in a store of their own.
+ */
+export class MetadataStore {
+  private factory: IDBFactory;
+  private dbName: string;
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(options: MetadataStoreOptions = {}) {
+    this.factory = options.factory ?? indexedDB;
+    this.dbName = options.dbName ?? 'eama-metadata';
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.db ??= openDatabase(this.factory, this.dbName, DB_VERSION, (db) => {
+      if (!db.objectStoreNames.contains(STORE)) {
+        db.createObjectStore(STORE, { keyPath: 'fingerprint' });
+      }
+      if (!db.objectStoreNames.contains(WORKING_SETS)) {
+        db.createObjectStore(WORKING_SETS, { keyPath: 'id' });
+      }
+    });
+    return this.db;
+  }
+
+  /**
+   * Fingerprints a file and loads what was saved for it, or fresh metadata
+   * when it is new. Either way the returned fingerprint is the key for saving.
+   */
+  async restore(file: Blob): Promise<FileMetadata> {
+    const fingerprint = await fileFingerprint(file);
+    const metadata = await this.load(fingerprint);
+    return { fingerprint, metadata: metadata ?? createUserMetadata(), restored: metadata !== null };
+  }
+
+  async load(fingerprint: string): Promise<UserMetadata | null> {
+    const db = await this.open();
+    const record = await requestResult<MetadataRecord | undefined>(
+      db.transaction(STORE).objectStore(STORE).get(fingerprint)
+    );
+    return record?.metadata ?? null;
+  }
+
+  async save(fingerprint: string, metadata: UserMetadata, file?: Blob): Promise<void> {
+    await this.update(fingerprint, () => metadata, file);
+  }
+
+  /** Returns whether the email is a favorite afterwards. */
+  async toggleFavorite(fingerprint: string, emailUid: string): Promise<boolean> {
+    let favorite = false;
+    await this.update(fingerprint, (metadata) => {
+      favorite = !metadata.favorites.has(emailUid);
+      if (favorite) {
+        metadata.favorites.add(emailUid);
+      } else {
+        metadata.favorites.delete(emailUid);
+      }
+      return metadata;
+    });
+    return favorite;
+  }
+
+  /**
+   * Creates or replaces the note on an email, keeping its creation time
+   * when it already had one.
+   */
+  async saveNote(fingerprint: string, emailUid: string, content: string, tags?: string[]): Promise<Note> {
+    let note: Note | undefined;
+    await this.update(fingerprint, (metadata) => {
+      const now = new Date();
+      const existing = metadata.notes.get(emailUid);
+      note = {
+        uid: existing?.uid ?? `note-${hashString(`${emailUid}\n${now.toISOString()}`)}`,
+        emailUid,
+        content,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+        tags: tags?.length ? tags : undefined
+      };
+      metadata.notes.set(emailUid, note);
+      return metadata;
+    });
+    return note!;
+  }
+
+  async deleteNote(fingerprint: string, emailUid: string): Promise<void> {
+    await this.update(fingerprint, (metadata) => {
+      metadata.notes.delete(emailUid);
+      return metadata;
+    });
+  }
+
+  async setHeaderPreferences(fingerprint: string, preferences: HeaderVisibilityPrefs): Promise<void> {
+    await this.update(fingerprint, (metadata) => ({ ...metadata, headerPreferences: preferences }));
+  }
+
+  /** Files with saved metadata, most recently updated first. */
+  async list(): Promise<StoredFileInfo[]> {
+    const db = await this.open();
+    const records = await requestResult<MetadataRecord[]>(db.transaction(STORE).objectStore(STORE).getAll());
+    return records
+      .map(({ fingerprint, fileName, fileSize, lastUpdated }) => ({ fingerprint, fileName, fileSize, lastUpdated }))
+      .sort((a, b) => b.lastUpdated.getTime() - a.lastUpdated.getTime());
+  }
+
+  async delete(fingerprint: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(STORE, 'readwrite');
+    transaction.objectStore(STORE).delete(fingerprint);
+    await transactionDone(transaction);
+  }
+
+  /** Saved working sets, oldest first. */
+  async listWorkingSets(): Promise<WorkingSet[]> {
+    const db = await this.open();
+    const sets = await requestResult<WorkingSet[]>(db.transaction(WORKING_SETS).objectStore(WORKING_SETS).getAll());
+    return sets.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async saveWorkingSet(set: WorkingSet): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(WORKING_SETS, 'readwrite');
+    transaction.objectStore(WORKING_SETS).put(set);
+    await transactionDone(transaction);
+  }
+
+  async deleteWorkingSet(id: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(WORKING_SETS, 'readwrite');
+    transaction.objectStore(WORKING_SETS).delete(id);
+    await transactionDone(transaction);
+  }
+
+  async close(): Promise<void> {
+    const db = this.db;
+    this.db = null;
+    (await db)?.close();
+  }
+
+  private async update(
+    fingerprint: string,
+    mutate: (metadata: UserMetadata) => UserMetadata,
+    file?: Blob
+  ): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(STORE, 'readwrite');
+    const store = transaction.objectStore(STORE);
+    const done = transactionDone(transaction);
+
+    const existing = await requestResult<MetadataRecord | undefined>(store.get(fingerprint));
+    const lastUpdated = new Date();
+    const record: MetadataRecord = {
+      fingerprint,
+      fileName: file instanceof File ? file.name : existing?.fileName ?? '',
+      fileSize: file?.size ?? existing?.fileSize ?? 0,
+      lastUpdated,
+      metadata: { ...mutate(existing?.metadata ?? createUserMetadata()), lastUpdated }
+    };
+    store.put(record);
+
+    await done;
+  }
+}
@@ -0,0 +1,129 @@
+// src/services/SearchEngine.ts
+import type { SearchQuery, SearchResults } from '../types';
+import type { IndexSegment } from './InvertedIndex';
+import type { ParsedEmail } from './MBOXParser';
+import { toSearchDocument } from './SearchIndex';
+
+export interface SearchOptions {
+  page?: number; // counts from 0
+  pageSize?: number;
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+
+interface PendingSearch {
+  query: SearchQuery;
+  page: number;
+  pageSize: number;
+  startTime: number;
+  resolve: (results: SearchResults<ParsedEmail>) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Searches the loaded emails on a worker, so queries over large archives
+ * do not block rendering. The worker holds a text-only projection of each
+ * email and answers with uids, which are resolved to the emails kept here.
+ * Messages to the worker are handled in order, so a search sees every
+ * email and user state change made before it.
+ */
+export class SearchEngine {
+  private worker: Worker;
+  private emails = new Map<string, ParsedEmail>();
+  private pending = new Map<number, PendingSearch>();
+  private requestCounter = 0;
+
+  constructor() {
+    this.worker = new Worker(
+      new URL('../workers/search-indexer.worker.ts', import.meta.url),
+      { type: 'module' }
+    );
+
+    this.worker.onmessage = (e: MessageEvent) => {
+      const { type, requestId, data } = e.data;
+      const request = this.pending.get(requestId);
+
+      if (!request) {
+        if (type === 'error') console.error('Search worker error:', data.message);
+        return;
+      }
+      this.pending.delete(requestId);
+
+      if (type === 'error') {
+        request.reject(new Error(data.message));
+        return;
+      }
+
+      request.resolve({
+        emails: (data.uids as string[]).map((uid) => this.emails.get(uid)!).filter(Boolean),
+        total: data.total,
+        query: request.query,
+        executionTime: performance.now() - request.startTime,
+        page: request.page,
+        pageSize: request.pageSize
+      });
+    };
+
+    this.worker.onerror = (error: ErrorEvent) => {
+      console.error('Search worker error:', error);
+      this.rejectPending(new Error(`Search worker error: ${error.message}`));
+    };
+  }
+
+  get size(): number {
+    return this.emails.size;
+  }
+
+  /**
+   * Makes emails searchable, in the order given. An email whose uid is
+   * already known replaces the earlier one, e.g. once its body is loaded.
+   * The index segment built while parsing saves indexing them again, and
+   * sending their bodies to the worker.
+   */
+  addEmails(emails: ParsedEmail[], index?: IndexSegment): void {
+    if (emails.length === 0) return;
+
+    for (const email of emails) {
+      this.emails.set(email.uid, email);
+    }
+    const documents = emails.map((email) => toSearchDocument(email, !index));
+    this.worker.postMessage({ command: 'add', data: { documents, index } });
+  }
+
+  clear(): void {
+    this.emails.clear();
+    this.worker.postMessage({ command: 'clear' });
+  }
+
+  /** The uids the favorites and hasNotes filters select. */
+  setUserState(favorites: Iterable<string>, noted: Iterable<string>): void {
+    this.worker.postMessage({
+      command: 'userState',
+      data: { favorites: [...favorites], noted: [...noted] }
+    });
+  }
+
+  search(query: SearchQuery, options: SearchOptions = {}): Promise<SearchResults<ParsedEmail>> {
+    const requestId = ++this.requestCounter;
+    const page = options.page ?? 0;
+    const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(requestId, { query, page, pageSize, startTime: performance.now(), resolve, reject });
+      this.worker.postMessage({ command: 'search', requestId, data: { query, page, pageSize } });
+    });
+  }
+
+  destroy(): void {
+    this.rejectPending(new Error('Search engine destroyed'));
+    this.worker.terminate();
+    this.emails.clear();
+  }
+
+  private rejectPending(error: Error): void {
+    for (const request of this.pending.values()) {
+      request.reject(error);
+    }
+    this.pending.clear();
+  }
+}
@@ -0,0 +1,267 @@
+// src/services/SearchIndex.ts
+// Search core over loaded emails, shared by the search worker and the unit tests
+import type { QueryNode, SearchQuery } from '../types';
+import { formatAddress } from '../utils/addresses';
+import { tokenize } from '../utils/tokenize';
+import { buildIndexSegment, InvertedIndex, type IndexSegment, type TextClause } from './InvertedIndex';
+import type { ParsedEmail } from './MBOXParser';
+
+/**
+ * The searchable projection of an email. It is what crosses to the search
+ * worker, so bodies are text only and attachments are left behind. The
+ * body is only read to index it.
+ */
+export interface SearchDocument {
+  uid: string;
+  subject: string;
+  from: string; // names and addresses
+  to: string; // To, Cc and Bcc
+  date: number | null; // ms since the epoch
+  headers: Record<string, string[]>;
+  body: string;
+  size: number; // rawSize
+  attachments: number;
+}
+
+// Favorites and notes live on the main thread; the worker gets the uids
+export interface UserState {
+  favorites: string[];
+  noted: string[];
+}
+
+export interface SearchPage {
+  uids: string[];
+  total: number;
+}
+
+interface IndexedDocument {
+  uid: string;
+  subject: string;
+  from: string;
+  to: string;
+  date: number | null;
+  headers: Map<string, string[]>;
+  size: number;
+  attachments: number;
+}
+
+// The index lookups of a query or of a leaf of its expression, made once per search
+interface PreparedQuery {
+  query: SearchQuery;
+  scores: Map<string, number> | null; // documents matching the text
+  inBody: Map<string, number> | null;
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&');
+}
+
+/** With `withBody` false the body is left empty, for emails whose index segment is already built. */
+export function toSearchDocument(email: ParsedEmail, withBody = true): SearchDocument {
+  const { metadata } = email;
+  const date = metadata.date ? Date.parse(metadata.date) : NaN;
+
+  return {
+    uid: email.uid,
+    subject: metadata.subject,
+    from: metadata.from.map(formatAddress).join(', '),
+    to: [...metadata.to, ...metadata.cc, ...metadata.bcc].map(formatAddress).join(', '),
+    date: Number.isNaN(date) ? null : date,
+    headers: email.headers,
+    body: withBody ? email.body.text || htmlToText(email.body.html) : '',
+    size: email.rawSize,
+    attachments: email.body.attachments.length
+  };
+}
+
+// Words must all match; "quoted words" match as a phrase and a trailing * matches as a prefix
+function textClauses(text: string): TextClause[] {
+  const clauses: TextClause[] = [];
+  for (const [, phrase, word] of text.matchAll(/"([^"]*)"?|(\S+)/g)) {
+    const prefix = word?.endsWith('*') ?? false;
+    const terms = tokenize(phrase ?? word);
+    if (terms.length > 0) clauses.push({ terms, prefix });
+  }
+  return clauses;
+}
+
+function intersect(scores: Map<string, number> | null, matches: Map<string, number>): Map<string, number> {
+  if (!scores) return matches;
+  const both = new Map<string, number>();
+  for (const [uid, score] of scores) {
+    const match = matches.get(uid);
+    if (match !== undefined) both.set(uid, score + match);
+  }
+  return both;
+}
+
+// The leaves whose text ranks results; text under a negation does not
+function rankedLeaves(node: QueryNode | undefined): SearchQuery[] {
+  switch (node?.type) {
+    case 'and':
+    case 'or':
+      return node.children.flatMap(rankedLeaves);
+    case 'match':
+      return [node.query];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Evaluates SearchQuery filters over documents. Free text and the body
+ * filter go through the inverted index, and text results are ranked by
+ * relevance; otherwise documents keep the order they were added in. The
+ * other text fields match case-insensitive substrings. A `false`
+ * favorites or hasNotes selects the emails without one. A parsed query
+ * `expression` is evaluated leaf by leaf, with each leaf a SearchQuery.
+ */
+export class SearchIndex {
+  private documents: IndexedDocument[] = [];
+  private positions = new Map<string, number>();
+  private inverted = new InvertedIndex();
+  private favorites = new Set<string>();
+  private noted = new Set<string>();
+
+  get size(): number {
+    return this.documents.length;
+  }
+
+  /**
+   * Adds documents, replacing those already present with the same uid.
+   * Their index segment is built here unless it comes with them.
+   */
+  add(documents: SearchDocument[], segment?: IndexSegment): void {
+    for (const document of documents) {
+      const indexed: IndexedDocument = {
+        uid: document.uid,
+        subject: document.subject.toLowerCase(),
+        from: document.from.toLowerCase(),
+        to: document.to.toLowerCase(),
+        date: document.date,
+        headers: new Map(Object.entries(document.headers).map(
+          ([name, values]) => [name.toLowerCase(), values.map((value) => value.toLowerCase())]
+        )),
+        size: document.size,
+        attachments: document.attachments
+      };
+
+      const position = this.positions.get(document.uid);
+      if (position === undefined) {
+        this.positions.set(document.uid, this.documents.length);
+        this.documents.push(indexed);
+      } else {
+        this.documents[position] = indexed;
+      }
+    }
+
+    this.inverted.add(documents.map((document) => document.uid), segment ?? buildIndexSegment(documents));
+  }
+
+  clear(): void {
+    this.documents = [];
+    this.positions.clear();
+    this.inverted.clear();
+  }
+
+  setUserState(state: UserState): void {
+    this.favorites = new Set(state.favorites);
+    this.noted = new Set(state.noted);
+  }
+
+  /** Returns one page of matching uids, or all of them without a page size; `page` counts from 0. */
+  search(query: SearchQuery, page = 0, pageSize?: number): SearchPage {
+    const prepared = new Map<SearchQuery, PreparedQuery>();
+    const prepare = (leaf: SearchQuery) => {
+      let lookups = prepared.get(leaf);
+      if (!lookups) prepared.set(leaf, lookups = this.prepare(leaf));
+      return lookups;
+    };
+
+    const root = prepare(query);
+    const candidates = root.scores
+      ? [...root.scores.keys()].map((uid) => this.positions.get(uid)!).sort((a, b) => a - b).map((i) => this.documents[i])
+      : this.documents;
+    const matches = candidates.filter((document) =>
+      this.matches(document, root) && (!query.expression || this.evaluate(query.expression, document, prepare))
+    );
+
+    const rankings = [query, ...rankedLeaves(query.expression)].flatMap((leaf) => prepare(leaf).scores ?? []);
+    if (rankings.length > 0) {
+      const scores = new Map(matches.map((document) => [
+        document.uid,
+        rankings.reduce((sum, ranking) => sum + (ranking.get(document.uid) ?? 0), 0)
+      ]));
+      matches.sort((a, b) => scores.get(b.uid)! - scores.get(a.uid)!);
+    }
+
+    const paged = pageSize === undefined ? matches : matches.slice(page * pageSize, (page + 1) * pageSize);
+    return {
+      uids: paged.map((document) => document.uid),
+      total: matches.length
+    };
+  }
+
+  private prepare(query: SearchQuery): PreparedQuery {
+    let scores: Map<string, number> | null = null;
+    for (const clause of textClauses(query.text ?? '')) {
+      scores = intersect(scores, this.inverted.match(clause));
+    }
+
+    const body = tokenize(query.bodyContains ?? '');
+    const inBody = body.length > 0 ? this.inverted.match({ terms: body }, ['body']) : null;
+
+    return { query, scores, inBody };
+  }
+
+  private evaluate(node: QueryNode, document: IndexedDocument, prepare: (leaf: SearchQuery) => PreparedQuery): boolean {
+    switch (node.type) {
+      case 'and':
+        return node.children.every((child) => this.evaluate(child, document, prepare));
+      case 'or':
+        return node.children.some((child) => this.evaluate(child, document, prepare));
+      case 'not':
+        return !this.evaluate(node.child, document, prepare);
+      case 'match':
+        return this.matches(document, prepare(node.query));
+    }
+  }
+
+  private matches(document: IndexedDocument, { query, scores, inBody }: PreparedQuery): boolean {
+    const includes = (field: string, value: string | undefined) =>
+      !value || field.includes(value.toLowerCase());
+
+    if (scores && !scores.has(document.uid)) return false;
+    if (inBody && !inBody.has(document.uid)) return false;
+    if (!includes(document.subject, query.subject)) return false;
+    if (!includes(document.from, query.from)) return false;
+    if (!includes(document.to, query.to)) return false;
+
+    if (query.dateFrom || query.dateTo) {
+      if (document.date === null) return false;
+      if (query.dateFrom && document.date < query.dateFrom.getTime()) return false;
+      if (query.dateTo && document.date > query.dateTo.getTime()) return false;
+    }
+
+    if (query.favorites !== undefined && this.favorites.has(document.uid) !== query.favorites) return false;
+    if (query.hasNotes !== undefined && this.noted.has(document.uid) !== query.hasNotes) return false;
+    if (query.hasAttachment !== undefined && (document.attachments > 0) !== query.hasAttachment) return false;
+    if (query.largerThan !== undefined && !(document.size > query.largerThan)) return false;
+    if (query.smallerThan !== undefined && !(document.size < query.smallerThan)) return false;
+
+    for (const [name, value] of Object.entries(query.headers ?? {})) {
+      const values = document.headers.get(name.toLowerCase());
+      const needle = value.toLowerCase();
+      if (!values?.some((v) => v.includes(needle))) return false;
+    }
+
+    return true;
+  }
+}
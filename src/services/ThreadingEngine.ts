@@ -0,0 +1,303 @@
+// src/services/ThreadingEngine.ts
+// Conversation threading after Jamie Zawinski's algorithm (https://www.jwz.org/doc/threading.html)
+import type { Email } from '../types';
+import { stableMessageId } from '../utils/identity';
+
+// Parsed and cached emails both qualify, whatever their date type
+export interface ThreadableEmail {
+  uid: string;
+  messageId: string;
+  metadata: Pick<Email['metadata'], 'subject' | 'inReplyTo' | 'references'> & { date: string | Date | null };
+  location?: { fileId: string };
+}
+
+/** A message in a thread, or a placeholder for a parent that is not loaded. */
+export interface ThreadNode<E extends ThreadableEmail = ThreadableEmail> {
+  messageId?: string;
+  email: E | null;
+  children: ThreadNode<E>[];
+}
+
+export interface Thread<E extends ThreadableEmail = ThreadableEmail> {
+  id: string;
+  subject: string;
+  root: ThreadNode<E>;
+  size: number; // messages, not counting placeholders
+  fileIds: string[]; // source files the messages came from
+  latest: number; // time of the newest message, or 0 when none is dated
+}
+
+export interface ThreadingOptions {
+  groupBySubject?: boolean; // join threads broken by clients that drop References (default true)
+}
+
+interface Container<E> {
+  messageId?: string;
+  email: E | null;
+  parent: Container<E> | null;
+  children: Container<E>[];
+}
+
+const REPLY_PREFIX = /^\s*((re|fwd?|aw|sv|wg|antw)(\[\d+\])?:\s*|\[[^\]]*\]\s*)+/i;
+
+/**
+ * The subject without Re:, Fwd: and [list] prefixes, for grouping. Empty
+ * for the parser's "(No Subject)", which says nothing about the thread.
+ */
+export function baseSubject(subject: string): string {
+  const base = subject.replace(REPLY_PREFIX, '').replace(/\s+/g, ' ').trim().toLowerCase();
+  return base === '(no subject)' ? '' : base;
+}
+
+function isReply(subject: string): boolean {
+  return /^\s*(re|aw|sv|antw)(\[\d+\])?:/i.test(subject);
+}
+
+// Message-IDs in a References or In-Reply-To value; anything else is noise
+function messageIds(value: string): string[] {
+  return value.match(/<[^<>\s]+>/g) ?? [];
+}
+
+function referencesOf(email: ThreadableEmail): string[] {
+  const references = messageIds((email.metadata.references ?? []).join(' '));
+  const inReplyTo = messageIds(email.metadata.inReplyTo ?? '')[0];
+  // In-Reply-To names the direct parent when References is missing or stops short
+  if (inReplyTo && references[references.length - 1] !== inReplyTo) references.push(inReplyTo);
+  return references;
+}
+
+function timeOf(email: ThreadableEmail | null): number {
+  const time = email?.metadata.date ? new Date(email.metadata.date).getTime() : NaN;
+  return isNaN(time) ? 0 : time;
+}
+
+function isAncestor<E>(ancestor: Container<E>, container: Container<E>): boolean {
+  for (let c: Container<E> | null = container; c; c = c.parent) {
+    if (c === ancestor) return true;
+  }
+  return false;
+}
+
+function unlink<E>(container: Container<E>): void {
+  if (!container.parent) return;
+  const siblings = container.parent.children;
+  siblings.splice(siblings.indexOf(container), 1);
+  container.parent = null;
+}
+
+function link<E>(parent: Container<E>, child: Container<E>): void {
+  unlink(child);
+  child.parent = parent;
+  parent.children.push(child);
+}
+
+/**
+ * Builds conversation threads from Message-ID, In-Reply-To and References.
+ * Parents that are referenced but not loaded become
+ * placeholder nodes, so replies still hang together. Threads are built
+ * over every email given, so a conversation split across several loaded
+ * files comes out as one thread. Messages whose client dropped the
+ * references are joined by subject, as in JWZ's algorithm.
+ */
+export class ThreadingEngine {
+  private readonly groupBySubject: boolean;
+
+  constructor(options: ThreadingOptions = {}) {
+    this.groupBySubject = options.groupBySubject ?? true;
+  }
+
+  /** Threads with the newest activity first; messages within a thread by date. */
+  thread<E extends ThreadableEmail>(emails: E[]): Thread<E>[] {
+    let roots = this.prune(this.rootSet(this.link(emails)));
+    if (this.groupBySubject) roots = this.groupSubjects(roots);
+
+    return roots
+      .map((root) => this.toThread(root))
+      .sort((a, b) => b.latest - a.latest);
+  }
+
+  private link<E extends ThreadableEmail>(emails: E[]): Container<E>[] {
+    const byId = new Map<string, Container<E>>();
+    const all: Container<E>[] = [];
+    const containerFor = (messageId: string): Container<E> => {
+      let container = byId.get(messageId);
+      if (!container) {
+        container = { messageId, email: null, parent: null, children: [] };
+        byId.set(messageId, container);
+        all.push(container);
+      }
+      return container;
+    };
+
+    for (const email of emails) {
+      const messageId = stableMessageId(email.messageId);
+      let container: Container<E>;
+      if (messageId && !byId.get(messageId)?.email) {
+        container = containerFor(messageId);
+        container.email = email;
+      } else {
+        // No usable Message-ID, or another copy of one already placed
+        container = { email, parent: null, children: [] };
+        all.push(container);
+      }
+
+      // Chain the references, each the parent of the next, without undoing earlier links
+      const references = referencesOf(email).filter((id) => id !== messageId);
+      let previous: Container<E> | null = null;
+      for (const id of references) {
+        const current = containerFor(id);
+        if (previous && !current.parent && !isAncestor(current, previous)) link(previous, current);
+        previous = current;
+      }
+
+      // The message's own references decide its parent
+      if (previous && !isAncestor(container, previous)) {
+        link(previous, container);
+      } else if (!previous) {
+        unlink(container);
+      }
+    }
+
+    return all;
+  }
+
+  private rootSet<E>(containers: Container<E>[]): Container<E>[] {
+    return containers.filter((container) => !container.parent);
+  }
+
+  // Drops placeholders with nothing under them and collapses chains of them,
+  // so one placeholder stands for the missing messages above a reply
+  private prune<E>(containers: Container<E>[]): Container<E>[] {
+    return containers.flatMap((container) => {
+      container.children = this.prune(container.children);
+      for (const child of container.children) child.parent = container;
+
+      if (container.email) return [container];
+      if (container.children.length === 0) return [];
+
+      const [only] = container.children;
+      if (container.children.length === 1 && !only.email) {
+        only.parent = container.parent;
+        return [only];
+      }
+      return [container];
+    });
+  }
+
+  private subjectOf<E extends ThreadableEmail>(container: Container<E>): string {
+    if (container.email) return container.email.metadata.subject;
+    return container.children.map((child) => this.subjectOf(child)).find(Boolean) ?? '';
+  }
+
+  private groupSubjects<E extends ThreadableEmail>(roots: Container<E>[]): Container<E>[] {
+    const bySubject = new Map<string, Container<E>>();
+    const grouped: Container<E>[] = [];
+
+    for (const root of roots) {
+      const subject = baseSubject(this.subjectOf(root));
+      const other = subject ? bySubject.get(subject) : undefined;
+      if (!other) {
+        if (subject) bySubject.set(subject, root);
+        grouped.push(root);
+        continue;
+      }
+
+      const merged = this.mergeBySubject(other, root);
+      if (merged !== other) {
+        grouped[grouped.indexOf(other)] = merged;
+        bySubject.set(subject, merged);
+      }
+    }
+
+    return grouped;
+  }
+
+  /** Joins two roots with the same base subject, returning the new root. */
+  private mergeBySubject<E extends ThreadableEmail>(a: Container<E>, b: Container<E>): Container<E> {
+    if (!a.email && !b.email) {
+      for (const child of [...b.children]) link(a, child);
+      return a;
+    }
+    if (!a.email || !b.email) {
+      const [placeholder, message] = a.email ? [b, a] : [a, b];
+      link(placeholder, message);
+      return placeholder;
+    }
+
+    const aReply = isReply(a.email.metadata.subject);
+    const bReply = isReply(b.email.metadata.subject);
+    if (bReply && !aReply) {
+      link(a, b);
+      return a;
+    }
+    if (aReply && !bReply) {
+      link(b, a);
+      return b;
+    }
+
+    // Both replies, or neither: siblings under a placeholder
+    const placeholder: Container<E> = { email: null, parent: null, children: [] };
+    link(placeholder, a);
+    link(placeholder, b);
+    return placeholder;
+  }
+
+  private toThread<E extends ThreadableEmail>(root: Container<E>): Thread<E> {
+    let size = 0;
+    let latest = 0;
+    const fileIds = new Set<string>();
+
+    const toNode = (container: Container<E>): ThreadNode<E> => {
+      if (container.email) {
+        size++;
+        latest = Math.max(latest, timeOf(container.email));
+        if (container.email.location) fileIds.add(container.email.location.fileId);
+      }
+      const children = container.children
+        .map(toNode)
+        .sort((a, b) => this.earliest(a) - this.earliest(b));
+      return {
+        ...(container.messageId !== undefined && { messageId: container.messageId }),
+        email: container.email,
+        children
+      };
+    };
+
+    const node = toNode(root);
+    const first = this.firstEmail(node);
+    return {
+      id: node.messageId ?? `thread-${first?.uid ?? ''}`,
+      subject: first?.metadata.subject ?? '',
+      root: node,
+      size,
+      fileIds: [...fileIds],
+      latest
+    };
+  }
+
+  // Placeholders sort by their earliest descendant
+  private earliest<E extends ThreadableEmail>(node: ThreadNode<E>): number {
+    if (node.email) return timeOf(node.email);
+    return Math.min(...node.children.map((child) => this.earliest(child)));
+  }
+
+  private firstEmail<E extends ThreadableEmail>(node: ThreadNode<E>): E | null {
+    if (node.email) return node.email;
+    for (const child of node.children) {
+      const email = this.firstEmail(child);
+      if (email) return email;
+    }
+    return null;
+  }
+}
+
+/** Depth-first rows of a thread, for an indented list. */
+export function flattenThread<E extends ThreadableEmail>(thread: Thread<E>): { node: ThreadNode<E>; depth: number }[] {
+  const rows: { node: ThreadNode<E>; depth: number }[] = [];
+  const visit = (node: ThreadNode<E>, depth: number) => {
+    rows.push({ node, depth });
+    for (const child of node.children) visit(child, depth + 1);
+  };
+  visit(thread.root, 0);
+  return rows;
+}
@@ -0,0 +1,182 @@
+// src/services/WorkingSetManager.ts
+// Named working sets of emails gathered from independent searches
+import type { SearchQuery, WorkingSet, WorkingSetEntry } from '../types';
+import { formatAddress } from '../utils/addresses';
+import { hashString, stableMessageId } from '../utils/identity';
+import { formatQuery } from '../utils/query-parser';
+import type { ParsedEmail } from './MBOXParser';
+import type { MetadataStore } from './MetadataStore';
+
+export interface WorkingSetManagerOptions {
+  store?: MetadataStore; // without one, sets last for the session only
+}
+
+export interface AddResult {
+  set: WorkingSet;
+  added: number; // new entries
+  merged: number; // emails already in the set, or copies of one, whose search was recorded
+}
+
+function entryFor(email: ParsedEmail, query: string | null, now: Date): WorkingSetEntry {
+  return {
+    uid: email.uid,
+    messageId: stableMessageId(email.messageId),
+    copies: [],
+    subject: email.metadata.subject,
+    from: email.metadata.from.map(formatAddress).join(', '),
+    date: email.metadata.date,
+    addedAt: now,
+    provenance: [{ query, uid: email.uid, addedAt: now }]
+  };
+}
+
+export function entryHas(entry: WorkingSetEntry, uid: string): boolean {
+  return entry.uid === uid || entry.copies.includes(uid);
+}
+
+/**
+ * The loaded emails of a set's entries, in the set's order. An entry is
+ * matched by its uids first, then by Message-ID, so a copy loaded from
+ * another file stands in for one that is not loaded.
+ */
+export function resolveWorkingSet(set: WorkingSet, emails: ParsedEmail[]): ParsedEmail[] {
+  const byUID = new Map(emails.map((email) => [email.uid, email]));
+  const byMessageId = new Map<string, ParsedEmail>();
+  for (const email of emails) {
+    const messageId = stableMessageId(email.messageId);
+    if (messageId && !byMessageId.has(messageId)) byMessageId.set(messageId, email);
+  }
+
+  return set.entries.flatMap((entry) => {
+    const email = [entry.uid, ...entry.copies].map((uid) => byUID.get(uid)).find(Boolean)
+      ?? (entry.messageId ? byMessageId.get(entry.messageId) : undefined);
+    return email ? [email] : [];
+  });
+}
+
+/**
+ * Keeps the user's working sets (SRS F-SRCH.301/302): named collections
+ * that emails are added to from the results of any number of searches.
+ * Copies of a message sharing a Message-ID become one entry, and each
+ * entry records every search that found it. Sets are immutable; each
+ * change returns the new set once it has been saved.
+ */
+export class WorkingSetManager {
+  private sets = new Map<string, WorkingSet>();
+  private store: MetadataStore | undefined;
+
+  constructor(options: WorkingSetManagerOptions = {}) {
+    this.store = options.store;
+  }
+
+  /** Restores the saved sets, replacing those held. */
+  async load(): Promise<WorkingSet[]> {
+    const sets = (await this.store?.listWorkingSets()) ?? [];
+    this.sets = new Map(sets.map((set) => [set.id, set]));
+    return this.list();
+  }
+
+  /** Sets in the order they were created. */
+  list(): WorkingSet[] {
+    return [...this.sets.values()];
+  }
+
+  get(id: string): WorkingSet | undefined {
+    return this.sets.get(id);
+  }
+
+  async create(name: string): Promise<WorkingSet> {
+    const now = new Date();
+    const set: WorkingSet = {
+      id: `set-${hashString(`${name}\n${now.toISOString()}\n${this.sets.size}`)}`,
+      name: this.checkName(name),
+      entries: [],
+      createdAt: now,
+      updatedAt: now
+    };
+    return this.commit(set);
+  }
+
+  async rename(id: string, name: string): Promise<WorkingSet> {
+    const set = this.require(id);
+    return this.commit({ ...set, name: this.checkName(name, id), updatedAt: new Date() });
+  }
+
+  async delete(id: string): Promise<void> {
+    this.require(id);
+    await this.store?.deleteWorkingSet(id);
+    this.sets.delete(id);
+  }
+
+  /**
+   * Adds emails to a set, recording the search that found them; without a
+   * query they count as added by hand. An email already in the set, or a
+   * copy of one with the same Message-ID, only gains the provenance.
+   */
+  async add(id: string, emails: ParsedEmail[], query?: SearchQuery): Promise<AddResult> {
+    const set = this.require(id);
+    const source = query ? formatQuery(query) : null;
+    const now = new Date();
+    const entries = [...set.entries];
+    let added = 0;
+    let merged = 0;
+
+    for (const email of emails) {
+      const messageId = stableMessageId(email.messageId);
+      const index = entries.findIndex((entry) =>
+        entryHas(entry, email.uid) || (messageId !== undefined && entry.messageId === messageId)
+      );
+
+      if (index === -1) {
+        entries.push(entryFor(email, source, now));
+        added++;
+        continue;
+      }
+
+      const entry = entries[index];
+      const known = entry.provenance.some((p) => p.query === source && p.uid === email.uid);
+      entries[index] = {
+        ...entry,
+        copies: entryHas(entry, email.uid) ? entry.copies : [...entry.copies, email.uid],
+        provenance: known ? entry.provenance : [...entry.provenance, { query: source, uid: email.uid, addedAt: now }]
+      };
+      merged++;
+    }
+
+    const updated = await this.commit({ ...set, entries, updatedAt: now });
+    return { set: updated, added, merged };
+  }
+
+  /** Removes the entries holding any of the uids, along with their copies. */
+  async remove(id: string, uids: string[]): Promise<WorkingSet> {
+    const set = this.require(id);
+    const entries = set.entries.filter((entry) => !uids.some((uid) => entryHas(entry, uid)));
+    return this.commit({ ...set, entries, updatedAt: new Date() });
+  }
+
+  async clear(id: string): Promise<WorkingSet> {
+    const set = this.require(id);
+    return this.commit({ ...set, entries: [], updatedAt: new Date() });
+  }
+
+  private require(id: string): WorkingSet {
+    const set = this.sets.get(id);
+    if (!set) throw new Error(`Unknown working set ${id}`);
+    return set;
+  }
+
+  private checkName(name: string, id?: string): string {
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error('Working set name is empty');
+    if (this.list().some((set) => set.id !== id && set.name === trimmed)) {
+      throw new Error(`A working set named "${trimmed}" already exists`);
+    }
+    return trimmed;
+  }
+
+  private async commit(set: WorkingSet): Promise<WorkingSet> {
+    await this.store?.saveWorkingSet(set);
+    this.sets.set(set.id, set);
+    return set;
+  }
+}
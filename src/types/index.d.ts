@@ -8,6 +8,15 @@ export interface Email {
   metadata: EmailMetadata;
   temporaryEdits?: HeaderEdits;
   rawSize: number;
+  location?: EmailLocation;
+}
+
+// Where a message was read from, for file-backed parsing
+export interface EmailLocation {
+  fileId: string; // fileIdentity() of the source file
+  offset: number; // byte offset of the message in the file or ZIP entry
+  length: number;
+  entry?: string; // path inside a ZIP archive
 }
 
 export interface EmailBody {
@@ -23,6 +32,8 @@ export interface EmailMetadata {
   to: Address[];
   cc?: Address[];
   bcc?: Address[];
+  replyTo?: Address[];
+  sender?: Address[];
   subject: string;
   inReplyTo?: string;
   references?: string[];
@@ -32,15 +43,18 @@ export interface EmailMetadata {
 export interface Address {
   name?: string;
   address: string;
+  group?: string;
 }
 
 export interface ReceivedHeader {
   from: string;
   by: string;
+  via?: string;
   with?: string;
   id?: string;
   for?: string;
   date?: Date;
+  delay?: number; // ms since the previous timestamped hop
   raw: string;
 }
 
@@ -68,6 +82,32 @@ export interface Note {
   tags?: string[];
 }
 
+// A named collection of emails gathered from several searches (SRS F-SRCH.301)
+export interface WorkingSet {
+  id: string;
+  name: string;
+  entries: WorkingSetEntry[]; // in the order added
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WorkingSetEntry {
+  uid: string; // the first copy added
+  messageId?: string; // shared by the copies merged into this entry; invented ids are left out
+  copies: string[]; // uids of further copies with the same Message-ID
+  subject: string; // shown while the email is not loaded
+  from: string;
+  date: string | null;
+  addedAt: Date;
+  provenance: WorkingSetProvenance[];
+}
+
+export interface WorkingSetProvenance {
+  query: string | null; // the search in Gmail syntax, null when added by hand
+  uid: string; // the copy it found
+  addedAt: Date;
+}
+
 export interface HeaderVisibilityPrefs {
   hiddenHeaders: Set<string>;
   alwaysShowHeaders: Set<string>;
@@ -89,10 +129,21 @@ export interface SearchQuery {
   favorites?: boolean;
   hasNotes?: boolean;
   bodyContains?: string;
+  hasAttachment?: boolean;
+  largerThan?: number; // rawSize in bytes
+  smallerThan?: number;
+  expression?: QueryNode; // must match as well as the fields above
 }
 
-export interface SearchResults {
-  emails: Email[];
+// A parsed query string; each leaf is a SearchQuery whose fields must all match
+export type QueryNode =
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'match'; query: SearchQuery; start: number; end: number }; // offsets in the query string
+
+export interface SearchResults<E = Email> {
+  emails: E[];
   total: number;
   query: SearchQuery;
   executionTime: number;
@@ -109,7 +160,7 @@ export interface ParseProgress {
 }
 
 export interface ParseError {
-  type: 'MALFORMED_HEADER' | 'ENCODING_ERROR' | 'FROM_LINE_ERROR' | 'CRITICAL';
+  type: 'MALFORMED_HEADER' | 'ENCODING_ERROR' | 'FROM_LINE_ERROR' | 'UNSUPPORTED_FORMAT' | 'CRITICAL';
   message: string;
   context?: string;
   emailIndex?: number;
@@ -0,0 +1,246 @@
+// src/utils/addresses.ts
+// RFC 5322 §3.4 address-list parsing and writing, including groups and obsolete syntax
+
+import type { Address } from '../types';
+import { decodeEncodedWords, encodeEncodedWords } from './encoded-words';
+
+type TokenType = 'atom' | 'quoted' | 'comment' | 'literal' | 'special';
+
+interface Token {
+  type: TokenType;
+  value: string;
+}
+
+const SPECIALS = '<>@,:;.';
+
+/**
+ * Splits a header value into atoms, quoted-strings, comments, domain
+ * literals and specials. Whitespace only separates tokens. Unterminated
+ * quotes, comments and literals run to the end of the value.
+ */
+function tokenize(value: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < value.length) {
+    const ch = value[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '"') {
+      let text = '';
+      i++;
+      while (i < value.length && value[i] !== '"') {
+        if (value[i] === '\\' && i + 1 < value.length) i++;
+        text += value[i++];
+      }
+      i++;
+      tokens.push({ type: 'quoted', value: text });
+    } else if (ch === '(') {
+      let depth = 1;
+      let text = '';
+      i++;
+      while (i < value.length && depth > 0) {
+        if (value[i] === '\\' && i + 1 < value.length) {
+          text += value[i + 1];
+          i += 2;
+          continue;
+        }
+        if (value[i] === '(') depth++;
+        if (value[i] === ')') depth--;
+        if (depth > 0) text += value[i];
+        i++;
+      }
+      tokens.push({ type: 'comment', value: text.trim() });
+    } else if (ch === '[') {
+      const end = value.indexOf(']', i);
+      const stop = end === -1 ? value.length : end + 1;
+      tokens.push({ type: 'literal', value: value.substring(i, stop) });
+      i = stop;
+    } else if (SPECIALS.includes(ch)) {
+      tokens.push({ type: 'special', value: ch });
+      i++;
+    } else {
+      let text = '';
+      while (i < value.length && !/\s/.test(value[i]) && !SPECIALS.includes(value[i]) && !'"(['.includes(value[i])) {
+        text += value[i++];
+      }
+      tokens.push({ type: 'atom', value: text });
+    }
+  }
+
+  return tokens;
+}
+
+function isSpecial(token: Token | undefined, value: string): boolean {
+  return !!token && token.type === 'special' && token.value === value;
+}
+
+/**
+ * Joins phrase words with single spaces. Periods (obs-phrase, e.g.
+ * "John Q. Public") attach to the preceding word.
+ */
+function phraseText(tokens: Token[]): string {
+  let text = '';
+  for (const token of tokens) {
+    if (token.type === 'comment') continue;
+    if (isSpecial(token, '.')) {
+      text += '.';
+    } else {
+      text += (text ? ' ' : '') + token.value;
+    }
+  }
+  return decodeEncodedWords(text.trim());
+}
+
+/**
+ * Joins addr-spec tokens without whitespace. Folding whitespace and
+ * comments around dots (obs-local-part, obs-domain) are dropped, and
+ * quoted local parts keep their quotes when they need them.
+ */
+function addrSpecText(tokens: Token[]): string {
+  return tokens
+    .filter((token) => token.type !== 'comment')
+    .map((token) => {
+      if (token.type !== 'quoted') return token.value;
+      return /^[^\s"\\()<>@,;:[\]]+$/.test(token.value)
+        ? token.value
+        : `"${token.value.replace(/(["\\])/g, '\\$1')}"`;
+    })
+    .join('');
+}
+
+function commentText(tokens: Token[]): string | undefined {
+  const comments = tokens.filter((token) => token.type === 'comment' && token.value);
+  return comments.length > 0
+    ? decodeEncodedWords(comments.map((token) => token.value).join(' '))
+    : undefined;
+}
+
+function parseMailbox(tokens: Token[], group?: string): Address | null {
+  const meaningful = tokens.filter((token) => token.type !== 'comment');
+  if (meaningful.length === 0) return null;
+
+  const open = tokens.findIndex((token) => isSpecial(token, '<'));
+  let name: string | undefined;
+  let address: string;
+
+  if (open !== -1) {
+    const closeOffset = tokens.slice(open + 1).findIndex((token) => isSpecial(token, '>'));
+    const close = closeOffset === -1 ? tokens.length : open + 1 + closeOffset;
+    let addrTokens = tokens.slice(open + 1, close);
+
+    // obs-route: <@relay1,@relay2:user@example.com>
+    const routeEnd = addrTokens.map((token) => isSpecial(token, ':')).lastIndexOf(true);
+    if (routeEnd !== -1) {
+      addrTokens = addrTokens.slice(routeEnd + 1);
+    }
+
+    address = addrSpecText(addrTokens);
+    name = phraseText(tokens.slice(0, open)) || commentText(tokens);
+  } else if (meaningful.some((token) => isSpecial(token, '@'))) {
+    address = addrSpecText(tokens);
+    // Legacy "user@example.com (Display Name)" form
+    name = commentText(tokens);
+  } else if (meaningful.length === 1 && meaningful[0].type !== 'special') {
+    // Local-only mailbox such as "MAILER-DAEMON"
+    address = meaningful[0].value;
+    name = commentText(tokens);
+  } else {
+    // A bare phrase with no address ("Undisclosed recipients")
+    address = '';
+    name = phraseText(tokens);
+  }
+
+  const mailbox: Address = { address };
+  if (name) mailbox.name = name;
+  if (group) mailbox.group = group;
+  return mailbox;
+}
+
+/**
+ * Parses an RFC 5322 address-list into mailboxes. Group members carry the
+ * group's display name; empty groups ("undisclosed-recipients:;") yield no
+ * mailboxes. Display names have RFC 2047 encoded-words decoded.
+ */
+export function parseAddressList(value: string): Address[] {
+  if (!value || !value.trim()) return [];
+
+  const addresses: Address[] = [];
+  let item: Token[] = [];
+  let group: string | undefined;
+  let angleDepth = 0;
+
+  const flush = () => {
+    const mailbox = parseMailbox(item, group);
+    if (mailbox) addresses.push(mailbox);
+    item = [];
+  };
+
+  for (const token of tokenize(value)) {
+    if (isSpecial(token, '<')) angleDepth++;
+    if (isSpecial(token, '>')) angleDepth = Math.max(0, angleDepth - 1);
+
+    if (angleDepth > 0 || token.type !== 'special') {
+      item.push(token);
+    } else if (token.value === ',') {
+      flush();
+    } else if (
+      token.value === ':'
+      && group === undefined
+      && !item.some((t) => isSpecial(t, '@') || isSpecial(t, '<'))
+    ) {
+      group = phraseText(item);
+      item = [];
+    } else if (token.value === ';' && group !== undefined) {
+      flush();
+      group = undefined;
+    } else {
+      item.push(token);
+    }
+  }
+  flush();
+
+  return addresses;
+}
+
+export function formatAddress(address: Address): string {
+  if (!address.name) return address.address;
+  if (!address.address) return address.name;
+  return `${address.name} <${address.address}>`;
+}
+
+/**
+ * Writes a display name as an RFC 5322 phrase: encoded-words when it is
+ * not printable ASCII (RFC 2047 §5), a quoted-string when it has specials.
+ */
+function encodePhrase(text: string): string {
+  if (/[^ -~]/.test(text)) return encodeEncodedWords(text);
+  return /^[\w!#$%&'*+\-/=?^`{|}~ ]+$/.test(text) ? text : `"${text.replace(/(["\\])/g, '\\$1')}"`;
+}
+
+function encodeMailbox(address: Address): string {
+  if (!address.name) return address.address;
+  if (!address.address) return encodePhrase(address.name);
+  return `${encodePhrase(address.name)} <${address.address}>`;
+}
+
+/**
+ * Writes mailboxes from parseAddressList() back as an address-list for a
+ * header. Only display names and group names are encoded; addresses are
+ * kept as they are, since encoded-words are not allowed in them.
+ */
+export function encodeAddressList(addresses: Address[]): string {
+  const items: string[] = [];
+  for (let i = 0; i < addresses.length;) {
+    const group = addresses[i].group;
+    if (group === undefined) {
+      items.push(encodeMailbox(addresses[i++]));
+      continue;
+    }
+    const members: string[] = [];
+    while (i < addresses.length && addresses[i].group === group) members.push(encodeMailbox(addresses[i++]));
+    items.push(`${encodePhrase(group)}: ${members.join(', ')};`);
+  }
+  return items.join(', ');
+}
@@ -0,0 +1,122 @@
+// src/utils/encoded-words.ts
+// RFC 2047 encoded-word encoding and decoding for header values
+
+import {
+  concatBytes,
+  decodeBase64,
+  decodeCharset,
+  decodeCharsetLossy,
+  decodeQuotedPrintable,
+  encodeBase64,
+  normalizeCharset
+} from './encoding';
+
+const ENCODED_WORD_REGEX = /=\?([^?\s]+)\?([BbQq])\?([^?\s]*)\?=/g;
+
+interface EncodedWord {
+  charset: string;
+  bytes: Uint8Array;
+  raw: string;
+}
+
+function decodeWordBytes(encoding: string, text: string): Uint8Array {
+  return encoding.toUpperCase() === 'B'
+    ? decodeBase64(text, true)
+    : decodeQuotedPrintable(text, true);
+}
+
+/**
+ * Decodes a run of adjacent encoded-words. Words sharing a charset are
+ * decoded together so multi-byte characters split across words survive.
+ * Words in a charset the platform cannot decode are left as written.
+ */
+function decodeRun(words: EncodedWord[]): string {
+  let output = '';
+  let i = 0;
+
+  while (i < words.length) {
+    const charset = words[i].charset;
+    const group: EncodedWord[] = [];
+    while (i < words.length && words[i].charset === charset) {
+      group.push(words[i++]);
+    }
+
+    const bytes = concatBytes(group.map((word) => word.bytes));
+    try {
+      output += decodeCharset(bytes, charset);
+    } catch (error) {
+      output += error instanceof RangeError
+        ? group.map((word) => word.raw).join('')
+        : decodeCharsetLossy(bytes, charset);
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Decodes RFC 2047 encoded-words (`=?charset?B|Q?text?=`) in an unstructured
+ * header value. Whitespace between adjacent encoded-words is dropped as
+ * §6.2 requires; text outside encoded-words is returned unchanged.
+ */
+export function decodeEncodedWords(value: string): string {
+  if (!value.includes('=?')) {
+    return value;
+  }
+
+  let output = '';
+  let run: EncodedWord[] = [];
+  let lastIndex = 0;
+
+  for (const match of value.matchAll(ENCODED_WORD_REGEX)) {
+    const between = value.substring(lastIndex, match.index);
+    const [raw, charset, encoding, text] = match;
+
+    // Linear whitespace separating two encoded-words is not displayed
+    if (run.length === 0 || !/^\s*$/.test(between)) {
+      output += decodeRun(run) + between;
+      run = [];
+    }
+
+    run.push({
+      charset: normalizeCharset(charset),
+      bytes: decodeWordBytes(encoding, text),
+      raw
+    });
+    lastIndex = match.index + raw.length;
+  }
+
+  return output + decodeRun(run) + value.substring(lastIndex);
+}
+
+// 45 bytes encode to 60 characters, keeping each word within the 75 of §2
+const ENCODED_WORD_BYTES = 45;
+
+/**
+ * Writes a header value as UTF-8 B encoded-words when it is not plain
+ * printable ASCII. Words are split between characters, never inside one.
+ */
+export function encodeEncodedWords(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) {
+    return value;
+  }
+
+  const encoder = new TextEncoder();
+  const words: string[] = [];
+  let bytes: Uint8Array[] = [];
+  let length = 0;
+
+  for (const ch of value) {
+    const encoded = encoder.encode(ch);
+    if (length + encoded.length > ENCODED_WORD_BYTES) {
+      words.push(`=?UTF-8?B?${encodeBase64(concatBytes(bytes))}?=`);
+      bytes = [];
+      length = 0;
+    }
+    bytes.push(encoded);
+    length += encoded.length;
+  }
+  words.push(`=?UTF-8?B?${encodeBase64(concatBytes(bytes))}?=`);
+
+  return words.join(' ');
+}
@@ -0,0 +1,171 @@
+// src/utils/encoding.ts
+// Content-Transfer-Encoding and charset encoding and decoding helpers
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_LOOKUP = new Map<string, number>(
+  Array.from(BASE64_ALPHABET, (ch, i) => [ch, i] as [string, number])
+);
+
+const utf8Encoder = new TextEncoder();
+
+export function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+// String.fromCharCode takes its arguments on the stack
+const BINARY_CHUNK = 8192;
+
+/**
+ * Maps each byte to the character with the same code, so raw message text
+ * can be split on ASCII delimiters before its charset is known.
+ * (TextDecoder's "latin1" is windows-1252 and does not round-trip.)
+ */
+export function bytesToBinary(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += BINARY_CHUNK) {
+    text += String.fromCharCode(...bytes.subarray(i, i + BINARY_CHUNK));
+  }
+  return text;
+}
+
+export function binaryToBytes(text: string): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i);
+  return bytes;
+}
+
+/**
+ * Decodes a byte string from bytesToBinary() in the given charset,
+ * lossily. Pure ASCII is returned as is.
+ */
+export function decodeBinary(text: string, charset = 'utf-8'): string {
+  return /[\u0080-\uffff]/.test(text) ? decodeCharsetLossy(binaryToBytes(text), charset) : text;
+}
+
+export function encodeBase64(bytes: Uint8Array): string {
+  let output = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    const chars = Math.min(4, Math.ceil(((bytes.length - i) * 4) / 3));
+    for (let c = 0; c < 4; c++) {
+      output += c < chars ? BASE64_ALPHABET[(chunk >> (18 - c * 6)) & 63] : '=';
+    }
+  }
+  return output;
+}
+
+/**
+ * Decodes base64 into bytes. Whitespace and padding are ignored; any other
+ * character outside the alphabet throws unless `lenient` is set, in which
+ * case it is skipped as RFC 2045 §6.8 recommends.
+ */
+export function decodeBase64(input: string, lenient = false): Uint8Array {
+  const clean = input.replace(/[\s=]+/g, '');
+  const output = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let length = 0;
+
+  for (const ch of clean) {
+    const value = BASE64_LOOKUP.get(ch);
+    if (value === undefined) {
+      if (lenient) continue;
+      throw new Error(`Invalid base64 character "${ch}"`);
+    }
+
+    buffer = (buffer << 6) | value;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      output[length++] = (buffer >> bits) & 0xff;
+    }
+  }
+
+  return output.subarray(0, length);
+}
+
+/**
+ * Decodes quoted-printable (RFC 2045 §6.7) into bytes. Malformed `=`
+ * sequences are kept literally. With `underscoreAsSpace` it decodes the
+ * RFC 2047 "Q" variant used in encoded-words. With `binary` the input is a
+ * byte string, whose stray 8-bit characters are kept as the bytes they are.
+ */
+export function decodeQuotedPrintable(input: string, underscoreAsSpace = false, binary = false): Uint8Array {
+  // Transport-added trailing whitespace is not part of the encoded data
+  const text = input.replace(/[ \t]+$/gm, '');
+  const bytes: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (ch === '=') {
+      if (text[i + 1] === '\n') {
+        i += 1;
+        continue;
+      }
+      if (text[i + 1] === '\r' && text[i + 2] === '\n') {
+        i += 2;
+        continue;
+      }
+
+      const hex = text.substring(i + 1, i + 3);
+      if (/^[0-9A-Fa-f]{2}$/.test(hex)) {
+        bytes.push(parseInt(hex, 16));
+        i += 2;
+        continue;
+      }
+    }
+
+    if (ch === '_' && underscoreAsSpace) {
+      bytes.push(0x20);
+      continue;
+    }
+
+    const code = ch.charCodeAt(0);
+    if (code < 0x80 || binary) {
+      bytes.push(code);
+    } else {
+      // Non-ASCII characters should not appear in QP; keep them as UTF-8
+      const codePoint = text.codePointAt(i)!;
+      const char = String.fromCodePoint(codePoint);
+      bytes.push(...utf8Encoder.encode(char));
+      i += char.length - 1;
+    }
+  }
+
+  return Uint8Array.from(bytes);
+}
+
+export function normalizeCharset(charset: string | undefined): string {
+  const label = (charset || 'utf-8').trim().replace(/^["']|["']$/g, '').toLowerCase();
+  // RFC 2231 allows a language suffix (e.g. "utf-8*en"); TextDecoder does not
+  return label.split('*')[0] || 'utf-8';
+}
+
+/**
+ * Decodes bytes in the given charset. Throws a RangeError for charsets the
+ * platform TextDecoder does not know and a TypeError for byte sequences that
+ * are invalid in the charset.
+ */
+export function decodeCharset(bytes: Uint8Array, charset: string | undefined): string {
+  return new TextDecoder(normalizeCharset(charset), { fatal: true }).decode(bytes);
+}
+
+/**
+ * Lossy counterpart of decodeCharset used once an error has been reported:
+ * invalid sequences become U+FFFD and unknown charsets fall back to UTF-8.
+ */
+export function decodeCharsetLossy(bytes: Uint8Array, charset: string | undefined): string {
+  try {
+    return new TextDecoder(normalizeCharset(charset)).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
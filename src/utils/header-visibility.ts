@@ -0,0 +1,23 @@
+// src/utils/header-visibility.ts
+// Which headers the detail view shows under the user's HeaderVisibilityPrefs
+
+import type { HeaderVisibilityPrefs } from '../types';
+
+const MINIMAL_HEADERS = ['from', 'to', 'cc', 'date', 'subject'];
+const STANDARD_HEADERS = [...MINIMAL_HEADERS, 'bcc', 'reply-to', 'sender', 'message-id', 'in-reply-to', 'return-path'];
+
+const VIEW_HEADERS: Record<Exclude<HeaderVisibilityPrefs['defaultView'], 'all'>, Set<string>> = {
+  minimal: new Set(MINIMAL_HEADERS),
+  standard: new Set(STANDARD_HEADERS)
+};
+
+/**
+ * Headers in alwaysShowHeaders are shown in every view; hiddenHeaders
+ * removes headers from any view, including 'all'. Names are lowercase.
+ */
+export function isHeaderVisible(name: string, prefs: HeaderVisibilityPrefs): boolean {
+  const header = name.toLowerCase();
+  if (prefs.alwaysShowHeaders.has(header)) return true;
+  if (prefs.hiddenHeaders.has(header)) return false;
+  return prefs.defaultView === 'all' || VIEW_HEADERS[prefs.defaultView].has(header);
+}
@@ -0,0 +1,101 @@
+// src/utils/identity.ts
+// Deterministic identifiers for emails and source files
+
+import type { EmailLocation } from '../types';
+
+/**
+ * 64-bit non-cryptographic hash (cyrb53 without the final truncation),
+ * as 16 hex digits. Fast enough to run on every message while parsing.
+ */
+export function hashString(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (h2 >>> 0).toString(16).padStart(8, '0') + (h1 >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Identifies a file across sessions by name, size and modification time,
+ * which is what the browser exposes without reading the content.
+ */
+export function fileIdentity(file: Blob): string {
+  if (file instanceof File) {
+    return hashString(`${file.name}\n${file.size}\n${file.lastModified}`);
+  }
+  return hashString(`\n${file.size}\n`);
+}
+
+const FINGERPRINT_SAMPLE_SIZE = 64 * 1024;
+
+/**
+ * Identifies a file by its content, so metadata follows it through renames
+ * and copies. Hashes the size plus the first and last 64 KB, which keeps
+ * fingerprinting an 800 MB archive as cheap as a small one.
+ */
+export async function fileFingerprint(file: Blob): Promise<string> {
+  const decoder = new TextDecoder('latin1');
+  const sample = file.size <= 2 * FINGERPRINT_SAMPLE_SIZE
+    ? [file]
+    : [file.slice(0, FINGERPRINT_SAMPLE_SIZE), file.slice(file.size - FINGERPRINT_SAMPLE_SIZE)];
+
+  const parts = await Promise.all(sample.map(async part => decoder.decode(await part.arrayBuffer())));
+  return hashString(`${file.size}\n${parts.join('\n')}`);
+}
+
+/**
+ * The uid of the first copy of a message: a hash of its content without
+ * the From_ line, so the same message gets the same uid whenever it is loaded.
+ */
+export function contentUID(content: string): string {
+  return `eama-${hashString(content)}`;
+}
+
+// Where a message is within its file, leaving out the file so it survives renames
+export function locationKey(location: EmailLocation): string {
+  return [location.entry ?? '', location.offset].join(':');
+}
+
+/**
+ * The uid of a further exact copy, told apart from the first by where it
+ * was found, usually locationKey() of its EmailLocation.
+ */
+export function duplicateUID(uid: string, key: string): string {
+  return `${uid}-${hashString(key).substring(0, 8)}`;
+}
+
+// The parser invents Message-IDs for messages without one; they mean nothing in another session
+export function stableMessageId(messageId: string | undefined): string | undefined {
+  return messageId && !/^<generated-\d+@eama>$/.test(messageId) ? messageId : undefined;
+}
+
+// Headers set by the sender; relays, mail stores and exports add others but leave these alone
+const ORIGIN_HEADERS = ['message-id', 'date', 'from', 'sender', 'to', 'cc', 'subject', 'in-reply-to', 'references'];
+
+/**
+ * Hashes what the sender wrote, the origin headers and the body, with
+ * whitespace and line endings normalized. Copies that differ only in
+ * headers added on the way, such as Received, Delivered-To or
+ * X-Gmail-Labels, hash the same.
+ */
+export function normalizedContentHash(headers: Record<string, string[]>, body: string): string {
+  const origin = ORIGIN_HEADERS.map((name) =>
+    `${name}:${(headers[name] ?? []).map((value) => value.replace(/\s+/g, ' ').trim()).join('\n')}`);
+  const text = body.replace(/\r\n?/g, '\n').replace(/[ \t]+$/gm, '').replace(/\n+$/, '');
+  return hashString(`${origin.join('\n')}\n\n${text}`);
+}
+
+/** The uid of the first copy, given that of any exact copy; see duplicateUID(). */
+export function originalUID(uid: string): string {
+  return uid.replace(/^(eama-[0-9a-f]{16})-[0-9a-f]{8}$/, '$1');
+}
@@ -0,0 +1,54 @@
+// src/utils/mail-sources.ts
+// Classification of input files and archive entries by path and content
+
+import { isZip } from './zip';
+
+export type SourceKind = 'mbox' | 'message' | 'zip';
+
+const KIND_BY_EXTENSION: Record<string, SourceKind> = {
+  '.mbox': 'mbox',
+  '.mbx': 'mbox',
+  '.eml': 'message',
+  '.zip': 'zip'
+};
+
+const UTF8_BOM = [0xef, 0xbb, 0xbf];
+
+/**
+ * Maildir stores one message per file in cur/ and new/. Files in tmp/
+ * are deliveries in progress, and dotfiles are not messages.
+ */
+export function isMaildirMessagePath(path: string): boolean {
+  const parts = path.split('/');
+  const name = parts[parts.length - 1];
+  const dir = parts[parts.length - 2];
+  return (dir === 'cur' || dir === 'new') && !!name && !name.startsWith('.');
+}
+
+/**
+ * Classifies by path alone. Returns null when the content has to be
+ * looked at, e.g. for extensionless or .txt files.
+ */
+export function sourceKindFromPath(path: string): SourceKind | null {
+  if (isMaildirMessagePath(path)) return 'message';
+
+  const name = path.substring(path.lastIndexOf('/') + 1);
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? KIND_BY_EXTENSION[name.substring(dot).toLowerCase()] ?? null : null;
+}
+
+/**
+ * Classifies by the first bytes of a file: a ZIP signature, a From_ line,
+ * or an RFC 5322 header field. Returns null for anything else, such as
+ * Outlook's binary .msg format.
+ */
+export function sourceKindFromContent(head: Uint8Array): SourceKind | null {
+  if (isZip(head)) return 'zip';
+
+  const hasBom = UTF8_BOM.every((byte, i) => head[i] === byte);
+  const text = new TextDecoder('latin1').decode(hasBom ? head.subarray(UTF8_BOM.length) : head);
+
+  if (/^From \S/.test(text)) return 'mbox';
+  if (/^[!-9;-~]+:/.test(text)) return 'message';
+  return null;
+}
@@ -0,0 +1,299 @@
+// src/utils/metadata-bundle.ts
+// Versioned JSON export and import of a file's UserMetadata
+
+import type { Email, HeaderVisibilityPrefs, Note, UserMetadata } from '../types';
+import { stableMessageId } from './identity';
+
+export const METADATA_BUNDLE_FORMAT = 'eama-metadata';
+export const METADATA_BUNDLE_VERSION = 1;
+
+export type EmailRef = Pick<Email, 'uid' | 'messageId'>;
+
+export interface BundleFile {
+  fingerprint: string;
+  name: string;
+  size: number;
+}
+
+export interface BundleFavorite {
+  uid: string;
+  messageId?: string;
+}
+
+export interface BundleNote {
+  uid: string;
+  emailUid: string;
+  messageId?: string;
+  content: string;
+  createdAt: string; // ISO 8601
+  updatedAt: string;
+  tags?: string[];
+}
+
+export interface MetadataBundle {
+  format: typeof METADATA_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  file: BundleFile;
+  favorites: BundleFavorite[];
+  notes: BundleNote[];
+  headerPreferences: {
+    hiddenHeaders: string[];
+    alwaysShowHeaders: string[];
+    defaultView: HeaderVisibilityPrefs['defaultView'];
+  };
+}
+
+// merge keeps both sides, preferring the newer note; replace discards what is stored
+export type ImportStrategy = 'merge' | 'replace';
+
+export type UnmatchedEntry =
+  | { kind: 'favorite'; entry: BundleFavorite }
+  | { kind: 'note'; entry: BundleNote };
+
+export interface ImportReport {
+  fingerprintMatches: boolean; // false when the bundle was exported from a different file
+  matched: number;
+  matchedByMessageId: number; // included in matched
+  conflicts: number; // notes present on both sides with different content
+  unmatched: UnmatchedEntry[];
+}
+
+export class MetadataBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MetadataBundleError';
+  }
+}
+
+const VIEWS: HeaderVisibilityPrefs['defaultView'][] = ['all', 'standard', 'minimal'];
+
+export function exportMetadataBundle(metadata: UserMetadata, file: BundleFile, emails: EmailRef[]): MetadataBundle {
+  const messageIds = new Map(emails.map(email => [email.uid, stableMessageId(email.messageId)]));
+
+  return {
+    format: METADATA_BUNDLE_FORMAT,
+    version: METADATA_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    file,
+    favorites: [...metadata.favorites].map(uid => ({ uid, messageId: messageIds.get(uid) })),
+    notes: [...metadata.notes.values()].map(note => ({
+      uid: note.uid,
+      emailUid: note.emailUid,
+      messageId: messageIds.get(note.emailUid),
+      content: note.content,
+      createdAt: note.createdAt.toISOString(),
+      updatedAt: note.updatedAt.toISOString(),
+      tags: note.tags
+    })),
+    headerPreferences: {
+      hiddenHeaders: [...metadata.headerPreferences.hiddenHeaders],
+      alwaysShowHeaders: [...metadata.headerPreferences.alwaysShowHeaders],
+      defaultView: metadata.headerPreferences.defaultView
+    }
+  };
+}
+
+type Json = Record<string, unknown>;
+
+function expectObject(value: unknown, path: string): Json {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new MetadataBundleError(`${path}: expected an object`);
+  }
+  return value as Json;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new MetadataBundleError(`${path}: expected an array`);
+  }
+  return value;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string') {
+    throw new MetadataBundleError(`${path}: expected a string`);
+  }
+  return value;
+}
+
+function optionalString(value: unknown, path: string): string | undefined {
+  return value === undefined ? undefined : expectString(value, path);
+}
+
+function expectDate(value: unknown, path: string): string {
+  const text = expectString(value, path);
+  if (Number.isNaN(Date.parse(text))) {
+    throw new MetadataBundleError(`${path}: expected an ISO 8601 date`);
+  }
+  return text;
+}
+
+function expectStrings(value: unknown, path: string): string[] {
+  return expectArray(value, path).map((item, i) => expectString(item, `${path}[${i}]`));
+}
+
+/**
+ * Parses and validates an exported bundle. Throws MetadataBundleError
+ * naming the first offending field, or for bundles from a newer version.
+ */
+export function parseMetadataBundle(json: string): MetadataBundle {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new MetadataBundleError(`Not valid JSON: ${(error as Error).message}`);
+  }
+
+  const root = expectObject(data, 'bundle');
+  if (root.format !== METADATA_BUNDLE_FORMAT) {
+    throw new MetadataBundleError('Not an EAMA metadata export');
+  }
+  if (typeof root.version !== 'number' || !Number.isInteger(root.version) || root.version < 1) {
+    throw new MetadataBundleError('version: expected a positive integer');
+  }
+  if (root.version > METADATA_BUNDLE_VERSION) {
+    throw new MetadataBundleError(`Exported by a newer version of EAMA (format version ${root.version})`);
+  }
+
+  const file = expectObject(root.file, 'file');
+  if (typeof file.size !== 'number') {
+    throw new MetadataBundleError('file.size: expected a number');
+  }
+
+  const prefs = expectObject(root.headerPreferences, 'headerPreferences');
+  if (!VIEWS.includes(prefs.defaultView as HeaderVisibilityPrefs['defaultView'])) {
+    throw new MetadataBundleError(`headerPreferences.defaultView: expected one of ${VIEWS.join(', ')}`);
+  }
+
+  return {
+    format: METADATA_BUNDLE_FORMAT,
+    version: root.version,
+    exportedAt: expectDate(root.exportedAt, 'exportedAt'),
+    file: {
+      fingerprint: expectString(file.fingerprint, 'file.fingerprint'),
+      name: expectString(file.name, 'file.name'),
+      size: file.size
+    },
+    favorites: expectArray(root.favorites, 'favorites').map((item, i) => {
+      const favorite = expectObject(item, `favorites[${i}]`);
+      return {
+        uid: expectString(favorite.uid, `favorites[${i}].uid`),
+        messageId: optionalString(favorite.messageId, `favorites[${i}].messageId`)
+      };
+    }),
+    notes: expectArray(root.notes, 'notes').map((item, i) => {
+      const note = expectObject(item, `notes[${i}]`);
+      return {
+        uid: expectString(note.uid, `notes[${i}].uid`),
+        emailUid: expectString(note.emailUid, `notes[${i}].emailUid`),
+        messageId: optionalString(note.messageId, `notes[${i}].messageId`),
+        content: expectString(note.content, `notes[${i}].content`),
+        createdAt: expectDate(note.createdAt, `notes[${i}].createdAt`),
+        updatedAt: expectDate(note.updatedAt, `notes[${i}].updatedAt`),
+        tags: note.tags === undefined ? undefined : expectStrings(note.tags, `notes[${i}].tags`)
+      };
+    }),
+    headerPreferences: {
+      hiddenHeaders: expectStrings(prefs.hiddenHeaders, 'headerPreferences.hiddenHeaders'),
+      alwaysShowHeaders: expectStrings(prefs.alwaysShowHeaders, 'headerPreferences.alwaysShowHeaders'),
+      defaultView: prefs.defaultView as HeaderVisibilityPrefs['defaultView']
+    }
+  };
+}
+
+/**
+ * Applies a bundle to the metadata of the loaded file. Entries are matched
+ * to emails by uid first and Message-ID second, so a bundle made from a
+ * different export of the same mailbox still lands on the right emails;
+ * entries matching neither are reported and left out.
+ */
+export function importMetadataBundle(
+  bundle: MetadataBundle,
+  current: UserMetadata,
+  fingerprint: string,
+  emails: EmailRef[],
+  strategy: ImportStrategy
+): { metadata: UserMetadata; report: ImportReport } {
+  const uids = new Set(emails.map(email => email.uid));
+  const byMessageId = new Map<string, string>();
+  for (const email of emails) {
+    const messageId = stableMessageId(email.messageId);
+    if (messageId && !byMessageId.has(messageId)) byMessageId.set(messageId, email.uid);
+  }
+
+  const report: ImportReport = {
+    fingerprintMatches: bundle.file.fingerprint === fingerprint,
+    matched: 0,
+    matchedByMessageId: 0,
+    conflicts: 0,
+    unmatched: []
+  };
+
+  const resolve = (uid: string, messageId: string | undefined): string | undefined => {
+    if (uids.has(uid)) {
+      report.matched++;
+      return uid;
+    }
+    const byId = messageId ? byMessageId.get(messageId) : undefined;
+    if (byId) {
+      report.matched++;
+      report.matchedByMessageId++;
+    }
+    return byId;
+  };
+
+  const replace = strategy === 'replace';
+  const favorites = new Set(replace ? [] : current.favorites);
+  const notes = new Map(replace ? [] : current.notes);
+
+  for (const favorite of bundle.favorites) {
+    const uid = resolve(favorite.uid, favorite.messageId);
+    if (uid) {
+      favorites.add(uid);
+    } else {
+      report.unmatched.push({ kind: 'favorite', entry: favorite });
+    }
+  }
+
+  for (const entry of bundle.notes) {
+    const emailUid = resolve(entry.emailUid, entry.messageId);
+    if (!emailUid) {
+      report.unmatched.push({ kind: 'note', entry });
+      continue;
+    }
+
+    const imported: Note = {
+      uid: entry.uid,
+      emailUid,
+      content: entry.content,
+      createdAt: new Date(entry.createdAt),
+      updatedAt: new Date(entry.updatedAt),
+      tags: entry.tags
+    };
+    const existing = notes.get(emailUid);
+    if (existing) {
+      if (existing.content !== imported.content) report.conflicts++;
+      if (existing.updatedAt >= imported.updatedAt) continue;
+    }
+    notes.set(emailUid, imported);
+  }
+
+  const prefs = bundle.headerPreferences;
+  const headerPreferences: HeaderVisibilityPrefs = replace
+    ? {
+      hiddenHeaders: new Set(prefs.hiddenHeaders),
+      alwaysShowHeaders: new Set(prefs.alwaysShowHeaders),
+      defaultView: prefs.defaultView
+    }
+    : {
+      hiddenHeaders: new Set([...current.headerPreferences.hiddenHeaders, ...prefs.hiddenHeaders]),
+      alwaysShowHeaders: new Set([...current.headerPreferences.alwaysShowHeaders, ...prefs.alwaysShowHeaders]),
+      defaultView: current.headerPreferences.defaultView
+    };
+
+  return {
+    metadata: { favorites, notes, headerPreferences, lastUpdated: new Date() },
+    report
+  };
+}
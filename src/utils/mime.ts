@@ -0,0 +1,491 @@
+// src/utils/mime.ts
+// MIME structure parsing (RFC 2045 / RFC 2046) for message bodies
+import type { Attachment } from '../types';
+import { decodeEncodedWords } from './encoded-words';
+import {
+  binaryToBytes,
+  concatBytes,
+  decodeBase64,
+  decodeBinary,
+  decodeCharset,
+  decodeCharsetLossy,
+  decodeQuotedPrintable,
+  normalizeCharset
+} from './encoding';
+
+export interface ContentType {
+  mimeType: string;
+  params: Record<string, string>;
+}
+
+export interface MIMEPart {
+  headers: Map<string, string[]>;
+  contentType: ContentType;
+  body: string; // byte string, see bytesToBinary()
+  parts: MIMEPart[];
+}
+
+export interface MIMEBodies {
+  text: string;
+  html: string;
+}
+
+export interface DecodeIssue {
+  message: string;
+  context?: string;
+}
+
+export type DecodeIssueCallback = (issue: DecodeIssue) => void;
+
+// Guards against pathological nesting in malformed or hostile messages
+const MAX_DEPTH = 32;
+
+const HEADER_REGEX = /^([^:\s]+):\s*(.*)$/;
+
+export function getPartHeader(headers: Map<string, string[]>, name: string): string | null {
+  const values = headers.get(name.toLowerCase());
+  return values ? values[0] : null;
+}
+
+interface ExtendedParamSection {
+  index: number;
+  encoded: boolean;
+  value: string;
+}
+
+// name*  |  name*0  |  name*0*  (RFC 2231 §3 and §4)
+const EXTENDED_PARAM_REGEX = /^(.+?)\*(\d+)?(\*)?$/;
+
+function percentDecode(value: string): Uint8Array {
+  const bytes: number[] = [];
+  const encoder = new TextEncoder();
+
+  for (let i = 0; i < value.length; i++) {
+    const hex = value.substring(i + 1, i + 3);
+    if (value[i] === '%' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(...encoder.encode(value[i]));
+    }
+  }
+
+  return Uint8Array.from(bytes);
+}
+
+/**
+ * Reassembles RFC 2231 continuations and decodes the percent-encoded
+ * sections using the charset declared in the first section
+ * (`charset'language'value`).
+ */
+function joinExtendedParam(sections: ExtendedParamSection[]): string {
+  const ordered = [...sections].sort((a, b) => a.index - b.index);
+  let charset = 'utf-8';
+  const chunks: Uint8Array[] = [];
+  const encoder = new TextEncoder();
+
+  ordered.forEach((section, i) => {
+    let value = section.value;
+    if (i === 0 && section.encoded) {
+      const match = value.match(/^([^']*)'[^']*'(.*)$/);
+      if (match) {
+        charset = match[1] || charset;
+        value = match[2];
+      }
+    }
+    chunks.push(section.encoded ? percentDecode(value) : encoder.encode(value));
+  });
+
+  return decodeCharsetLossy(concatBytes(chunks), charset);
+}
+
+/**
+ * Splits a structured header value such as `text/plain; charset="utf-8"`
+ * into its leading value and a map of lower-cased parameter names.
+ */
+export function parseHeaderParams(headerValue: string): {
+  value: string;
+  params: Record<string, string>;
+} {
+  const segments: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < headerValue.length; i++) {
+    const ch = headerValue[i];
+
+    if (ch === '\\' && inQuotes && i + 1 < headerValue.length) {
+      current += ch + headerValue[++i];
+    } else if (ch === '"') {
+      inQuotes = !inQuotes;
+      current += ch;
+    } else if (ch === ';' && !inQuotes) {
+      segments.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  segments.push(current);
+
+  const params: Record<string, string> = {};
+  const extended = new Map<string, ExtendedParamSection[]>();
+
+  for (const segment of segments.slice(1)) {
+    const eq = segment.indexOf('=');
+    if (eq === -1) continue;
+
+    const name = segment.substring(0, eq).trim().toLowerCase();
+    let value = segment.substring(eq + 1).trim();
+    if (value.startsWith('"') && value.endsWith('"') && value.length >= 2) {
+      value = value.slice(1, -1).replace(/\\(.)/g, '$1');
+    }
+    if (!name) continue;
+
+    const extendedMatch = name.match(EXTENDED_PARAM_REGEX);
+    if (extendedMatch) {
+      const [, baseName, section, star] = extendedMatch;
+      if (!extended.has(baseName)) {
+        extended.set(baseName, []);
+      }
+      extended.get(baseName)!.push({
+        index: section === undefined ? 0 : parseInt(section, 10),
+        encoded: section === undefined || star === '*',
+        value
+      });
+    } else {
+      params[name] = value;
+    }
+  }
+
+  // RFC 2231 values take precedence over their plain fallbacks
+  for (const [name, sections] of extended) {
+    params[name] = joinExtendedParam(sections);
+  }
+
+  return { value: segments[0].trim(), params };
+}
+
+export function parseContentType(headerValue: string | null): ContentType {
+  if (!headerValue) {
+    return { mimeType: 'text/plain', params: { charset: 'us-ascii' } };
+  }
+
+  const { value, params } = parseHeaderParams(headerValue);
+  const mimeType = value.toLowerCase();
+
+  // RFC 2045 §5.2: syntactically invalid types default to text/plain
+  if (!/^[^\s/]+\/[^\s/]+$/.test(mimeType)) {
+    return { mimeType: 'text/plain', params };
+  }
+
+  return { mimeType, params };
+}
+
+/**
+ * Splits a MIME entity (an LF-normalized byte string) into its header map
+ * and body. Header values are decoded as UTF-8; the body stays bytes.
+ */
+export function parsePart(raw: string): { headers: Map<string, string[]>; body: string } {
+  const headers = new Map<string, string[]>();
+  const lines = raw.split('\n');
+  let currentHeader: string | null = null;
+  let currentValue: string[] = [];
+  let bodyStart = lines.length;
+
+  const flush = () => {
+    if (!currentHeader) return;
+    const name = currentHeader.toLowerCase();
+    if (!headers.has(name)) {
+      headers.set(name, []);
+    }
+    headers.get(name)!.push(decodeBinary(currentValue.join('\n').replace(/\n[ \t]+/g, ' ').trim()));
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line === '') {
+      bodyStart = i + 1;
+      break;
+    }
+
+    if (/^[ \t]/.test(line)) {
+      if (currentHeader) {
+        currentValue.push(line);
+      }
+      continue;
+    }
+
+    const headerMatch = line.match(HEADER_REGEX);
+    if (headerMatch) {
+      flush();
+      currentHeader = headerMatch[1];
+      currentValue = [headerMatch[2]];
+    } else if (headers.size === 0 && !currentHeader) {
+      // No header block at all: the whole entity is body
+      bodyStart = 0;
+      break;
+    }
+  }
+  flush();
+
+  return { headers, body: lines.slice(bodyStart).join('\n') };
+}
+
+/**
+ * Splits a multipart body on its boundary, discarding preamble and epilogue.
+ * A missing close delimiter (truncated message) keeps the parts seen so far.
+ */
+export function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`;
+  const closeDelimiter = `${delimiter}--`;
+  const parts: string[] = [];
+  let current: string[] | null = null;
+
+  for (const line of body.split('\n')) {
+    const trimmed = line.trimEnd();
+
+    if (trimmed === closeDelimiter) {
+      if (current) parts.push(current.join('\n'));
+      current = null;
+      return parts;
+    }
+
+    if (trimmed === delimiter) {
+      if (current) parts.push(current.join('\n'));
+      current = [];
+      continue;
+    }
+
+    if (current) {
+      current.push(line);
+    }
+  }
+
+  if (current) parts.push(current.join('\n'));
+  return parts;
+}
+
+export function parseMIMETree(
+  headers: Map<string, string[]>,
+  body: string,
+  depth = 0
+): MIMEPart {
+  const contentType = parseContentType(getPartHeader(headers, 'Content-Type'));
+  const part: MIMEPart = { headers, contentType, body, parts: [] };
+
+  if (depth >= MAX_DEPTH) {
+    return part;
+  }
+
+  if (contentType.mimeType.startsWith('multipart/')) {
+    const boundary = contentType.params.boundary;
+    if (!boundary) {
+      // Unsplittable multipart: show it as plain text rather than losing it
+      part.contentType = { mimeType: 'text/plain', params: contentType.params };
+      return part;
+    }
+
+    for (const rawPart of splitMultipart(body, boundary)) {
+      const child = parsePart(rawPart);
+      part.parts.push(parseMIMETree(child.headers, child.body, depth + 1));
+    }
+  } else if (contentType.mimeType === 'message/rfc822') {
+    const embedded = parsePart(body);
+    part.parts.push(parseMIMETree(embedded.headers, embedded.body, depth + 1));
+  }
+
+  return part;
+}
+
+/**
+ * Whether a part is an attachment rather than body content: it has an
+ * attachment disposition, or a filename and no disposition at all.
+ */
+export function isAttachmentPart(part: MIMEPart): boolean {
+  const disposition = getPartHeader(part.headers, 'Content-Disposition');
+  if (!disposition) return getPartFilename(part) !== null;
+  return parseHeaderParams(disposition).value.toLowerCase() === 'attachment';
+}
+
+function transferEncoding(part: MIMEPart): string {
+  return (getPartHeader(part.headers, 'Content-Transfer-Encoding') || '7bit').trim().toLowerCase();
+}
+
+function isIdentityEncoded(part: MIMEPart): boolean {
+  return ['7bit', '8bit', 'binary'].includes(transferEncoding(part));
+}
+
+/**
+ * Undoes the part's Content-Transfer-Encoding. Identity encodings (7bit,
+ * 8bit, binary) return the body's bytes as they are; unsupported encodings
+ * return null.
+ */
+export function decodeTransferEncoding(
+  part: MIMEPart,
+  onIssue?: DecodeIssueCallback
+): Uint8Array | null {
+  const encoding = transferEncoding(part);
+
+  switch (encoding) {
+    case 'base64':
+      try {
+        return decodeBase64(part.body);
+      } catch (error) {
+        onIssue?.({
+          message: `Malformed base64 body: ${(error as Error).message}`,
+          context: part.contentType.mimeType
+        });
+        return decodeBase64(part.body, true);
+      }
+    case 'quoted-printable':
+      return decodeQuotedPrintable(part.body, false, true);
+    case '7bit':
+    case '8bit':
+    case 'binary':
+      return binaryToBytes(part.body);
+    default:
+      onIssue?.({
+        message: `Unsupported Content-Transfer-Encoding "${encoding}"; body left undecoded`,
+        context: part.contentType.mimeType
+      });
+      return null;
+  }
+}
+
+/**
+ * Decodes a text part to Unicode using its transfer encoding and charset.
+ * Unknown charsets and invalid byte sequences are reported through
+ * `onIssue` and decoded lossily instead of failing the whole message.
+ */
+export function decodePartText(part: MIMEPart, onIssue?: DecodeIssueCallback): string {
+  const bytes = decodeTransferEncoding(part, onIssue);
+  if (!bytes) {
+    return decodeBinary(part.body);
+  }
+
+  // Undeclared 8-bit text is mostly UTF-8 in practice, and ASCII is a subset of it
+  const declared = normalizeCharset(part.contentType.params.charset);
+  const charset = declared === 'us-ascii' && isIdentityEncoded(part) ? 'utf-8' : declared;
+  try {
+    return decodeCharset(bytes, charset);
+  } catch (error) {
+    onIssue?.({
+      message: error instanceof RangeError
+        ? `Unknown charset "${charset}"; decoded as UTF-8`
+        : `Invalid ${charset} byte sequence; undecodable bytes replaced`,
+      context: part.contentType.mimeType
+    });
+    return decodeCharsetLossy(bytes, charset);
+  }
+}
+
+/**
+ * Picks the displayable text/plain and text/html content from a MIME tree.
+ * For multipart/alternative the last (most faithful) alternative of each type
+ * wins; for other multiparts inline text parts are concatenated in order.
+ * Embedded message/rfc822 parts are not merged into the outer body.
+ */
+export function extractBodies(root: MIMEPart, onIssue?: DecodeIssueCallback): MIMEBodies {
+  const text: string[] = [];
+  const html: string[] = [];
+
+  const walk = (part: MIMEPart, out: { text: string[]; html: string[] }) => {
+    const { mimeType } = part.contentType;
+
+    if (mimeType === 'multipart/alternative') {
+      let bestText: string[] = [];
+      let bestHtml: string[] = [];
+
+      for (const child of part.parts) {
+        const candidate = { text: [] as string[], html: [] as string[] };
+        walk(child, candidate);
+        if (candidate.text.length > 0) bestText = candidate.text;
+        if (candidate.html.length > 0) bestHtml = candidate.html;
+      }
+
+      out.text.push(...bestText);
+      out.html.push(...bestHtml);
+      return;
+    }
+
+    if (mimeType.startsWith('multipart/')) {
+      for (const child of part.parts) {
+        walk(child, out);
+      }
+      return;
+    }
+
+    if (isAttachmentPart(part)) {
+      return;
+    }
+
+    if (mimeType === 'text/plain') {
+      out.text.push(decodePartText(part, onIssue));
+    } else if (mimeType === 'text/html') {
+      out.html.push(decodePartText(part, onIssue));
+    }
+  };
+
+  walk(root, { text, html });
+
+  return { text: text.join('\n'), html: html.join('\n') };
+}
+
+function getPartFilename(part: MIMEPart): string | null {
+  const disposition = getPartHeader(part.headers, 'Content-Disposition');
+  const filename = (disposition && parseHeaderParams(disposition).params.filename)
+    || part.contentType.params.name;
+
+  // Many clients put RFC 2047 encoded-words in quoted filenames
+  return filename ? decodeEncodedWords(filename) : null;
+}
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  const buffer = new ArrayBuffer(bytes.byteLength);
+  new Uint8Array(buffer).set(bytes);
+  return buffer;
+}
+
+/**
+ * Lists attachment parts of a MIME tree: attachment parts, non-text parts
+ * with a filename or referenced by Content-ID, and embedded message/rfc822
+ * parts. Inline text parts are body content, not attachments. Sizes are
+ * decoded sizes.
+ */
+export function extractAttachments(root: MIMEPart, onIssue?: DecodeIssueCallback): Attachment[] {
+  const attachments: Attachment[] = [];
+
+  const walk = (part: MIMEPart) => {
+    const { mimeType } = part.contentType;
+
+    if (mimeType.startsWith('multipart/')) {
+      part.parts.forEach(walk);
+      return;
+    }
+
+    const filename = getPartFilename(part);
+    const contentId = getPartHeader(part.headers, 'Content-ID')?.replace(/^<|>$/g, '').trim();
+    const isText = mimeType === 'text/plain' || mimeType === 'text/html';
+    const isEmbeddedMessage = mimeType === 'message/rfc822';
+
+    // Text parts that are not attachments are shown as the body instead
+    if (!isAttachmentPart(part) && (isText || (!filename && !isEmbeddedMessage && !contentId))) {
+      return;
+    }
+
+    const bytes = decodeTransferEncoding(part, onIssue) ?? binaryToBytes(part.body);
+
+    attachments.push({
+      filename: filename || (isEmbeddedMessage ? 'message.eml' : `attachment-${attachments.length + 1}`),
+      mimeType,
+      size: bytes.byteLength,
+      contentId: contentId || undefined,
+      data: toArrayBuffer(bytes)
+    });
+  };
+
+  walk(root);
+  return attachments;
+}
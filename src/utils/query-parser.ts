@@ -0,0 +1,317 @@
+// src/utils/query-parser.ts
+// Gmail-style search syntax parsing into QueryNode trees
+
+import type { QueryNode, SearchQuery } from '../types';
+
+/** A malformed query; `position` is the offset in the query string where it goes wrong. */
+export class QuerySyntaxError extends Error {
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'QuerySyntaxError';
+    this.position = position;
+  }
+}
+
+type TokenKind = 'word' | 'phrase' | 'open' | 'close' | 'or' | 'and' | 'not';
+
+interface Token {
+  kind: TokenKind;
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Gmail Takeout exports carry labels in this header
+const LABELS_HEADER = 'X-Gmail-Labels';
+
+const SIZE_UNITS: Record<string, number> = { '': 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3 };
+
+function closingQuote(input: string, open: number): number {
+  const close = input.indexOf('"', open + 1);
+  if (close === -1) throw new QuerySyntaxError('Unterminated quote', open);
+  return close;
+}
+
+/**
+ * Splits a query into words, quoted phrases, parentheses, OR, AND and
+ * leading minus signs. A quote inside a word, as in subject:"a b", runs
+ * to its closing quote.
+ */
+function lex(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '(' || ch === ')') {
+      tokens.push({ kind: ch === '(' ? 'open' : 'close', text: ch, start: i, end: i + 1 });
+      i++;
+    } else if (ch === '"') {
+      const end = closingQuote(input, i) + 1;
+      tokens.push({ kind: 'phrase', text: input.slice(i, end), start: i, end });
+      i = end;
+    } else if (ch === '-') {
+      tokens.push({ kind: 'not', text: ch, start: i, end: i + 1 });
+      i++;
+    } else {
+      const start = i;
+      while (i < input.length && !/[\s()]/.test(input[i])) {
+        i = input[i] === '"' ? closingQuote(input, i) + 1 : i + 1;
+      }
+      const text = input.slice(start, i);
+      const kind = text === 'OR' ? 'or' : text === 'AND' ? 'and' : 'word';
+      tokens.push({ kind, text, start, end: i });
+    }
+  }
+
+  return tokens;
+}
+
+function unquote(value: string): string {
+  return value.length >= 2 && value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value;
+}
+
+// Dates are local calendar days, as in Gmail; YYYY/MM/DD or YYYY-MM-DD
+function parseDate(value: string, position: number): Date {
+  const match = /^(\d{4})[/-](\d{1,2})[/-](\d{1,2})$/.exec(value);
+  const date = match && new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  if (!match || !date || date.getMonth() !== Number(match[2]) - 1 || date.getDate() !== Number(match[3])) {
+    throw new QuerySyntaxError(`Invalid date "${value}", expected YYYY/MM/DD`, position);
+  }
+  return date;
+}
+
+function parseSize(value: string, position: number): number {
+  const match = /^(\d+(?:\.\d+)?)([kmg]?)b?$/i.exec(value);
+  if (!match) throw new QuerySyntaxError(`Invalid size "${value}", expected e.g. 500K or 10M`, position);
+  return Math.round(Number(match[1]) * SIZE_UNITS[match[2].toLowerCase()]);
+}
+
+type OperatorCompiler = (value: string, position: number) => SearchQuery;
+
+const OPERATORS: Record<string, OperatorCompiler> = {
+  from: (value) => ({ from: value }),
+  to: (value) => ({ to: value }),
+  subject: (value) => ({ subject: value }),
+  body: (value) => ({ bodyContains: value }),
+  after: (value, position) => ({ dateFrom: parseDate(value, position) }),
+  before: (value, position) => ({ dateTo: new Date(parseDate(value, position).getTime() - 1) }),
+  larger: (value, position) => ({ largerThan: parseSize(value, position) }),
+  smaller: (value, position) => ({ smallerThan: parseSize(value, position) }),
+  label: (value) => ({ headers: { [LABELS_HEADER]: value } }),
+  in: (value) => ({ headers: { [LABELS_HEADER]: value } }),
+  has: (value, position) => {
+    switch (value.toLowerCase()) {
+      case 'attachment':
+        return { hasAttachment: true };
+      case 'note':
+      case 'notes':
+        return { hasNotes: true };
+    }
+    throw new QuerySyntaxError(`Unknown has: value "${value}", expected attachment or notes`, position);
+  },
+  is: (value, position) => {
+    switch (value.toLowerCase()) {
+      case 'starred':
+      case 'favorite':
+        return { favorites: true };
+      case 'unread':
+      case 'important':
+        return { headers: { [LABELS_HEADER]: value } };
+    }
+    throw new QuerySyntaxError(`Unknown is: value "${value}", expected starred, unread or important`, position);
+  },
+  // header:Name:value, or header:Name for any value
+  header: (value, position) => {
+    const separator = value.indexOf(':');
+    const name = separator === -1 ? value : value.slice(0, separator);
+    if (!name) throw new QuerySyntaxError('Expected a header name, as in header:X-Mailer:value', position);
+    return { headers: { [name]: separator === -1 ? '' : unquote(value.slice(separator + 1)) } };
+  }
+};
+
+function compileTerm(token: Token): QueryNode {
+  const leaf = (query: SearchQuery): QueryNode => ({ type: 'match', query, start: token.start, end: token.end });
+
+  if (token.kind === 'phrase') {
+    if (!/[\p{L}\p{N}]/u.test(token.text)) throw new QuerySyntaxError('Empty phrase', token.start);
+    return leaf({ text: token.text });
+  }
+
+  const match = /^([a-z]+):/i.exec(token.text);
+  if (!match) return leaf({ text: token.text });
+
+  // As in Gmail, re:meeting or a pasted http://host is just text
+  const operator = match[1].toLowerCase();
+  if (!Object.prototype.hasOwnProperty.call(OPERATORS, operator)) return leaf({ text: token.text });
+
+  const position = token.start + match[0].length;
+  const value = unquote(token.text.slice(match[0].length));
+  if (!value) throw new QuerySyntaxError(`Expected a value after ${match[0]}`, position);
+  return leaf(OPERATORS[operator](value, position));
+}
+
+/**
+ * Recursive descent over the tokens. As in Gmail, OR binds tighter than
+ * the implicit AND between terms, so `a b OR c` is a AND (b OR c).
+ */
+class QueryParser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[], private readonly length: number) {}
+
+  parse(): QueryNode {
+    const node = this.parseAnd();
+    const extra = this.peek();
+    if (extra) throw new QuerySyntaxError('Unmatched closing parenthesis', extra.start);
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private isOperand(token: Token | undefined): boolean {
+    return token !== undefined && ['word', 'phrase', 'open', 'not'].includes(token.kind);
+  }
+
+  private expectOperand(after: Token): void {
+    if (!this.isOperand(this.peek())) {
+      throw new QuerySyntaxError(`Expected a term after ${after.text}`, this.peek()?.start ?? this.length);
+    }
+  }
+
+  private parseAnd(): QueryNode {
+    const children: QueryNode[] = [];
+
+    for (let token = this.peek(); token && token.kind !== 'close'; token = this.peek()) {
+      if (token.kind === 'or' || (token.kind === 'and' && children.length === 0)) {
+        throw new QuerySyntaxError(`Expected a term before ${token.text}`, token.start);
+      }
+      if (token.kind === 'and') {
+        this.index++;
+        this.expectOperand(token);
+      }
+      children.push(this.parseOr());
+    }
+
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  }
+
+  private parseOr(): QueryNode {
+    const children = [this.parseUnary()];
+
+    for (let token = this.peek(); token?.kind === 'or'; token = this.peek()) {
+      this.index++;
+      this.expectOperand(token);
+      children.push(this.parseUnary());
+    }
+
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  private parseUnary(): QueryNode {
+    const token = this.peek()!;
+    if (token.kind !== 'not') return this.parsePrimary();
+
+    this.index++;
+    this.expectOperand(token);
+    return { type: 'not', child: this.parseUnary() };
+  }
+
+  private parsePrimary(): QueryNode {
+    const token = this.tokens[this.index++];
+    if (token.kind !== 'open') return compileTerm(token);
+
+    if (this.peek()?.kind === 'close') throw new QuerySyntaxError('Empty parentheses', token.start);
+    const node = this.parseAnd();
+    if (this.peek()?.kind !== 'close') throw new QuerySyntaxError('Missing closing parenthesis', token.start);
+    this.index++;
+    return node;
+  }
+}
+
+/**
+ * Parses Gmail search syntax: words and "quoted phrases" searched as text,
+ * operators such as from:alice, subject:"invoice", after:2023/01/01,
+ * before:, has:attachment, is:starred, label:spam, larger:10M, smaller:,
+ * header:X-Mailer:foo and body:, negation with a leading -, OR, AND and
+ * parentheses. Other word: prefixes are text. An empty query matches everything. Throws a
+ * QuerySyntaxError pointing at the offending part of a malformed query.
+ */
+export function parseQuery(input: string): QueryNode {
+  return new QueryParser(lex(input), input.length).parse();
+}
+
+function formatValue(value: string): string {
+  const plain = value.replace(/"/g, '');
+  return plain && !/[\s()]/.test(plain) ? plain : `"${plain}"`;
+}
+
+function formatDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}/${pad(date.getMonth() + 1)}/${pad(date.getDate())}`;
+}
+
+function formatFlag(value: boolean | undefined, term: string): string[] {
+  return value === undefined ? [] : [value ? term : `-${term}`];
+}
+
+// The terms of a query's fields, each one operand in Gmail syntax
+function formatTerms(query: SearchQuery): string[] {
+  const terms: string[] = [];
+  if (query.text) terms.push(query.text.trim());
+  if (query.from) terms.push(`from:${formatValue(query.from)}`);
+  if (query.to) terms.push(`to:${formatValue(query.to)}`);
+  if (query.subject) terms.push(`subject:${formatValue(query.subject)}`);
+  if (query.bodyContains) terms.push(`body:${formatValue(query.bodyContains)}`);
+  if (query.dateFrom) terms.push(`after:${formatDate(query.dateFrom)}`);
+  // before: is exclusive, so a range ending within a day names the next one
+  if (query.dateTo) terms.push(`before:${formatDate(new Date(query.dateTo.getTime() + 1))}`);
+  if (query.largerThan !== undefined) terms.push(`larger:${query.largerThan}`);
+  if (query.smallerThan !== undefined) terms.push(`smaller:${query.smallerThan}`);
+  for (const [name, value] of Object.entries(query.headers ?? {})) {
+    if (name.toLowerCase() === LABELS_HEADER.toLowerCase()) {
+      terms.push(`label:${formatValue(value)}`);
+    } else {
+      terms.push(value ? `header:${name}:${formatValue(value)}` : `header:${name}`);
+    }
+  }
+  terms.push(...formatFlag(query.favorites, 'is:starred'));
+  terms.push(...formatFlag(query.hasNotes, 'has:notes'));
+  terms.push(...formatFlag(query.hasAttachment, 'has:attachment'));
+  if (query.expression) terms.push(formatNode(query.expression, 'and'));
+  return terms;
+}
+
+// `within` is the operator around the node, which decides whether it needs parentheses
+function formatNode(node: QueryNode, within: 'and' | 'or' | 'not'): string {
+  switch (node.type) {
+    case 'and': {
+      const text = node.children.map((child) => formatNode(child, 'and')).join(' ');
+      return within === 'and' ? text : `(${text})`;
+    }
+    case 'or': {
+      const text = node.children.map((child) => formatNode(child, 'or')).join(' OR ');
+      return within === 'not' ? `(${text})` : text;
+    }
+    case 'not':
+      return `-${formatNode(node.child, 'not')}`;
+    case 'match': {
+      const terms = formatTerms(node.query);
+      return terms.length === 1 || within === 'and' ? terms.join(' ') : `(${terms.join(' ')})`;
+    }
+  }
+}
+
+/**
+ * Writes a query back in the syntax parseQuery() reads, e.g. to record
+ * which search found an email.
+ */
+export function formatQuery(query: SearchQuery): string {
+  return formatTerms(query).join(' ');
+}
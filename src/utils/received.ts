@@ -0,0 +1,130 @@
+// src/utils/received.ts
+// Received header (RFC 5321 §4.4) parsing into hop records
+
+import type { ReceivedHeader } from '../types';
+
+const CLAUSE_KEYWORDS = ['from', 'by', 'via', 'with', 'id', 'for'] as const;
+type ClauseKeyword = typeof CLAUSE_KEYWORDS[number];
+
+/**
+ * Splits on whitespace outside parentheses, so comments such as
+ * "(mail.example.com [192.0.2.1])" stay attached as single words.
+ */
+function splitWords(value: string): string[] {
+  const words: string[] = [];
+  let current = '';
+  let depth = 0;
+
+  for (const ch of value) {
+    if (ch === '(') depth++;
+    if (ch === ')') depth = Math.max(0, depth - 1);
+
+    if (/\s/.test(ch) && depth === 0) {
+      if (current) words.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  if (current) words.push(current);
+
+  return words;
+}
+
+/**
+ * Finds the ';' that introduces the timestamp, skipping any inside comments.
+ */
+function findDateSeparator(value: string): number {
+  let depth = 0;
+  let separator = -1;
+
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '(') depth++;
+    else if (value[i] === ')') depth = Math.max(0, depth - 1);
+    else if (value[i] === ';' && depth === 0) separator = i;
+  }
+
+  return separator;
+}
+
+export function parseReceivedDate(value: string): Date | undefined {
+  // Trailing zone comments like "(PST)" or "(UTC)" confuse Date parsing
+  const cleaned = value.replace(/\([^)]*\)/g, ' ').replace(/\s+/g, ' ').trim();
+  if (!cleaned) return undefined;
+
+  const date = new Date(cleaned);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Parses one Received header into its from/by/via/with/id/for clauses and
+ * timestamp. Clause values keep their comments, e.g. Postfix's
+ * "host (rdns [ip])" or Exchange's "Microsoft SMTP Server (version=...)".
+ * Headers with no recognizable clauses (qmail's "(qmail 123 invoked by
+ * uid 89)") keep everything in `raw` and only yield a date.
+ */
+export function parseReceived(raw: string): ReceivedHeader {
+  const separator = findDateSeparator(raw);
+  const clausePart = separator === -1 ? raw : raw.substring(0, separator);
+  const datePart = separator === -1 ? '' : raw.substring(separator + 1);
+
+  const clauses: Partial<Record<ClauseKeyword, string[]>> = {};
+  let current: ClauseKeyword | null = null;
+
+  for (const word of splitWords(clausePart)) {
+    const keyword = word.toLowerCase() as ClauseKeyword;
+    if (CLAUSE_KEYWORDS.includes(keyword) && !clauses[keyword]) {
+      current = keyword;
+      clauses[keyword] = [];
+    } else if (current) {
+      clauses[current]!.push(word);
+    }
+  }
+
+  const clause = (keyword: ClauseKeyword) => {
+    const text = clauses[keyword]?.join(' ').trim();
+    return text || undefined;
+  };
+
+  const header: ReceivedHeader = {
+    from: clause('from') || '',
+    by: clause('by') || '',
+    raw
+  };
+
+  const via = clause('via');
+  const withClause = clause('with');
+  const id = clause('id');
+  const forClause = clause('for');
+  const date = parseReceivedDate(datePart);
+
+  if (via) header.via = via;
+  if (withClause) header.with = withClause;
+  if (id) header.id = id;
+  if (forClause) header.for = forClause.replace(/^<([^>]*)>$/, '$1');
+  if (date) header.date = date;
+
+  return header;
+}
+
+/**
+ * Builds the hop-by-hop chain from Received headers in message order
+ * (newest first, as each relay prepends its own). The chain runs from the
+ * originating hop to the final delivery, and each hop records the delay
+ * since the previous timestamped hop.
+ */
+export function buildReceivedChain(values: string[]): ReceivedHeader[] {
+  const chain = values.map(parseReceived).reverse();
+  let previous: Date | undefined;
+
+  for (const hop of chain) {
+    if (hop.date && previous) {
+      hop.delay = hop.date.getTime() - previous.getTime();
+    }
+    if (hop.date) {
+      previous = hop.date;
+    }
+  }
+
+  return chain;
+}
@@ -0,0 +1,70 @@
+// src/utils/token-diff.ts
+// Token-level differences between header values
+
+export interface DiffToken {
+  text: string;
+  changed: boolean;
+}
+
+// Past this many token pairs the LCS table is too large to be worth building
+const MAX_LCS_CELLS = 1_000_000;
+
+/**
+ * Splits a header value into words, runs of whitespace and single
+ * punctuation marks, so that "a=1; b=2" diffs as a, =, 1, ;, b, =, 2
+ * and an address as its local part, @ and domain.
+ * Base64 runs such as DKIM's b= stay whole.
+ */
+export function tokenizeHeader(value: string): string[] {
+  return value.match(/\s+|[^\s;=,@<>()[\]"]+|[;=,@<>()[\]"]/g) ?? [];
+}
+
+/**
+ * Index pairs of a longest common subsequence of `a` and `b`, in order.
+ * Returns no pairs when the inputs are too long to align.
+ */
+export function longestCommonSubsequence<T>(
+  a: readonly T[],
+  b: readonly T[],
+  equal: (x: T, y: T) => boolean = (x, y) => x === y
+): Array<[number, number]> {
+  if (a.length * b.length > MAX_LCS_CELLS) return [];
+
+  // lengths[i][j] is the LCS length of a[i:] and b[j:]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = equal(a[i], b[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (equal(a[i], b[j])) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+/**
+ * The tokens of `value`, each marked changed unless it lines up with the
+ * same token in `base`. Whitespace never counts as a change.
+ */
+export function diffTokens(base: string, value: string): DiffToken[] {
+  const baseTokens = tokenizeHeader(base);
+  const tokens = tokenizeHeader(value);
+  const kept = new Set(longestCommonSubsequence(baseTokens, tokens).map(([, j]) => j));
+
+  return tokens.map((text, j) => ({ text, changed: !kept.has(j) && /\S/.test(text) }));
+}
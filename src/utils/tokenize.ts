@@ -0,0 +1,14 @@
+// src/utils/tokenize.ts
+// Word tokenization shared by the full-text index and its queries
+
+const WORD = /[\p{L}\p{N}]+/gu;
+const COMBINING_MARKS = /\p{M}+/gu;
+
+/**
+ * Splits text into lowercase runs of letters and digits, with accents
+ * removed so "Café" and "cafe" index alike. Punctuation separates words,
+ * so "alice@example.com" becomes alice, example, com.
+ */
+export function tokenize(text: string): string[] {
+  return text.normalize('NFKD').replace(COMBINING_MARKS, '').toLowerCase().match(WORD) ?? [];
+}
@@ -0,0 +1,121 @@
+// src/utils/zip.ts
+// Minimal ZIP archive reader: central directory listing, stored and deflated entries
+
+export interface ZipEntry {
+  path: string;
+  method: number;
+  flags: number;
+  compressedSize: number;
+  size: number;
+  headerOffset: number; // offset of the entry's local file header
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const EOCD_MIN_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+const FLAG_ENCRYPTED = 0x1;
+const FLAG_UTF8 = 0x800;
+
+async function readBytes(blob: Blob, start: number, end: number): Promise<DataView> {
+  return new DataView(await blob.slice(start, end).arrayBuffer());
+}
+
+export function isZip(head: Uint8Array): boolean {
+  return head.length >= 4
+    && new DataView(head.buffer, head.byteOffset, 4).getUint32(0, true) === LOCAL_SIGNATURE;
+}
+
+/**
+ * Lists the file entries of a ZIP archive from its central directory.
+ * Directory entries are left out. ZIP64 archives are not supported.
+ */
+export async function listZipEntries(blob: Blob): Promise<ZipEntry[]> {
+  const tailStart = Math.max(0, blob.size - EOCD_MIN_SIZE - MAX_COMMENT_SIZE);
+  const tail = await readBytes(blob, tailStart, blob.size);
+
+  let eocd = -1;
+  for (let i = tail.byteLength - EOCD_MIN_SIZE; i >= 0; i--) {
+    if (tail.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('Not a ZIP archive: end of central directory not found');
+  }
+
+  const count = tail.getUint16(eocd + 10, true);
+  const directorySize = tail.getUint32(eocd + 12, true);
+  const directoryOffset = tail.getUint32(eocd + 16, true);
+  if (count === 0xffff || directoryOffset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const directory = await readBytes(blob, directoryOffset, directoryOffset + directorySize);
+  const entries: ZipEntry[] = [];
+  let position = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (position + 46 > directory.byteLength || directory.getUint32(position, true) !== CENTRAL_SIGNATURE) {
+      throw new Error(`Corrupt ZIP central directory at entry ${i}`);
+    }
+
+    const flags = directory.getUint16(position + 8, true);
+    const nameLength = directory.getUint16(position + 28, true);
+    const extraLength = directory.getUint16(position + 30, true);
+    const commentLength = directory.getUint16(position + 32, true);
+    const nameBytes = new Uint8Array(directory.buffer, position + 46, nameLength);
+    // Without the UTF-8 flag names are CP437, which agrees with UTF-8 for ASCII
+    const path = new TextDecoder(flags & FLAG_UTF8 ? 'utf-8' : 'latin1').decode(nameBytes);
+
+    if (!path.endsWith('/')) {
+      entries.push({
+        path,
+        method: directory.getUint16(position + 10, true),
+        flags,
+        compressedSize: directory.getUint32(position + 20, true),
+        size: directory.getUint32(position + 24, true),
+        headerOffset: directory.getUint32(position + 42, true)
+      });
+    }
+
+    position += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Reads and decompresses one entry. Stored and deflated entries are
+ * supported; encrypted entries and other methods throw.
+ */
+export async function readZipEntry(blob: Blob, entry: ZipEntry): Promise<Uint8Array> {
+  if (entry.flags & FLAG_ENCRYPTED) {
+    throw new Error(`${entry.path}: encrypted entries are not supported`);
+  }
+
+  const header = await readBytes(blob, entry.headerOffset, entry.headerOffset + 30);
+  if (header.byteLength < 30 || header.getUint32(0, true) !== LOCAL_SIGNATURE) {
+    throw new Error(`${entry.path}: local file header not found`);
+  }
+
+  // The local header's name and extra field lengths may differ from the central directory's
+  const dataStart = entry.headerOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+  const data = blob.slice(dataStart, dataStart + entry.compressedSize);
+
+  switch (entry.method) {
+    case METHOD_STORED:
+      return new Uint8Array(await data.arrayBuffer());
+    case METHOD_DEFLATE: {
+      const inflated = data.stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      return new Uint8Array(await new Response(inflated).arrayBuffer());
+    }
+    default:
+      throw new Error(`${entry.path}: unsupported compression method ${entry.method}`);
+  }
+}
@@ -0,0 +1,43 @@
+// src/workers/search-indexer.worker.ts
+// Search Web Worker: holds the searchable projection of the loaded emails
+import type { IndexSegment } from '../services/InvertedIndex';
+import { SearchIndex, type SearchDocument, type UserState } from '../services/SearchIndex';
+import type { SearchQuery } from '../types';
+
+const index = new SearchIndex();
+
+self.onmessage = (e: MessageEvent) => {
+  const { command, requestId, data } = e.data;
+
+  try {
+    switch (command) {
+      case 'add':
+        index.add(data.documents as SearchDocument[], data.index as IndexSegment | undefined);
+        break;
+      case 'clear':
+        index.clear();
+        break;
+      case 'userState':
+        index.setUserState(data as UserState);
+        break;
+      case 'search': {
+        const { query, page, pageSize } = data as { query: SearchQuery; page: number; pageSize: number };
+        self.postMessage({
+          type: 'results',
+          requestId,
+          data: index.search(query, page, pageSize)
+        });
+        break;
+      }
+    }
+  } catch (error) {
+    self.postMessage({
+      type: 'error',
+      requestId,
+      data: {
+        message: (error as Error).message,
+        stack: (error as Error).stack
+      }
+    });
+  }
+};
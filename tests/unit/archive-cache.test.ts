@@ -0,0 +1,113 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { ArchiveCache } from '../../src/services/ArchiveCache';
+import { buildIndexSegment } from '../../src/services/InvertedIndex';
+import { MBOXParser } from '../../src/services/MBOXParser';
+import { SearchIndex, toSearchDocument } from '../../src/services/SearchIndex';
+import { fileFingerprint } from '../../src/utils/identity';
+
+const mbox = [
+  'From alice@example.com Mon Jan 01 00:00:00 2024',
+  'From: Alice <alice@example.com>',
+  'Subject: First',
+  'Message-ID: <first@example.com>',
+  '',
+  'Hello',
+  '>From the quoted line',
+  '',
+  'From bob@example.com Tue Jan 02 00:00:00 2024',
+  'From: Bob <bob@example.com>',
+  'Subject: Second',
+  'Content-Type: multipart/mixed; boundary="b"',
+  '',
+  '--b',
+  'Content-Type: text/plain',
+  '',
+  'See attached',
+  '--b',
+  'Content-Type: text/plain; name="notes.txt"',
+  'Content-Disposition: attachment; filename="notes.txt"',
+  '',
+  'attachment body',
+  '--b--',
+  ''
+].join('\n');
+
+describe('Archive Cache - Storage', () => {
+  let cache: ArchiveCache;
+  let file: File;
+  let fingerprint: string;
+
+  beforeEach(async () => {
+    cache = new ArchiveCache({ factory: new IDBFactory() });
+    file = new File([mbox], 'archive.mbox', { lastModified: 1000 });
+    fingerprint = await fileFingerprint(file);
+  });
+
+  afterEach(async () => {
+    await cache.close();
+  });
+
+  async function parseAndCache() {
+    const parser = new MBOXParser();
+    const { emails, errors, stats } = await parser.parseFile(file);
+    const index = buildIndexSegment(emails.map(e => toSearchDocument(e)));
+    await cache.save(file, fingerprint, 'mbox', emails, { errors, stats }, index);
+    return emails;
+  }
+
+  it('should store headers and locations but not bodies', async () => {
+    const parsed = await parseAndCache();
+    const cached = await cache.load(file, fingerprint);
+
+    expect(cached?.info).toMatchObject({ fileName: 'archive.mbox', kind: 'mbox', emailCount: 2 });
+    expect(cached?.summary.stats.variant).toBe('mboxrd');
+    expect(cached?.emails.map(e => e.uid)).toEqual(parsed.map(e => e.uid));
+    expect(cached?.emails[1].headers).toEqual(parsed[1].headers);
+    expect(cached?.emails[1].location).toEqual(parsed[1].location);
+    expect(cached?.emails[1].body.text).toBe('');
+    expect(cached?.emails[1].body.attachments).toEqual([
+      expect.objectContaining({ filename: 'notes.txt', data: undefined })
+    ]);
+  });
+
+  it('should load bodies lazily from the original file by offset', async () => {
+    const parsed = await parseAndCache();
+    const cached = await cache.load(file, fingerprint);
+
+    for (let i = 0; i < parsed.length; i++) {
+      const body = await ArchiveCache.loadBody(cached!.emails[i], file);
+      expect(body.text).toBe(parsed[i].body.text);
+      expect(body.attachments.map(a => a.size)).toEqual(parsed[i].body.attachments.map(a => a.size));
+    }
+    expect(parsed[0].body.text).toContain('\nFrom the quoted line');
+  });
+
+  it('should keep deferred bodies searchable through the stored index', async () => {
+    await parseAndCache();
+    const cached = await cache.load(file, fingerprint);
+
+    const search = new SearchIndex();
+    search.add(cached!.emails.map(e => toSearchDocument(e)), cached!.index);
+
+    expect(search.search({ text: 'attached' }).uids).toEqual([cached!.emails[1].uid]);
+    expect(search.search({ bodyContains: 'quoted line' }).uids).toEqual([cached!.emails[0].uid]);
+  });
+
+  it('should miss when the file was modified, and after eviction', async () => {
+    await parseAndCache();
+
+    const touched = new File([mbox], 'archive.mbox', { lastModified: 2000 });
+    expect(await cache.load(touched, fingerprint)).toBeNull();
+
+    // A renamed copy with the same content and modification time still hits
+    const renamed = new File([mbox], 'renamed.mbox', { lastModified: 1000 });
+    expect(await cache.load(renamed, fingerprint)).not.toBeNull();
+
+    expect((await cache.list()).map(a => a.fingerprint)).toEqual([fingerprint]);
+    await cache.evict(fingerprint);
+    expect(await cache.list()).toEqual([]);
+    expect(await cache.load(file, fingerprint)).toBeNull();
+  });
+});
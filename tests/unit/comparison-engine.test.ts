@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import { ComparisonEngine } from '../../src/services/ComparisonEngine';
+import { diffTokens, tokenizeHeader } from '../../src/utils/token-diff';
+import { makeEmail } from './fixtures';
+
+const engine = new ComparisonEngine();
+
+function received(by: string, from: string, id: string, date: string): string {
+  return `from ${from} (${from} [192.0.2.1]) by ${by} with ESMTPS id ${id}; ${date}`;
+}
+
+function changed(tokens: { text: string; changed: boolean }[] | null): string[] {
+  return (tokens ?? []).filter(token => token.changed).map(token => token.text);
+}
+
+describe('Comparison Engine - Headers', () => {
+  it('should classify headers as identical, different or missing', () => {
+    const result = engine.compare([
+      makeEmail('a', {
+        headers: {
+          subject: ['Invoice 42'],
+          from: ['Alice <alice@example.com>'],
+          'x-mailer': ['Outlook 16.0']
+        }
+      }),
+      makeEmail('b', {
+        headers: {
+          subject: ['Invoice  42'],
+          from: ['Alice <alice@examp1e.com>']
+        }
+      })
+    ]);
+
+    expect(result.uids).toEqual(['a', 'b']);
+    expect(result.headers.map(h => [h.name, h.status])).toEqual([
+      ['subject', 'identical'],
+      ['from', 'different'],
+      ['x-mailer', 'missing']
+    ]);
+    expect(result.counts).toEqual({ identical: 1, different: 1, missing: 1 });
+
+    const from = result.headers[1].rows[0];
+    expect(changed(from.diff[0])).toEqual(['example.com']);
+    expect(changed(from.diff[1])).toEqual(['examp1e.com']);
+    expect(result.headers[0].rows[0].diff).toEqual([null, null]);
+    expect(result.headers[2].rows[0].values).toEqual(['Outlook 16.0', null]);
+  });
+
+  it('should align DKIM signatures and Authentication-Results by what they describe', () => {
+    const result = engine.compare([
+      makeEmail('a', {
+        headers: {
+          'dkim-signature': ['v=1; d=example.com; s=sel1; b=AAA', 'v=1; d=esp.net; s=k1; b=BBB'],
+          'authentication-results': ['mx.google.com; dkim=pass header.d=example.com']
+        }
+      }),
+      makeEmail('b', {
+        headers: {
+          'dkim-signature': ['v=1; d=esp.net; s=k1; b=CCC'],
+          'authentication-results': ['relay.example.org; spf=none', 'mx.google.com; dkim=fail header.d=example.com']
+        }
+      })
+    ]);
+
+    const dkim = result.headers.find(h => h.name === 'dkim-signature')!;
+    expect(dkim.status).toBe('different');
+    expect(dkim.rows.map(row => [row.label, row.status])).toEqual([
+      ['d=example.com s=sel1', 'missing'],
+      ['d=esp.net s=k1', 'different']
+    ]);
+    expect(changed(dkim.rows[1].diff[1])).toEqual(['CCC']);
+
+    const auth = result.headers.find(h => h.name === 'authentication-results')!;
+    expect(auth.rows.map(row => row.label)).toEqual(['relay.example.org', 'mx.google.com']);
+    expect(auth.rows[0].values).toEqual([null, 'relay.example.org; spf=none']);
+    expect(changed(auth.rows[1].diff[1])).toEqual(['fail']);
+  });
+
+  it('should align repeated headers without a key by position', () => {
+    const result = engine.compare([
+      makeEmail('a', { headers: { 'x-note': ['one', 'two'] } }),
+      makeEmail('b', { headers: { 'x-note': ['one'] } }),
+      makeEmail('c', { headers: { 'x-note': ['one', 'three'] } })
+    ]);
+
+    expect(result.headers[0].rows.map(row => row.values)).toEqual([
+      ['one', 'one', 'one'],
+      ['two', null, 'three']
+    ]);
+  });
+
+  it('should only accept 2 to 4 emails', () => {
+    const email = makeEmail('a');
+    expect(() => engine.compare([email])).toThrow(/2 to 4/);
+    expect(() => engine.compare([email, email, email, email, email])).toThrow(/not 5/);
+  });
+});
+
+describe('Comparison Engine - Received Hops', () => {
+  const date = 'Mon, 1 Jan 2024 10:00:00 +0000';
+
+  it('should align hops by relay from origin to delivery', () => {
+    const result = engine.compare([
+      makeEmail('a', {
+        headers: {
+          received: [
+            received('mx.google.com', 'mail.example.com', 'g1', date),
+            received('mail.example.com', 'client.local', 'e1', date)
+          ]
+        }
+      }),
+      makeEmail('b', {
+        headers: {
+          received: [
+            received('mx.google.com', 'relay.spam.net', 'g2', date),
+            received('relay.spam.net', 'bulk.spam.net', 's1', date),
+            received('mail.example.com', 'client.local', 'e1', date)
+          ]
+        }
+      })
+    ]);
+
+    expect(result.received.map(hop => [hop.label, hop.status])).toEqual([
+      ['mail.example.com', 'identical'],
+      ['relay.spam.net', 'missing'],
+      ['mx.google.com', 'different']
+    ]);
+    expect(result.received[1].hops[0]).toBeNull();
+    expect(result.received[2].hops[1]?.from).toContain('relay.spam.net');
+    expect(changed(result.received[2].diff[1])).toEqual(['relay.spam.net', 'relay.spam.net', 'g2']);
+
+    const header = result.headers.find(h => h.name === 'received')!;
+    expect(header.status).toBe('different');
+    expect(header.rows.map(row => row.label)).toEqual(['mail.example.com', 'relay.spam.net', 'mx.google.com']);
+  });
+
+  it('should report Received as missing when a message has no hops', () => {
+    const result = engine.compare([
+      makeEmail('a', { headers: { received: [received('mx.google.com', 'mail.example.com', 'g1', date)] } }),
+      makeEmail('b', { headers: { subject: ['hi'] } })
+    ]);
+
+    expect(result.headers.find(h => h.name === 'received')?.status).toBe('missing');
+    expect(result.received[0].hops[1]).toBeNull();
+  });
+});
+
+describe('Comparison Engine - Token Diff', () => {
+  it('should split header values on punctuation but keep base64 whole', () => {
+    expect(tokenizeHeader('a=1; b=ab/c+d==')).toEqual(['a', '=', '1', ';', ' ', 'b', '=', 'ab/c+d', '=', '=']);
+  });
+
+  it('should mark the tokens that do not line up with the base', () => {
+    expect(changed(diffTokens('spf=pass smtp.mailfrom=a.com', 'spf=softfail smtp.mailfrom=a.com'))).toEqual(['softfail']);
+    expect(changed(diffTokens('same', 'same'))).toEqual([]);
+  });
+});
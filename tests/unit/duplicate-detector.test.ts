@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { MBOXParser } from '../../src/services/MBOXParser';
+import { DuplicateDetector } from '../../src/services/DuplicateDetector';
+import { duplicateUID, originalUID } from '../../src/utils/identity';
+import { makeEmail } from './fixtures';
+
+const detector = new DuplicateDetector();
+
+const message = (extraHeaders: string) => `From alice@example.com Mon Jan 01 10:00:00 2024
+${extraHeaders}From: alice@example.com
+To: bob@example.com
+Subject: Quarterly numbers
+Date: Mon, 1 Jan 2024 10:00:00 +0000
+Message-ID: <q1@example.com>
+
+The numbers are attached.
+`;
+
+describe('Duplicate Detector - Content Hash', () => {
+  it('should hash copies that only gained headers the same', () => {
+    const [plain] = new MBOXParser().parse(message('')).emails;
+    const [labelled] = new MBOXParser().parse(message(
+      'Received: from mx.example.com by gmail.com; Mon, 1 Jan 2024 10:00:01 +0000\nX-Gmail-Labels: Inbox,Important\n'
+    )).emails;
+
+    expect(labelled.uid).not.toBe(plain.uid);
+    expect(labelled.contentHash).toBe(plain.contentHash);
+  });
+
+  it('should hash edited messages differently', () => {
+    const [original] = new MBOXParser().parse(message('')).emails;
+    const [edited] = new MBOXParser().parse(message('').replace('Quarterly', 'Annual')).emails;
+
+    expect(edited.contentHash).not.toBe(original.contentHash);
+  });
+
+  it('should recover the original uid of an exact copy', () => {
+    const uid = 'eama-0123456789abcdef';
+    expect(originalUID(duplicateUID(uid, 'inbox.mbox:0:120'))).toBe(uid);
+    expect(originalUID(uid)).toBe(uid);
+  });
+});
+
+describe('Duplicate Detector - Groups', () => {
+  it('should group copies by Message-ID, content and uid with their provenance', () => {
+    const emails = [
+      makeEmail('eama-0000000000000001', {
+        messageId: '<m1@example.com>',
+        contentHash: 'h1',
+        headers: { subject: ['Hi'], 'x-gmail-labels': ['Inbox, Important'] },
+        location: { fileId: 'inbox', offset: 0, length: 100 }
+      }),
+      makeEmail('unrelated', { contentHash: 'h2' }),
+      makeEmail('eama-0000000000000001-aaaaaaaa', {
+        messageId: '<m1@example.com>',
+        contentHash: 'h1',
+        headers: { subject: ['Hi'], 'x-gmail-labels': ['Inbox, Important'] },
+        location: { fileId: 'important', offset: 0, length: 100 }
+      }),
+      makeEmail('eama-0000000000000002', {
+        messageId: '<m1@example.com>',
+        contentHash: 'h1',
+        headers: { subject: ['Hi'], received: ['by relay'], 'x-gmail-labels': ['Sent'] },
+        location: { fileId: 'takeout', offset: 0, length: 120, entry: 'Takeout/Mail/Sent.mbox' }
+      }),
+      makeEmail('eama-0000000000000003', {
+        messageId: '<m1@example.com>',
+        contentHash: 'h3',
+        headers: { subject: ['Hi again'] }
+      })
+    ];
+
+    const report = detector.detect(emails);
+
+    expect(report.duplicateCount).toBe(3);
+    expect(report.unique.map(email => email.uid)).toEqual(['eama-0000000000000001', 'unrelated']);
+    expect(report.groups).toHaveLength(1);
+
+    const [group] = report.groups;
+    expect(group.id).toBe('eama-0000000000000001');
+    expect(group.copies.map(copy => copy.kind)).toEqual(['original', 'exact', 'near', 'message-id']);
+    expect(group.copies[2]).toMatchObject({
+      fileId: 'takeout',
+      entry: 'Takeout/Mail/Sent.mbox',
+      labels: ['Sent'],
+      differentHeaders: ['x-gmail-labels', 'received']
+    });
+    expect(group.copies[0].labels).toEqual(['Inbox', 'Important']);
+    expect(report.groupOf.get('eama-0000000000000003')).toBe(group);
+    expect(report.groupOf.has('unrelated')).toBe(false);
+  });
+
+  it('should join groups when a later copy links them', () => {
+    const report = detector.detect([
+      makeEmail('a', { messageId: '<x@example.com>', contentHash: 'h1' }),
+      makeEmail('b', { messageId: '<y@example.com>', contentHash: 'h2' }),
+      makeEmail('c', { messageId: '<y@example.com>', contentHash: 'h1' })
+    ]);
+
+    expect(report.groups).toHaveLength(1);
+    expect(report.groups[0].copies.map(copy => copy.email.uid)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should not group by generated Message-IDs', () => {
+    const report = detector.detect([
+      makeEmail('a', { messageId: '<generated-1@eama>' }),
+      makeEmail('b', { messageId: '<generated-1@eama>' })
+    ]);
+
+    expect(report.duplicateCount).toBe(0);
+  });
+
+  it('should leave out the matches that are turned off', () => {
+    const emails = [
+      makeEmail('a', { messageId: '<x@example.com>', contentHash: 'h1' }),
+      makeEmail('b', { messageId: '<x@example.com>', contentHash: 'h2' }),
+      makeEmail('c', { messageId: '<z@example.com>', contentHash: 'h1' })
+    ];
+
+    expect(new DuplicateDetector({ byMessageId: false }).detect(emails).groups[0].copies.map(c => c.email.uid))
+      .toEqual(['a', 'c']);
+    expect(new DuplicateDetector({ nearDuplicates: false }).detect(emails).groups[0].copies.map(c => c.email.uid))
+      .toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,461 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { ArchiveCache } from '../../src/services/ArchiveCache';
+import { EmailService, ParseCancelledError } from '../../src/services/EmailService';
+import { buildIndexSegment } from '../../src/services/InvertedIndex';
+import { MBOXParser, type ParsedEmail } from '../../src/services/MBOXParser';
+import { SearchIndex, toSearchDocument } from '../../src/services/SearchIndex';
+import { makeEmail } from './fixtures';
+
+interface PostedMessage {
+  command: string;
+  jobId: string;
+  data?: unknown;
+}
+
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  onmessage: ((e: MessageEvent) => void) | null = null;
+  onerror: ((e: ErrorEvent) => void) | null = null;
+  posted: PostedMessage[] = [];
+  terminated = false;
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(message: PostedMessage) {
+    this.posted.push(message);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  reply(type: string, jobId: string, data: unknown) {
+    this.onmessage?.({ data: { type, jobId, data } } as MessageEvent);
+  }
+}
+
+const summary = {
+  errors: [],
+  stats: { totalEmails: 1, totalBytes: 10, parseTime: 1, avgEmailSize: 10 }
+};
+
+const email = (subject: string) => ({ metadata: { subject }, rawSize: 10 });
+
+describe('Email Service - Parse Jobs', () => {
+  beforeEach(() => {
+    FakeWorker.instances = [];
+    vi.stubGlobal('Worker', FakeWorker);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should route batches and progress to the job and resolve with all emails', async () => {
+    const service = new EmailService();
+    const worker = FakeWorker.instances[0];
+    const onBatch = vi.fn();
+    const onProgress = vi.fn();
+
+    const job = service.startParse(new File(['x'], 'a.mbox'), { onBatch, onProgress });
+    expect(worker.posted[0]).toMatchObject({ command: 'parse', jobId: job.id });
+
+    worker.reply('batch', job.id, { emails: [email('one')] });
+    worker.reply('progress', job.id, { percent: 50, emailsProcessed: 1, bytesProcessed: 5 });
+    worker.reply('batch', job.id, { emails: [email('two')] });
+    worker.reply('batch', 'other-job', { emails: [email('ignored')] });
+    worker.reply('complete', job.id, summary);
+
+    const result = await job.promise;
+    expect(result.emails.map(e => e.metadata.subject)).toEqual(['one', 'two']);
+    expect(result.stats).toEqual(summary.stats);
+    expect(onBatch).toHaveBeenCalledTimes(2);
+    expect(onProgress).toHaveBeenCalledWith({ percent: 50, emailsProcessed: 1, bytesProcessed: 5 });
+  });
+
+  it('should send pause, resume and cancel commands and reject with partial results', async () => {
+    const service = new EmailService();
+    const worker = FakeWorker.instances[0];
+    const job = service.startParse(new File(['x'], 'a.mbox'));
+
+    service.pause(job.id);
+    expect(service.isPaused(job.id)).toBe(true);
+    service.resume(job.id);
+    expect(service.isPaused(job.id)).toBe(false);
+    service.cancel(job.id);
+
+    expect(worker.posted.map(m => m.command)).toEqual(['parse', 'pause', 'resume', 'cancel']);
+
+    worker.reply('batch', job.id, { emails: [email('partial')] });
+    worker.reply('cancelled', job.id, summary);
+
+    const error = await job.promise.catch(e => e);
+    expect(error).toBeInstanceOf(ParseCancelledError);
+    expect(error.jobId).toBe(job.id);
+    expect(error.partialResult.emails.map((e: { metadata: { subject: string } }) => e.metadata.subject)).toEqual(['partial']);
+  });
+
+  it('should reject a job whose worker reports an error and free the worker', async () => {
+    const service = new EmailService({ poolSize: 1 });
+    const worker = FakeWorker.instances[0];
+    const job = service.startParse(new File(['x'], 'a.mbox'));
+    worker.reply('batch', job.id, { emails: [email('partial')] });
+
+    worker.reply('error', job.id, { message: 'Unreadable file' });
+
+    await expect(job.promise).rejects.toThrow('Unreadable file');
+    const next = service.startParse(new File(['y'], 'b.mbox'));
+    expect(worker.posted[worker.posted.length - 1]).toMatchObject({ command: 'parse', jobId: next.id });
+  });
+
+  it('should reject a job whose worker crashes and replace the worker', async () => {
+    const service = new EmailService({ poolSize: 1 });
+    const [crashed] = FakeWorker.instances;
+    const job = service.startParse(new File(['x'], 'a.mbox'));
+    crashed.reply('batch', job.id, { emails: [email('partial')] });
+
+    crashed.onerror?.({ message: 'Uncaught TypeError' } as ErrorEvent);
+
+    await expect(job.promise).rejects.toThrow('Worker error: Uncaught TypeError');
+    expect(crashed.terminated).toBe(true);
+    expect(FakeWorker.instances).toHaveLength(2);
+    const next = service.startParse(new File(['y'], 'b.mbox'));
+    expect(FakeWorker.instances[1].posted[0]).toMatchObject({ command: 'parse', jobId: next.id });
+  });
+
+  it('should reject pending jobs on destroy instead of leaving them hanging', async () => {
+    const service = new EmailService();
+    const worker = FakeWorker.instances[0];
+    const job = service.startParse(new File(['x'], 'a.mbox'));
+    worker.reply('batch', job.id, { emails: [email('kept')] });
+
+    service.destroy();
+
+    const error = await job.promise.catch(e => e);
+    expect(worker.terminated).toBe(true);
+    expect(error).toBeInstanceOf(ParseCancelledError);
+    expect(error.partialResult.emails).toHaveLength(1);
+  });
+});
+
+describe('Email Service - Worker Pool', () => {
+  beforeEach(() => {
+    FakeWorker.instances = [];
+    vi.stubGlobal('Worker', FakeWorker);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const subjects = (emails: { metadata: { subject: string } }[]) => emails.map(e => e.metadata.subject);
+
+  it('should parse files concurrently and keep results in file order', async () => {
+    const service = new EmailService({ poolSize: 2 });
+    const onBatch = vi.fn();
+    const onProgress = vi.fn();
+    const files = ['a', 'b', 'c'].map(name => new File(['x'.repeat(10)], `${name}.mbox`));
+
+    const job = service.startParse(files, { onBatch, onProgress });
+    const [first, second] = FakeWorker.instances;
+    expect(FakeWorker.instances).toHaveLength(2);
+    const [taskA] = first.posted;
+    const [taskB] = second.posted;
+
+    // The second file finishes first, but its batch waits for the first file
+    second.reply('batch', taskB.jobId, { emails: [email('b')] });
+    second.reply('progress', taskB.jobId, { percent: 100, emailsProcessed: 1, bytesProcessed: 10 });
+    second.reply('complete', taskB.jobId, summary);
+    expect(onBatch).not.toHaveBeenCalled();
+    expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ bytesProcessed: 10, emailsProcessed: 1 }));
+    expect(onProgress.mock.lastCall![0].percent).toBeCloseTo(100 / 3);
+
+    // The freed worker picks up the queued third file
+    const taskC = second.posted[1];
+    expect(taskC.command).toBe('parse');
+
+    first.reply('batch', taskA.jobId, { emails: [email('a')] });
+    second.reply('batch', taskC.jobId, { emails: [email('c')] });
+    first.reply('complete', taskA.jobId, summary);
+    second.reply('complete', taskC.jobId, summary);
+
+    const result = await job.promise;
+    expect(subjects(result.emails)).toEqual(['a', 'b', 'c']);
+    expect(onBatch.mock.calls.map(([batch]) => subjects(batch))).toEqual([['a'], ['b'], ['c']]);
+    expect(result.stats.totalEmails).toBe(3);
+    expect(result.stats.totalBytes).toBe(30);
+  });
+
+  it('should split a large file into ranges at From_ boundaries', async () => {
+    const message = (n: number) => `From sender${n}@example.com Mon Jan 01 10:00:00 2024\nSubject: ${n}\n\nBody ${n}\n`;
+    const content = [1, 2, 3, 4, 5, 6].map(message).join('\n');
+    const service = new EmailService({ poolSize: 3, minRangeSize: 100 });
+
+    const job = service.startParse(new File([content], 'big.mbox'));
+    await vi.waitFor(() => expect(FakeWorker.instances).toHaveLength(3));
+
+    const tasks = FakeWorker.instances.map(worker => worker.posted[0] as PostedMessage & { data: { file: Blob; offset: number } });
+    expect(tasks.map(task => task.data.offset)[0]).toBe(0);
+    for (const task of tasks) {
+      expect(content.substring(task.data.offset, task.data.offset + 5)).toBe('From ');
+      expect(await task.data.file.text()).toBe(content.substring(task.data.offset, task.data.offset + task.data.file.size));
+    }
+
+    // Errors are renumbered from the start of the file
+    const rangeSummary = (index: number) => ({
+      errors: [{ type: 'ENCODING_ERROR', message: 'bad', emailIndex: index }],
+      stats: summary.stats
+    });
+    tasks.forEach((task, i) => {
+      FakeWorker.instances[i].reply('batch', task.jobId, { emails: [email(`${i}a`), email(`${i}b`)] });
+    });
+    tasks.slice().reverse().forEach((task, i) => {
+      FakeWorker.instances[tasks.length - 1 - i].reply('complete', task.jobId, rangeSummary(1));
+    });
+
+    const result = await job.promise;
+    expect(subjects(result.emails)).toEqual(['0a', '0b', '1a', '1b', '2a', '2b']);
+    expect(result.errors.map(e => e.emailIndex)).toEqual([1, 3, 5]);
+    expect(result.stats.totalBytes).toBe(content.length);
+  });
+
+  it('should rename later copies of a message seen in an earlier range of the file', async () => {
+    const message = (n: number) => `From sender${n}@example.com Mon Jan 01 10:00:00 2024\nSubject: ${n}\n\nBody ${n}\n`;
+    const content = [1, 2, 3, 4].map(message).join('\n');
+    const service = new EmailService({ poolSize: 2, minRangeSize: 100 });
+    const job = service.startParse(new File([content], 'big.mbox'));
+    await vi.waitFor(() => expect(FakeWorker.instances).toHaveLength(2));
+    const [first, second] = FakeWorker.instances;
+    const copy = (offset: number) => ({ ...email('copy'), uid: 'eama-0123456789abcdef', location: { fileId: 'big', offset, length: 10 } });
+
+    // Arrives first but is delivered second, so it is the one renamed
+    second.reply('batch', second.posted[0].jobId, { emails: [copy(200)] });
+    second.reply('complete', second.posted[0].jobId, summary);
+    first.reply('batch', first.posted[0].jobId, { emails: [copy(0)] });
+    first.reply('complete', first.posted[0].jobId, summary);
+
+    const uids = (await job.promise).emails.map(e => e.uid);
+    expect(uids[0]).toBe('eama-0123456789abcdef');
+    expect(uids[1]).toMatch(/^eama-0123456789abcdef-[0-9a-f]{8}$/);
+  });
+
+  it('should keep the uids workers give copies of a message in other files', async () => {
+    const service = new EmailService({ poolSize: 2 });
+    const job = service.startParse([new File(['x'], 'a.mbox'), new File(['y'], 'b.mbox')]);
+    const [first, second] = FakeWorker.instances;
+    const copy = (fileId: string) => ({ ...email('copy'), uid: 'eama-0123456789abcdef', location: { fileId, offset: 0, length: 10 } });
+
+    second.reply('batch', second.posted[0].jobId, { emails: [copy('b')] });
+    second.reply('complete', second.posted[0].jobId, summary);
+    first.reply('batch', first.posted[0].jobId, { emails: [copy('a')] });
+    first.reply('complete', first.posted[0].jobId, summary);
+
+    const uids = (await job.promise).emails.map(e => e.uid);
+    expect(uids).toEqual(['eama-0123456789abcdef', 'eama-0123456789abcdef']);
+  });
+
+  it('should cancel queued and running tasks of a job', async () => {
+    const service = new EmailService({ poolSize: 1 });
+    const [worker] = FakeWorker.instances;
+    const job = service.startParse([new File(['x'], 'a.mbox'), new File(['y'], 'b.mbox')]);
+
+    service.cancel(job.id);
+    expect(worker.posted.map(m => m.command)).toEqual(['parse', 'cancel']);
+
+    worker.reply('batch', worker.posted[0].jobId, { emails: [email('partial')] });
+    worker.reply('cancelled', worker.posted[0].jobId, summary);
+
+    const error = await job.promise.catch(e => e);
+    expect(error).toBeInstanceOf(ParseCancelledError);
+    expect(subjects(error.partialResult.emails)).toEqual(['partial']);
+    expect(worker.posted).toHaveLength(2);
+  });
+});
+
+describe('Email Service - Mixed Selections', () => {
+  beforeEach(() => {
+    FakeWorker.instances = [];
+    vi.stubGlobal('Worker', FakeWorker);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should route MBOX, message and ZIP inputs to tasks and report unsupported files', async () => {
+    const service = new EmailService({ poolSize: 4 });
+    const files = [
+      new File(['From a@example.com Mon Jan 01 10:00:00 2024\n\nbody\n'], 'inbox.mbox'),
+      new File(['Subject: one\n\nbody\n'], 'one.eml'),
+      new File(['Subject: two\n\nbody\n'], 'two.txt'),
+      new File([new Uint8Array([0xd0, 0xcf, 0x11, 0xe0])], 'outlook.msg'),
+      new File([new Uint8Array([0x50, 0x4b, 0x03, 0x04])], 'maildir.zip')
+    ];
+
+    const job = service.startParse(files);
+    await vi.waitFor(() => expect(FakeWorker.instances).toHaveLength(3));
+
+    const sources = FakeWorker.instances.map(worker => worker.posted[0].data as { kind: string; files?: File[] });
+    expect(sources.map(source => source.kind)).toEqual(['mbox', 'messages', 'zip']);
+    expect(sources[1].files!.map(file => file.name)).toEqual(['one.eml', 'two.txt']);
+
+    FakeWorker.instances.forEach((worker, i) => {
+      worker.reply('batch', worker.posted[0].jobId, { emails: [email(`${i}`)] });
+      worker.reply('complete', worker.posted[0].jobId, summary);
+    });
+
+    const result = await job.promise;
+    expect(result.emails.map(e => e.metadata.subject)).toEqual(['0', '1', '2']);
+    expect(result.errors).toEqual([expect.objectContaining({ type: 'UNSUPPORTED_FORMAT' })]);
+    expect(result.errors[0].message).toContain('outlook.msg');
+  });
+
+  it('should accept messages and archives in validateFile', async () => {
+    const service = new EmailService();
+
+    expect(await service.validateFile(new File(['Subject: hi\n\n'], 'a.eml'))).toEqual({ valid: true, kind: 'message' });
+    expect((await service.validateFile(new File([new Uint8Array([0x50, 0x4b, 0x03, 0x04])], 'a.zip'))).kind).toBe('zip');
+    expect((await service.validateFile(new File([new Uint8Array([0xd0, 0xcf, 0x11, 0xe0])], 'a.msg'))).valid).toBe(false);
+  });
+});
+
+describe('Email Service - Stats', () => {
+  beforeEach(() => {
+    vi.stubGlobal('Worker', FakeWorker);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const mbox = `From a@example.com Mon Jan 01 10:00:00 2024
+From: a@example.com
+Subject: Hello
+Message-ID: <hello@example.com>
+
+Hi.
+
+From a@example.com Mon Jan 01 10:00:00 2024
+X-Gmail-Labels: Important
+From: a@example.com
+Subject: Hello
+Message-ID: <hello@example.com>
+
+Hi.
+
+From b@example.com Mon Jan 01 11:00:00 2024
+From: b@example.com
+Subject: Other
+Message-ID: <other@example.com>
+
+Bye.
+`;
+
+  it('should count each message once however many copies are loaded', () => {
+    const { emails } = new MBOXParser().parse(mbox);
+    const service = new EmailService();
+
+    const stats = service.getEmailStats(emails);
+    expect(stats).toMatchObject({ totalCount: 2, duplicateCount: 1 });
+    expect(stats.topSenders).toEqual([{ email: 'a@example.com', count: 1 }, { email: 'b@example.com', count: 1 }]);
+
+    expect(service.getEmailStats(emails, { collapseDuplicates: false })).toMatchObject({ totalCount: 3, duplicateCount: 0 });
+  });
+});
+
+describe('Email Service - Archive Cache', () => {
+  beforeEach(() => {
+    FakeWorker.instances = [];
+    vi.stubGlobal('Worker', FakeWorker);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const parsed = (subject: string, uid: string) => makeEmail(uid, {
+    subject,
+    headers: { subject: [subject] },
+    body: `${subject} body`,
+    location: { fileId: 'x', offset: 0, length: 10 }
+  });
+
+  const documents = (emails: ParsedEmail[]) => emails.map((e) => toSearchDocument(e));
+
+  // Parser workers send each batch with its index segment
+  const batch = (emails: ParsedEmail[]) => ({ emails, index: buildIndexSegment(documents(emails)) });
+
+  it('should restore a file parsed before without sending it to a worker', async () => {
+    const cache = new ArchiveCache({ factory: new IDBFactory() });
+    const service = new EmailService({ cache });
+    const [worker] = FakeWorker.instances;
+    const file = new File(['From a@example.com Mon Jan 01 10:00:00 2024\n\nbody\n'], 'inbox.mbox', { lastModified: 1 });
+
+    const first = service.startParse(file);
+    await vi.waitFor(() => expect(worker.posted).toHaveLength(1));
+    worker.reply('batch', first.id, batch([parsed('one', 'eama-1'), parsed('two', 'eama-2')]));
+    worker.reply('complete', first.id, { ...summary, stats: { ...summary.stats, variant: 'mboxrd' } });
+    await first.promise;
+    await vi.waitFor(async () => expect(await cache.list()).toHaveLength(1));
+
+    const onBatch = vi.fn();
+    const result = await service.startParse(file, { onBatch }).promise;
+
+    expect(worker.posted).toHaveLength(1);
+    expect(result.emails.map(e => e.uid)).toEqual(['eama-1', 'eama-2']);
+    expect(result.emails[0].deferredBody).toEqual({ variant: 'mboxrd' });
+    expect(result.emails[0].body.text).toBe('');
+    expect(result.stats.cachedFiles).toBe(1);
+    expect(onBatch).toHaveBeenCalledTimes(1);
+
+    // Bodies are gone, but the cached index still finds them
+    const search = new SearchIndex();
+    search.add(documents(result.emails), onBatch.mock.calls[0][1]);
+    expect(search.search({ bodyContains: 'two body' }).uids).toEqual(['eama-2']);
+    await cache.close();
+  });
+
+  it('should cache each file with the uids it has when parsed alone', async () => {
+    const cache = new ArchiveCache({ factory: new IDBFactory() });
+    const service = new EmailService({ cache, poolSize: 2 });
+    const files = [new File(['x'], 'a.mbox'), new File(['y'], 'b.mbox')];
+
+    const job = service.startParse(files);
+    await vi.waitFor(() => expect(FakeWorker.instances).toHaveLength(2));
+    FakeWorker.instances.forEach((worker, i) => {
+      worker.reply('batch', worker.posted[0].jobId, batch([{ ...parsed(`${i}`, 'eama-copy'), location: { fileId: `${i}`, offset: 0, length: 10 } }]));
+      worker.reply('complete', worker.posted[0].jobId, summary);
+    });
+    expect((await job.promise).emails.map(e => e.uid)).toEqual(['eama-copy', 'eama-copy']);
+
+    await vi.waitFor(async () => expect(await cache.list()).toHaveLength(2));
+    const restored = await service.startParse(files[1]).promise;
+    expect(restored.emails.map(e => e.uid)).toEqual(['eama-copy']);
+    await cache.close();
+  });
+
+  it('should report cache failures through onError and parse anyway', async () => {
+    const cache = new ArchiveCache({ factory: new IDBFactory() });
+    vi.spyOn(cache, 'load').mockRejectedValue(new Error('Quota exceeded'));
+    vi.spyOn(cache, 'save').mockRejectedValue(new Error('Quota exceeded'));
+    const service = new EmailService({ cache });
+    const [worker] = FakeWorker.instances;
+    const onError = vi.fn();
+
+    const job = service.startParse(new File(['x'], 'inbox.mbox'), { onError });
+    await vi.waitFor(() => expect(worker.posted).toHaveLength(1));
+    worker.reply('batch', job.id, batch([parsed('one', 'eama-1')]));
+    worker.reply('complete', job.id, summary);
+
+    expect((await job.promise).emails).toHaveLength(1);
+    await vi.waitFor(() => expect(onError.mock.calls).toEqual([
+      ['Archive cache unavailable: Quota exceeded'],
+      ['Failed to cache inbox.mbox: Quota exceeded']
+    ]));
+    await cache.close();
+  });
+});
@@ -0,0 +1,47 @@
+import type { ParsedEmail } from '../../src/services/MBOXParser';
+import type { EmailLocation } from '../../src/types';
+import { parseAddressList } from '../../src/utils/addresses';
+
+export interface EmailFixture {
+  messageId?: string;
+  from?: string;
+  to?: string;
+  subject?: string;
+  date?: string;
+  inReplyTo?: string;
+  references?: string[];
+  body?: string;
+  html?: string;
+  headers?: Record<string, string[]>;
+  contentHash?: string;
+  location?: EmailLocation;
+}
+
+/**
+ * A ParsedEmail with just the given fields, as the parser would return
+ * it; it also stands in for the narrower email types services take.
+ */
+export function makeEmail(uid: string, fields: EmailFixture = {}): ParsedEmail {
+  return {
+    uid,
+    messageId: fields.messageId ?? `<${uid}@example.com>`,
+    contentHash: fields.contentHash ?? `content-${uid}`,
+    headers: fields.headers ?? {},
+    body: { text: fields.body ?? '', html: fields.html ?? '', raw: '', attachments: [] },
+    metadata: {
+      date: fields.date ?? null,
+      from: parseAddressList(fields.from ?? ''),
+      to: parseAddressList(fields.to ?? ''),
+      cc: [],
+      bcc: [],
+      replyTo: [],
+      sender: [],
+      subject: fields.subject ?? '',
+      inReplyTo: fields.inReplyTo,
+      references: fields.references ?? [],
+      receivedChain: []
+    },
+    ...(fields.location && { location: fields.location }),
+    rawSize: 100
+  };
+}
@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import { MBOXParser, type ParsedEmail } from '../../src/services/MBOXParser';
+import { MBOXExporter } from '../../src/services/MBOXExporter';
+import { fileIdentity } from '../../src/utils/identity';
+import { decodeEncodedWords, encodeEncodedWords } from '../../src/utils/encoded-words';
+
+const exporter = new MBOXExporter();
+
+const mboxrd = `From alice@example.com Mon Jan 01 10:00:00 2024
+From: Alice <alice@example.com>
+To: bob@example.com
+Subject: Quoting
+Date: Mon, 1 Jan 2024 10:00:00 +0000
+Message-ID: <quoting@example.com>
+
+>From the top, as written.
+>>From a quoted quote.
+>And an ordinary quote.
+
+From bob@example.com Mon Jan 01 11:00:00 2024
+From: bob@example.com
+To: alice@example.com
+Subject: Re: Quoting
+Date: Mon, 1 Jan 2024 11:00:00 +0000
+Message-ID: <reply@example.com>
+
+Noted.
+
+`;
+
+async function load(content: string, name = 'archive.mbox') {
+  const file = new File([content], name, { lastModified: 1000 });
+  const { emails } = await new MBOXParser().parseFile(file);
+  return { file, emails, files: new Map([[fileIdentity(file), file as Blob]]) };
+}
+
+async function reparse(blob: Blob): Promise<ParsedEmail[]> {
+  return (await new MBOXParser().parseFile(new File([blob], 'exported.mbox'))).emails;
+}
+
+describe('MBOX Exporter - Round Trip', () => {
+  it('should copy unedited messages from an mboxrd file byte for byte', async () => {
+    const { emails, files } = await load(mboxrd);
+
+    const blob = await exporter.exportToMBOX(emails, { files });
+
+    expect(blob.type).toBe('application/mbox');
+    expect(await blob.text()).toBe(mboxrd);
+  });
+
+  it('should re-parse to the same messages, From lines in bodies included', async () => {
+    const { emails, files } = await load(mboxrd);
+
+    const exported = await reparse(await exporter.exportToMBOX(emails, { files }));
+
+    expect(exported.map(email => email.metadata.subject)).toEqual(['Quoting', 'Re: Quoting']);
+    expect(exported[0].body.text).toBe(emails[0].body.text);
+    expect(exported[0].body.text).toMatch(/^From the top/);
+    expect(exported.map(email => email.uid)).toEqual(emails.map(email => email.uid));
+  });
+
+  it('should export a subset in the given order', async () => {
+    const { emails, files } = await load(mboxrd);
+
+    const exported = await reparse(await exporter.exportToMBOX([emails[1]], { files }));
+
+    expect(exported.map(email => email.messageId)).toEqual(['<reply@example.com>']);
+    expect(exported[0].body.text).toBe(emails[1].body.text);
+  });
+
+  it('should quote unquoted From lines of Content-Length mailboxes and drop their framing', async () => {
+    const body = 'From here on, nothing is quoted.\n';
+    const { emails, files } = await load(`From alice@example.com Mon Jan 01 10:00:00 2024
+From: alice@example.com
+Subject: Framed
+Content-Length: ${body.length}
+
+${body}
+`);
+
+    const blob = await exporter.exportToMBOX(emails, { files });
+    const [exported] = await reparse(blob);
+
+    expect(await blob.text()).toContain('\n>From here on');
+    expect(exported.body.text.trimEnd()).toBe(body.trimEnd());
+    expect(exported.headers['content-length']).toBeUndefined();
+  });
+});
+
+describe('MBOX Exporter - Header Edits', () => {
+  it('should apply temporary edits to the header block', async () => {
+    const { emails, files } = await load(mboxrd);
+    const edited = {
+      ...emails[0],
+      temporaryEdits: { subject: 'Überprüfung', 'X-Reviewed': 'yes', to: '', date: 'Tue, 2 Jan 2024 09:00:00 +0000\r\nBcc: eve@example.com' }
+    };
+
+    const [exported] = await reparse(await exporter.exportToMBOX([edited, emails[1]], { files }));
+
+    expect(exported.metadata.subject).toBe('Überprüfung');
+    expect(exported.headers['x-reviewed']).toEqual(['yes']);
+    expect(exported.headers.to).toBeUndefined();
+    expect(exported.headers.bcc).toBeUndefined();
+    expect(exported.body.text).toBe(emails[0].body.text);
+  });
+
+  it('should keep the position and spelling of an edited header', async () => {
+    const { emails, files } = await load(mboxrd);
+
+    const text = await (await exporter.exportToMBOX([{ ...emails[1], temporaryEdits: { SUBJECT: 'Done' } }], { files })).text();
+
+    expect(text).toContain('To: alice@example.com\nSubject: Done\nDate:');
+  });
+
+  it('should reject header names that would break the header block', async () => {
+    const { emails, files } = await load(mboxrd);
+
+    await expect(exporter.exportToMBOX([{ ...emails[0], temporaryEdits: { 'X-Bad: y\nX': 'z' } }], { files }))
+      .rejects.toThrow('Invalid header name');
+  });
+
+  it('should encode only the display names of edited address headers', async () => {
+    const { emails, files } = await load(mboxrd);
+    const edited = {
+      ...emails[1],
+      temporaryEdits: { from: 'José <jose@example.com>', cc: 'Zoë Ölund <zoe@example.com>, "Doe, Jane" <jane@example.com>' }
+    };
+
+    const blob = await exporter.exportToMBOX([edited], { files });
+    const [exported] = await reparse(blob);
+
+    expect(await blob.text()).toMatch(/\nFrom: =\?UTF-8\?B\?[A-Za-z0-9+/=]+\?= <jose@example\.com>\n/);
+    expect(exported.metadata.from).toEqual([{ name: 'José', address: 'jose@example.com' }]);
+    expect(exported.metadata.cc).toEqual([
+      { name: 'Zoë Ölund', address: 'zoe@example.com' },
+      { name: 'Doe, Jane', address: 'jane@example.com' }
+    ]);
+  });
+
+  it('should encode non-ASCII values as encoded-words', () => {
+    const value = 'Grüße aus Köln — und viele weitere Grüße an alle Beteiligten';
+    const encoded = encodeEncodedWords(value);
+
+    expect(encoded).toMatch(/^[\x20-\x7e]+$/);
+    expect(encoded.split(' ').every(word => word.length <= 75)).toBe(true);
+    expect(decodeEncodedWords(encoded)).toBe(value);
+    expect(encodeEncodedWords('plain')).toBe('plain');
+  });
+});
+
+describe('MBOX Exporter - From Lines', () => {
+  it('should generate a From line for standalone messages', async () => {
+    const file = new File([`Return-Path: <bounces@example.com>
+From: Alice <alice@example.com>
+Subject: Standalone
+Date: Mon, 1 Jan 2024 10:00:00 +0000
+
+From the start.
+`], 'message.eml', { lastModified: 1000 });
+    const emails: ParsedEmail[] = [];
+    for await (const batch of new MBOXParser().parseMessageBatches([file])) emails.push(...batch.emails);
+
+    const blob = await exporter.exportToMBOX(emails, { files: new Map([[fileIdentity(file), file as Blob]]) });
+    const text = await blob.text();
+    const [exported] = await reparse(blob);
+
+    expect(text.split('\n')[0]).toBe('From bounces@example.com Mon Jan  1 10:00:00 2024');
+    expect(text).toContain('\n>From the start.\n');
+    expect(exported.body.text).toMatch(/^From the start\.\n/);
+  });
+
+  it('should fail when the source file is no longer open', async () => {
+    const { emails } = await load(mboxrd);
+
+    await expect(exporter.exportToMBOX(emails, { files: new Map() })).rejects.toThrow('"Quoting" cannot be exported');
+  });
+});
@@ -17,8 +17,8 @@ This is a test email body.`;
 
     expect(result.emails).toHaveLength(1);
     expect(result.emails[0].metadata.subject).toBe('Test Email');
-    expect(result.emails[0].metadata.from).toContain('sender@example.com');
-    expect(result.emails[0].metadata.to).toContain('recipient@example.com');
+    expect(result.emails[0].metadata.from.map(a => a.address)).toContain('sender@example.com');
+    expect(result.emails[0].metadata.to.map(a => a.address)).toContain('recipient@example.com');
   });
 
   it('should parse multiple emails', () => {
@@ -118,6 +118,75 @@ Not at start >From here`;
   });
 });
 
+describe('MBOX Parser - Variants (mboxo, mboxrd, mboxcl, mboxcl2)', () => {
+  const clMessage = (n: number, body: string) => `From sender${n}@example.com Mon Jan 01 10:00:00 2024
+From: sender${n}@example.com
+Subject: Message ${n}
+Content-Length: ${new TextEncoder().encode(body).length}
+
+${body}`;
+
+  it('should report mboxrd when there is no Content-Length framing', () => {
+    const result = new MBOXParser().parse(`From sender@example.com Mon Jan 01 10:00:00 2024
+Subject: Plain
+
+>>From quoted twice`);
+
+    expect(result.stats.variant).toBe('mboxrd');
+    expect(result.emails[0].body.text).toContain('>From quoted twice');
+  });
+
+  it('should only unquote a single > when told the file is mboxo', () => {
+    const parser = new MBOXParser({ variant: 'mboxo' });
+    const result = parser.parse(`From sender@example.com Mon Jan 01 10:00:00 2024
+Subject: mboxo
+
+>From quoted once
+>>From was already quoted`);
+
+    expect(result.stats.variant).toBe('mboxo');
+    expect(result.emails[0].body.text).toMatch(/^From quoted once/);
+    expect(result.emails[0].body.text).toContain('>>From was already quoted');
+  });
+
+  it('should detect mboxcl2 and keep unquoted From_ lines inside the body', () => {
+    const content = [
+      clMessage(1, 'First line\n\nFrom the body, not a new message\n>From stays quoted\n'),
+      clMessage(2, 'Second body\n')
+    ].join('\n');
+
+    const result = new MBOXParser().parse(content);
+
+    expect(result.stats.variant).toBe('mboxcl2');
+    expect(result.emails).toHaveLength(2);
+    expect(result.emails[0].body.text).toContain('\nFrom the body, not a new message');
+    expect(result.emails[0].body.text).toContain('>From stays quoted');
+    expect(result.emails[1].metadata.subject).toBe('Message 2');
+  });
+
+  it('should detect mboxcl and unquote >From lines', () => {
+    const content = [
+      clMessage(1, 'Quoted\n>From the body\n'),
+      clMessage(2, 'Second body\n')
+    ].join('\n');
+
+    const result = new MBOXParser().parse(content);
+
+    expect(result.stats.variant).toBe('mboxcl');
+    expect(result.emails).toHaveLength(2);
+    expect(result.emails[0].body.text).toContain('\nFrom the body');
+  });
+
+  it('should count Content-Length in bytes and fall back to From_ lines when it is wrong', () => {
+    const utf8 = [clMessage(1, 'Héllo wörld\n\nFrom inside\n'), clMessage(2, 'Second\n')].join('\n');
+    expect(new MBOXParser({ variant: 'mboxcl2' }).parse(utf8).emails).toHaveLength(2);
+
+    const wrong = utf8.replace(/Content-Length: \d+/, 'Content-Length: 3');
+    const result = new MBOXParser({ variant: 'mboxcl2' }).parse(wrong);
+    expect(result.emails.map(e => e.metadata.subject)).toEqual(['Message 1', '(No Subject)', 'Message 2']);
+  });
+});
+
 describe('MBOX Parser - Header Folding (RFC 5322)', () => {
   it('should unfold headers with space continuation', () => {
     const parser = new MBOXParser();
@@ -189,10 +258,10 @@ Body.`;
 
     const result = parser.parse(mboxContent);
 
-    expect(result.emails[0].metadata.to).toContain('alice@example.com');
-    expect(result.emails[0].metadata.to).toContain('bob@example.com');
-    expect(result.emails[0].metadata.cc).toContain('charlie@example.com');
-    expect(result.emails[0].metadata.cc).toContain('dave@example.com');
+    expect(result.emails[0].metadata.to.map(a => a.address)).toContain('alice@example.com');
+    expect(result.emails[0].metadata.to.map(a => a.address)).toContain('bob@example.com');
+    expect(result.emails[0].metadata.cc.map(a => a.address)).toContain('charlie@example.com');
+    expect(result.emails[0].metadata.cc.map(a => a.address)).toContain('dave@example.com');
   });
 });
 
@@ -279,8 +348,8 @@ Body.`;
 
     const result = parser.parse(mboxContent);
 
-    expect(result.emails[0].metadata.from).toContain('sender@example.com');
-    expect(result.emails[0].metadata.to).toContain('recipient@example.com');
+    expect(result.emails[0].metadata.from.map(a => a.address)).toContain('sender@example.com');
+    expect(result.emails[0].metadata.to.map(a => a.address)).toContain('recipient@example.com');
   });
 
   it('should parse addresses with display names', () => {
@@ -295,8 +364,8 @@ Body.`;
 
     const result = parser.parse(mboxContent);
 
-    expect(result.emails[0].metadata.from).toContain('alice@example.com');
-    expect(result.emails[0].metadata.to).toContain('bob@example.com');
+    expect(result.emails[0].metadata.from.map(a => a.address)).toContain('alice@example.com');
+    expect(result.emails[0].metadata.to.map(a => a.address)).toContain('bob@example.com');
   });
 
   it('should parse quoted display names', () => {
@@ -311,8 +380,8 @@ Body.`;
 
     const result = parser.parse(mboxContent);
 
-    expect(result.emails[0].metadata.from).toContain('alice@example.com');
-    expect(result.emails[0].metadata.to).toContain('bob@example.com');
+    expect(result.emails[0].metadata.from.map(a => a.address)).toContain('alice@example.com');
+    expect(result.emails[0].metadata.to.map(a => a.address)).toContain('bob@example.com');
   });
 });
 
@@ -335,3 +404,596 @@ Body.`;
     expect(result.stats.avgEmailSize).toBe(mboxContent.length);
   });
 });
+
+describe('MBOX Parser - MIME Multipart', () => {
+  it('should pick text and html alternatives from multipart/alternative', () => {
+    const parser = new MBOXParser();
+    const mboxContent = `From sender@example.com Mon Jan 01 10:00:00 2024
+From: sender@example.com
+To: recipient@example.com
+Subject: Alternative
+Message-ID: <test@example.com>
+MIME-Version: 1.0
+Content-Type: multipart/alternative; boundary="alt-boundary"
+
+This is a multi-part message in MIME format.
+--alt-boundary
+Content-Type: text/plain; charset=utf-8
+
+Plain version.
+--alt-boundary
+Content-Type: text/html; charset=utf-8
+
+<p>HTML version.</p>
+--alt-boundary--
+Epilogue text.`;
+
+    const result = parser.parse(mboxContent);
+
+    expect(result.emails[0].body.text).toBe('Plain version.');
+    expect(result.emails[0].body.html).toBe('<p>HTML version.</p>');
+    expect(result.emails[0].body.text).not.toContain('--alt-boundary');
+    expect(result.emails[0].body.raw).toContain('--alt-boundary');
+  });
+
+  it('should walk nested multipart/mixed and skip attachment parts', () => {
+    const parser = new MBOXParser();
+    const mboxContent = `From sender@example.com Mon Jan 01 10:00:00 2024
+From: sender@example.com
+To: recipient@example.com
+Subject: Mixed
+Message-ID: <test@example.com>
+Content-Type: multipart/mixed;
+ boundary=outer
+
+--outer
+Content-Type: multipart/alternative; boundary=inner
+
+--inner
+Content-Type: text/plain
+
+Nested plain.
+--inner
+Content-Type: text/html
+
+<b>Nested html</b>
+--inner--
+
+--outer
+Content-Type: text/plain; name="notes.txt"
+Content-Disposition: attachment; filename="notes.txt"
+
+Attachment contents.
+--outer--`;
+
+    const result = parser.parse(mboxContent);
+
+    expect(result.emails[0].body.text).toBe('Nested plain.');
+    expect(result.emails[0].body.html).toBe('<b>Nested html</b>');
+    expect(result.emails[0].body.text).not.toContain('Attachment contents.');
+  });
+
+  it('should populate html for single-part text/html messages', () => {
+    const parser = new MBOXParser();
+    const mboxContent = `From sender@example.com Mon Jan 01 10:00:00 2024
+From: sender@example.com
+Subject: HTML only
+Message-ID: <test@example.com>
+Content-Type: text/html; charset=utf-8
+
+<p>Only HTML.</p>`;
+
+    const result = parser.parse(mboxContent);
+
+    expect(result.emails[0].body.html).toBe('<p>Only HTML.</p>');
+    expect(result.emails[0].body.text).toBe('');
+  });
+
+  it('should keep parts of a truncated multipart without close delimiter', () => {
+    const parser = new MBOXParser();
+    const mboxContent = `From sender@example.com Mon Jan 01 10:00:00 2024
+From: sender@example.com
+Subject: Truncated
+Message-ID: <test@example.com>
+Content-Type: multipart/mixed; boundary=b1
+
+--b1
+Content-Type: text/plain
+
+Before truncation.`;
+
+    const result = parser.parse(mboxContent);
+
+    expect(result.emails[0].body.text).toBe('Before truncation.');
+  });
+});
+
+describe('MBOX Parser - Transfer Encoding and Charsets', () => {
+  const buildEmail = (contentHeaders: string, body: string) => `From sender@example.com Mon Jan 01 10:00:00 2024
+From: sender@example.com
+Subject: Encoding
+Message-ID: <test@example.com>
+${contentHeaders}
+
+${body}`;
+
+  it('should decode base64 UTF-8 bodies', () => {
+    const parser = new MBOXParser();
+    const result = parser.parse(buildEmail(
+      'Content-Type: text/plain; charset=utf-8\nContent-Transfer-Encoding: base64',
+      'SGVsbG8sIHfDtnJsZA=='
+    ));
+
+    expect(result.emails[0].body.text).toBe('Hello, wörld');
+    expect(result.errors).toHaveLength(0);
+  });
+
+  it('should decode quoted-printable ISO-8859-1 with soft line breaks', () => {
+    const parser = new MBOXParser();
+    const result = parser.parse(buildEmail(
+      'Content-Type: text/plain; charset="ISO-8859-1"\nContent-Transfer-Encoding: quoted-printable',
+      'Caf=E9 cr=E8me and a very long line that has been wrapped with a soft =\nbreak.'
+    ));
+
+    expect(result.emails[0].body.text).toBe('Café crème and a very long line that has been wrapped with a soft break.');
+  });
+
+  it('should decode Windows-1251 bodies', () => {
+    const parser = new MBOXParser();
+    const result = parser.parse(buildEmail(
+      'Content-Type: text/plain; charset=windows-1251\nContent-Transfer-Encoding: quoted-printable',
+      '=CF=F0=E8=E2=E5=F2'
+    ));
+
+    expect(result.emails[0].body.text).toBe('Привет');
+  });
+
+  it('should decode Shift_JIS and GB2312 bodies', () => {
+    const parser = new MBOXParser();
+    const mboxContent = buildEmail(
+      'Content-Type: multipart/mixed; boundary=cjk',
+      `--cjk
+Content-Type: text/plain; charset=Shift_JIS
+Content-Transfer-Encoding: base64
+
+k/qWe4zqg2WDTINYg2c=
+--cjk
+Content-Type: text/plain; charset=gb2312
+Content-Transfer-Encoding: base64
+
+1tDOxNPKvP4=
+--cjk--`
+    );
+
+    const result = parser.parse(mboxContent);
+
+    expect(result.emails[0].body.text).toBe('日本語テキスト\n中文邮件');
+  });
+
+  it('should decode 7bit ISO-2022-JP bodies with their charset', () => {
+    const parser = new MBOXParser();
+    const result = parser.parse(buildEmail(
+      'Content-Type: text/plain; charset=ISO-2022-JP\nContent-Transfer-Encoding: 7bit',
+      '\x1b$B$3$s$K$A$O\x1b(B'
+    ));
+
+    expect(result.emails[0].body.text).toBe('こんにちは');
+    expect(result.errors).toHaveLength(0);
+  });
+
+  it('should decode 8bit bodies from their bytes with their charset', async () => {
+    const bytes = (headers: string, body: number[]) => new Uint8Array([
+      ...new TextEncoder().encode(buildEmail(`${headers}\nContent-Transfer-Encoding: 8bit`, '')),
+      ...body,
+      0x0a
+    ]);
+    const file = new File([
+      bytes('Content-Type: text/plain; charset=ISO-8859-1', [0x43, 0x61, 0x66, 0xe9]),
+      new TextEncoder().encode('\n'),
+      bytes('Content-Type: text/plain; charset=Shift_JIS', [0x93, 0xfa, 0x96, 0x7b, 0x8c, 0xea]),
+      new TextEncoder().encode('\n'),
+      bytes('Content-Type: text/plain', [...new TextEncoder().encode('Grüße')])
+    ], 'mixed.mbox');
+
+    const result = await new MBOXParser().parseFile(file);
+
+    expect(result.emails.map(email => email.body.text.trim())).toEqual(['Café', '日本語', 'Grüße']);
+    expect(result.errors).toHaveLength(0);
+  });
+
+  it('should report ENCODING_ERROR for unknown charsets and still decode', () => {
+    const parser = new MBOXParser();
+    const result = parser.parse(buildEmail(
+      'Content-Type: text/plain; charset=x-no-such-charset\nContent-Transfer-Encoding: base64',
+      'SGVsbG8sIHfDtnJsZA=='
+    ));
+
+    expect(result.emails[0].body.text).toBe('Hello, wörld');
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].type).toBe('ENCODING_ERROR');
+    expect(result.errors[0].message).toContain('x-no-such-charset');
+    expect(result.errors[0].emailIndex).toBe(0);
+  });
+
+  it('should report ENCODING_ERROR for invalid byte sequences', () => {
+    const parser = new MBOXParser();
+    const result = parser.parse(buildEmail(
+      'Content-Type: text/plain; charset=utf-8\nContent-Transfer-Encoding: quoted-printable',
+      'Broken =FF=FE bytes'
+    ));
+
+    expect(result.emails[0].body.text).toContain('Broken');
+    expect(result.emails[0].body.text).toContain('�');
+    expect(result.errors[0].type).toBe('ENCODING_ERROR');
+  });
+
+  it('should report ENCODING_ERROR for malformed base64 and decode leniently', () => {
+    const parser = new MBOXParser();
+    const result = parser.parse(buildEmail(
+      'Content-Type: text/plain; charset=utf-8\nContent-Transfer-Encoding: base64',
+      'SGVsbG8s!IHfDtnJsZA=='
+    ));
+
+    expect(result.emails[0].body.text).toBe('Hello, wörld');
+    expect(result.errors[0].type).toBe('ENCODING_ERROR');
+    expect(result.errors[0].message).toContain('base64');
+  });
+});
+
+describe('MBOX Parser - Encoded Words (RFC 2047)', () => {
+  const buildEmail = (subject: string) => `From sender@example.com Mon Jan 01 10:00:00 2024
+From: sender@example.com
+Subject: ${subject}
+Message-ID: <test@example.com>
+
+Body.`;
+
+  it('should decode B-encoded subjects and keep the raw header', () => {
+    const parser = new MBOXParser();
+    const raw = '=?UTF-8?B?RMOpasOgIHZ1IOKAlCDml6XmnKw=?=';
+    const result = parser.parse(buildEmail(raw));
+
+    expect(result.emails[0].metadata.subject).toBe('Déjà vu — 日本');
+    expect(result.emails[0].headers['subject'][0]).toBe(raw);
+  });
+
+  it('should decode Q-encoded words with underscores as spaces', () => {
+    const parser = new MBOXParser();
+    const result = parser.parse(buildEmail('=?iso-8859-1?Q?Ren=E9_Dupont?= says hi'));
+
+    expect(result.emails[0].metadata.subject).toBe('René Dupont says hi');
+  });
+
+  it('should drop whitespace between adjacent encoded words only', () => {
+    const parser = new MBOXParser();
+    const result = parser.parse(buildEmail('Re: =?UTF-8?Q?caf=C3=A9?=\n =?UTF-8?Q?_menu?= today'));
+
+    expect(result.emails[0].metadata.subject).toBe('Re: café menu today');
+  });
+
+  it('should join multi-byte characters split across words', () => {
+    const parser = new MBOXParser();
+    const result = parser.parse(buildEmail('=?UTF-8?B?5pel5g==?= =?UTF-8?B?nKzoqp4=?='));
+
+    expect(result.emails[0].metadata.subject).toBe('日本語');
+  });
+
+  it('should decode words in different charsets', () => {
+    const parser = new MBOXParser();
+    const result = parser.parse(buildEmail('=?iso-8859-1?Q?Gr=FC=DFe?= =?windows-1251?Q?=CF=F0=E8=E2=E5=F2?='));
+
+    expect(result.emails[0].metadata.subject).toBe('GrüßeПривет');
+  });
+
+  it('should leave words in unknown charsets undecoded', () => {
+    const parser = new MBOXParser();
+    const result = parser.parse(buildEmail('=?x-unknown?Q?abc?= plain'));
+
+    expect(result.emails[0].metadata.subject).toBe('=?x-unknown?Q?abc?= plain');
+  });
+});
+
+describe('MBOX Parser - Attachments', () => {
+  it('should extract attachments with decoded size and data', () => {
+    const parser = new MBOXParser();
+    const mboxContent = `From sender@example.com Mon Jan 01 10:00:00 2024
+From: sender@example.com
+Subject: Report
+Message-ID: <test@example.com>
+Content-Type: multipart/mixed; boundary=mix
+
+--mix
+Content-Type: text/plain
+
+See attached.
+--mix
+Content-Type: application/octet-stream; name="data.bin"
+Content-Disposition: attachment; filename="data.bin"
+Content-Transfer-Encoding: base64
+
+AAECAwQFBgcICQoLDA0ODxAREhMUFRYXGBkaGxwdHh8gISIjJCUmJw==
+--mix--`;
+
+    const result = parser.parse(mboxContent);
+    const attachments = result.emails[0].body.attachments;
+
+    expect(result.emails[0].body.text).toBe('See attached.');
+    expect(attachments).toHaveLength(1);
+    expect(attachments[0].filename).toBe('data.bin');
+    expect(attachments[0].mimeType).toBe('application/octet-stream');
+    expect(attachments[0].size).toBe(40);
+    expect(new Uint8Array(attachments[0].data!)[39]).toBe(39);
+  });
+
+  it('should decode RFC 2231 filename* parameters and continuations', () => {
+    const parser = new MBOXParser();
+    const mboxContent = `From sender@example.com Mon Jan 01 10:00:00 2024
+From: sender@example.com
+Subject: Names
+Message-ID: <test@example.com>
+Content-Type: multipart/mixed; boundary=mix
+
+--mix
+Content-Type: text/plain
+Content-Disposition: attachment; filename="fallback.txt";
+ filename*=UTF-8''na%C3%AFve%20r%C3%A9sum%C3%A9.txt
+
+one
+--mix
+Content-Type: text/plain
+Content-Disposition: attachment;
+ filename*0*=iso-8859-1''Gr%FC%DFe;
+ filename*1="-part-two.txt"
+
+two
+--mix--`;
+
+    const result = parser.parse(mboxContent);
+    const attachments = result.emails[0].body.attachments;
+
+    expect(attachments.map(a => a.filename)).toEqual([
+      'naïve résumé.txt',
+      'Grüße-part-two.txt'
+    ]);
+  });
+
+  it('should list inline cid parts and embedded messages', () => {
+    const parser = new MBOXParser();
+    const mboxContent = `From sender@example.com Mon Jan 01 10:00:00 2024
+From: sender@example.com
+Subject: Inline
+Message-ID: <test@example.com>
+Content-Type: multipart/related; boundary=rel
+
+--rel
+Content-Type: text/html
+
+<img src="cid:logo@example.com">
+--rel
+Content-Type: image/png
+Content-ID: <logo@example.com>
+Content-Disposition: inline
+Content-Transfer-Encoding: base64
+
+iVBORw0KGgo=
+--rel
+Content-Type: message/rfc822
+
+From: forwarded@example.com
+Subject: Forwarded
+
+Forwarded body.
+--rel--`;
+
+    const result = parser.parse(mboxContent);
+    const attachments = result.emails[0].body.attachments;
+
+    expect(result.emails[0].body.html).toBe('<img src="cid:logo@example.com">');
+    expect(attachments).toHaveLength(2);
+    expect(attachments[0].contentId).toBe('logo@example.com');
+    expect(attachments[0].mimeType).toBe('image/png');
+    expect(attachments[0].size).toBe(8);
+    expect(attachments[1].mimeType).toBe('message/rfc822');
+    expect(attachments[1].filename).toBe('message.eml');
+  });
+
+  it('should treat named text parts as attachments or body text, never both', () => {
+    const parser = new MBOXParser();
+    const mboxContent = `From sender@example.com Mon Jan 01 10:00:00 2024
+From: sender@example.com
+Subject: Named parts
+Message-ID: <test@example.com>
+Content-Type: multipart/mixed; boundary=mix
+
+--mix
+Content-Type: text/plain
+
+hello
+--mix
+Content-Type: text/plain; name="notes.txt"
+
+file contents
+--mix
+Content-Type: text/plain; name="shown.txt"
+Content-Disposition: inline
+
+shown inline
+--mix--`;
+
+    const result = parser.parse(mboxContent);
+    const { text, attachments } = result.emails[0].body;
+
+    expect(text).toBe('hello\nshown inline');
+    expect(attachments.map(attachment => attachment.filename)).toEqual(['notes.txt']);
+  });
+
+  it('should return no attachments for simple messages', () => {
+    const parser = new MBOXParser();
+    const mboxContent = `From sender@example.com Mon Jan 01 10:00:00 2024
+From: sender@example.com
+Subject: Plain
+Message-ID: <test@example.com>
+
+Body.`;
+
+    const result = parser.parse(mboxContent);
+
+    expect(result.emails[0].body.attachments).toEqual([]);
+  });
+});
+
+describe('MBOX Parser - Address Objects (RFC 5322)', () => {
+  const parser = new MBOXParser();
+
+  it('should keep display names, including quoted names with commas', () => {
+    expect(parser.parseAddresses('"Smith, Alice" <alice@example.com>, Bob Jones <bob@example.com>')).toEqual([
+      { name: 'Smith, Alice', address: 'alice@example.com' },
+      { name: 'Bob Jones', address: 'bob@example.com' }
+    ]);
+  });
+
+  it('should take names from comments in the legacy form', () => {
+    expect(parser.parseAddresses('alice@example.com (Alice (Ops) Smith)')).toEqual([
+      { name: 'Alice (Ops) Smith', address: 'alice@example.com' }
+    ]);
+  });
+
+  it('should handle group syntax', () => {
+    expect(parser.parseAddresses('undisclosed-recipients:;')).toEqual([]);
+    expect(parser.parseAddresses('Team: a@example.com, "B" <b@example.com>;, c@example.com')).toEqual([
+      { address: 'a@example.com', group: 'Team' },
+      { name: 'B', address: 'b@example.com', group: 'Team' },
+      { address: 'c@example.com' }
+    ]);
+  });
+
+  it('should keep plus tags, quoted local parts and IDN domains', () => {
+    expect(parser.parseAddresses('user+tag@example.com, "john doe"@example.com, José <jose@bücher.example>')).toEqual([
+      { address: 'user+tag@example.com' },
+      { address: '"john doe"@example.com' },
+      { name: 'José', address: 'jose@bücher.example' }
+    ]);
+  });
+
+  it('should accept obsolete routes, spaced dots and phrases with periods', () => {
+    expect(parser.parseAddresses('John Q. Public <@relay1.example,@relay2.example:john . public@example.com>')).toEqual([
+      { name: 'John Q. Public', address: 'john.public@example.com' }
+    ]);
+  });
+
+  it('should decode encoded-word display names', () => {
+    expect(parser.parseAddresses('=?iso-8859-1?Q?Ren=E9?= Dupont <rene@example.com>')).toEqual([
+      { name: 'René Dupont', address: 'rene@example.com' }
+    ]);
+  });
+
+  it('should not return the raw header when nothing parses as an address', () => {
+    expect(parser.parseAddresses('')).toEqual([]);
+    expect(parser.parseAddresses('Undisclosed recipients')).toEqual([
+      { name: 'Undisclosed recipients', address: '' }
+    ]);
+    expect(parser.parseAddresses('MAILER-DAEMON')).toEqual([{ address: 'MAILER-DAEMON' }]);
+  });
+
+  it('should populate bcc, reply-to and sender metadata', () => {
+    const mboxContent = `From sender@example.com Mon Jan 01 10:00:00 2024
+From: "Alice" <alice@example.com>
+Sender: list-bounces@example.com
+Reply-To: Support <support@example.com>
+Bcc: hidden@example.com
+Subject: Test
+Message-ID: <test@example.com>
+
+Body.`;
+
+    const result = new MBOXParser().parse(mboxContent);
+    const metadata = result.emails[0].metadata;
+
+    expect(metadata.from).toEqual([{ name: 'Alice', address: 'alice@example.com' }]);
+    expect(metadata.sender).toEqual([{ address: 'list-bounces@example.com' }]);
+    expect(metadata.replyTo).toEqual([{ name: 'Support', address: 'support@example.com' }]);
+    expect(metadata.bcc).toEqual([{ address: 'hidden@example.com' }]);
+  });
+});
+
+describe('MBOX Parser - Received Chain', () => {
+  it('should parse Postfix, Exchange and Gmail hops in delivery order with delays', () => {
+    const parser = new MBOXParser();
+    const mboxContent = `From sender@example.com Mon Jan 01 10:00:00 2024
+Received: by 2002:a05:6a10:1234:b0:4a1:2b3c:4d5e with SMTP id abc123csp456789;
+        Mon, 1 Jan 2024 02:00:09 -0800 (PST)
+Received: from mx.example.org (mx.example.org [198.51.100.7])
+        by mail-gw.contoso.com (Postfix) with ESMTPS id 4T3xYz1AbC
+        for <bob@contoso.com>; Mon, 1 Jan 2024 10:00:04 +0000 (UTC)
+Received: from EX01.corp.example.org (10.0.0.5) by EX02.corp.example.org
+ (10.0.0.6) with Microsoft SMTP Server (version=TLS1_2,
+ cipher=TLS_ECDHE_RSA_WITH_AES_256_GCM_SHA384) id 15.20.7200.12; Mon, 1 Jan
+ 2024 10:00:00 +0000
+From: sender@example.com
+Subject: Hops
+Message-ID: <test@example.com>
+
+Body.`;
+
+    const result = parser.parse(mboxContent);
+    const chain = result.emails[0].metadata.receivedChain;
+
+    expect(chain).toHaveLength(3);
+
+    expect(chain[0].from).toBe('EX01.corp.example.org (10.0.0.5)');
+    expect(chain[0].by).toBe('EX02.corp.example.org (10.0.0.6)');
+    expect(chain[0].with).toBe('Microsoft SMTP Server (version=TLS1_2, cipher=TLS_ECDHE_RSA_WITH_AES_256_GCM_SHA384)');
+    expect(chain[0].id).toBe('15.20.7200.12');
+    expect(chain[0].delay).toBeUndefined();
+
+    expect(chain[1].from).toBe('mx.example.org (mx.example.org [198.51.100.7])');
+    expect(chain[1].by).toBe('mail-gw.contoso.com (Postfix)');
+    expect(chain[1].with).toBe('ESMTPS');
+    expect(chain[1].id).toBe('4T3xYz1AbC');
+    expect(chain[1].for).toBe('bob@contoso.com');
+    expect(chain[1].delay).toBe(4000);
+
+    expect(chain[2].from).toBe('');
+    expect(chain[2].by).toBe('2002:a05:6a10:1234:b0:4a1:2b3c:4d5e');
+    expect(chain[2].id).toBe('abc123csp456789');
+    expect(chain[2].date?.toISOString()).toBe('2024-01-01T10:00:09.000Z');
+    expect(chain[2].delay).toBe(5000);
+  });
+
+  it('should keep qmail comment-only hops with their timestamp', () => {
+    const parser = new MBOXParser();
+    const mboxContent = `From sender@example.com Mon Jan 01 10:00:00 2024
+Received: (qmail 12345 invoked from network); 1 Jan 2024 10:00:00 -0000
+From: sender@example.com
+Subject: qmail
+Message-ID: <test@example.com>
+
+Body.`;
+
+    const result = parser.parse(mboxContent);
+    const [hop] = result.emails[0].metadata.receivedChain;
+
+    expect(hop.from).toBe('');
+    expect(hop.by).toBe('');
+    expect(hop.raw).toBe('(qmail 12345 invoked from network); 1 Jan 2024 10:00:00 -0000');
+    expect(hop.date?.toISOString()).toBe('2024-01-01T10:00:00.000Z');
+  });
+
+  it('should tolerate missing or unparseable dates', () => {
+    const parser = new MBOXParser();
+    const mboxContent = `From sender@example.com Mon Jan 01 10:00:00 2024
+Received: from b.example.com by c.example.com; not a date
+Received: from a.example.com by b.example.com
+From: sender@example.com
+Subject: Dates
+Message-ID: <test@example.com>
+
+Body.`;
+
+    const result = parser.parse(mboxContent);
+    const chain = result.emails[0].metadata.receivedChain;
+
+    expect(chain.map(hop => hop.from)).toEqual(['a.example.com', 'b.example.com']);
+    expect(chain.every(hop => hop.date === undefined && hop.delay === undefined)).toBe(true);
+  });
+});
@@ -0,0 +1,247 @@
+import { describe, it, expect } from 'vitest';
+import { MBOXParser } from '../../src/services/MBOXParser';
+import { MBOXStreamReader } from '../../src/services/MBOXStreamReader';
+import { bytesToBinary } from '../../src/utils/encoding';
+
+const encoder = new TextEncoder();
+
+const mboxContent = `From alice@example.com Mon Jan 01 10:00:00 2024
+From: alice@example.com
+Subject: Première
+Message-ID: <1@example.com>
+
+First body mentions
+From the middle of a paragraph.
+
+From bob@example.com Mon Jan 01 11:00:00 2024
+From: bob@example.com
+Subject: Second
+Message-ID: <2@example.com>
+
+Second body.
+
+From carol@example.com Mon Jan 01 12:00:00 2024
+From: carol@example.com
+Subject: Third
+Message-ID: <3@example.com>
+
+Third body.
+`;
+
+function splitInChunks(bytes: Uint8Array, chunkSize: number) {
+  const reader = new MBOXStreamReader();
+  const messages = [];
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    messages.push(...reader.push(bytes.subarray(i, i + chunkSize)));
+  }
+  messages.push(...reader.end());
+  return messages;
+}
+
+describe('MBOX Stream Reader - Incremental Splitting', () => {
+  it('should match splitMBOX for any chunk size', () => {
+    const bytes = encoder.encode(mboxContent);
+    const expected = new MBOXParser().splitMBOX(bytesToBinary(bytes));
+
+    for (const chunkSize of [1, 2, 5, 7, 64, bytes.length]) {
+      const messages = splitInChunks(bytes, chunkSize);
+      expect(messages.map(m => m.raw)).toEqual(expected);
+    }
+  });
+
+  it('should report byte offsets and lengths into the source', () => {
+    const bytes = encoder.encode(mboxContent);
+    const messages = splitInChunks(bytes, 3);
+
+    expect(messages).toHaveLength(3);
+    for (const message of messages) {
+      expect(bytesToBinary(bytes.subarray(message.offset, message.offset + message.length))).toBe(message.raw);
+    }
+    // "Première" is one byte longer in UTF-8 than in UTF-16
+    expect(messages[1].offset).toBe(encoder.encode(mboxContent.substring(0, mboxContent.indexOf('From bob'))).length);
+  });
+
+  it('should split CRLF files on From_ lines after blank lines', () => {
+    const crlf = mboxContent.replace(/\n/g, '\r\n');
+    const messages = splitInChunks(encoder.encode(crlf), 4);
+
+    expect(messages).toHaveLength(3);
+    expect(messages[0].raw.endsWith('paragraph.\r\n')).toBe(true);
+    expect(messages[1].raw.startsWith('From bob@example.com')).toBe(true);
+  });
+
+  it('should ignore content before the first From_ line', () => {
+    const messages = splitInChunks(encoder.encode(`garbage line\n\n${mboxContent}`), 8);
+
+    expect(messages).toHaveLength(3);
+    expect(messages[0].offset).toBe('garbage line\n\n'.length);
+  });
+});
+
+describe('MBOX Stream Reader - Range Splitting', () => {
+  async function readAll(blob: Blob, chunkSize: number, baseOffset = 0) {
+    const messages = [];
+    for await (const chunk of MBOXStreamReader.read(blob, chunkSize, baseOffset)) {
+      messages.push(...chunk.messages);
+    }
+    return messages;
+  }
+
+  async function readRanges(blob: Blob, count: number) {
+    const ranges = await MBOXStreamReader.splitRanges(blob, count);
+    const messages = [];
+    for (const range of ranges) {
+      messages.push(...await readAll(blob.slice(range.start, range.end), 7, range.start));
+    }
+    return { ranges, messages };
+  }
+
+  const archive = [mboxContent, mboxContent, mboxContent].join('\n');
+
+  it('should start every range on a From_ line and yield the same messages', async () => {
+    const blob = new Blob([archive]);
+    const expected = await readAll(blob, 64);
+
+    for (const count of [1, 2, 3, 5, 20]) {
+      const { ranges, messages } = await readRanges(blob, count);
+      expect(ranges.length).toBeLessThanOrEqual(count);
+      expect(messages).toEqual(expected);
+    }
+  });
+
+  it('should handle CRLF separators', async () => {
+    const blob = new Blob([archive.replace(/\n/g, '\r\n')]);
+    const expected = await readAll(blob, 64);
+    const { ranges, messages } = await readRanges(blob, 4);
+
+    expect(ranges.length).toBeGreaterThan(1);
+    expect(messages).toEqual(expected);
+  });
+
+  it('should return a single range when there is no later boundary', async () => {
+    const ranges = await MBOXStreamReader.splitRanges(new Blob([mboxContent.split('\n\nFrom bob')[0]]), 4);
+    expect(ranges).toHaveLength(1);
+  });
+});
+
+describe('MBOX Stream Reader - Content-Length Framing', () => {
+  const body = 'Body\n\nFrom an unquoted line\n';
+  const framed = [1, 2, 3].map(n => `From s${n}@example.com Mon Jan 01 10:00:00 2024
+Subject: ${n}
+Content-Length: ${body.length}
+
+${body}`).join('\n');
+
+  it('should skip unquoted From_ lines inside framed bodies for any chunk size', () => {
+    const bytes = encoder.encode(framed);
+
+    for (const chunkSize of [1, 3, 16, bytes.length]) {
+      const reader = new MBOXStreamReader(0, 'mboxcl2');
+      const messages = [];
+      for (let i = 0; i < bytes.length; i += chunkSize) {
+        messages.push(...reader.push(bytes.subarray(i, i + chunkSize)));
+      }
+      messages.push(...reader.end());
+
+      expect(messages).toHaveLength(3);
+      expect(messages.every(m => m.raw.endsWith(body))).toBe(true);
+    }
+  });
+
+  it('should detect the variant of a Blob and parse it accordingly', async () => {
+    expect(await MBOXStreamReader.detectBlobVariant(new Blob([framed]))).toBe('mboxcl2');
+    expect(await MBOXStreamReader.detectBlobVariant(new Blob([mboxContent]))).toBe('mboxrd');
+
+    const result = await new MBOXParser().parseFile(new Blob([framed]), 5);
+    expect(result.stats.variant).toBe('mboxcl2');
+    expect(result.emails).toHaveLength(3);
+  });
+
+  it('should trust Content-Length that runs past a partial sample', () => {
+    const sample = encoder.encode(framed).subarray(0, 80);
+    expect(MBOXStreamReader.detectVariant(sample, false)).toBe('mboxcl2');
+    expect(MBOXStreamReader.detectVariant(sample, true)).toBe('mboxrd');
+  });
+});
+
+describe('MBOX Parser - File Streaming', () => {
+  it('should parse a Blob in small chunks like the string parser', async () => {
+    const fromString = new MBOXParser().parse(mboxContent);
+    const fromFile = await new MBOXParser().parseFile(new Blob([mboxContent]), 16);
+
+    expect(fromFile.emails.map(e => e.metadata.subject)).toEqual(fromString.emails.map(e => e.metadata.subject));
+    expect(fromFile.emails.map(e => e.body.text)).toEqual(fromString.emails.map(e => e.body.text));
+    expect(fromFile.stats.totalBytes).toBe(encoder.encode(mboxContent).length);
+  });
+
+  it('should yield batches with growing byte progress', async () => {
+    const parser = new MBOXParser();
+    const batches = [];
+    for await (const batch of parser.parseFileBatches(new Blob([mboxContent]), 100)) {
+      batches.push(batch);
+    }
+
+    const size = encoder.encode(mboxContent).length;
+    expect(batches.length).toBe(Math.ceil(size / 100));
+    expect(batches.flatMap(b => b.emails)).toHaveLength(3);
+    expect(batches[batches.length - 1].bytesProcessed).toBe(size);
+    for (let i = 1; i < batches.length; i++) {
+      expect(batches[i].bytesProcessed).toBeGreaterThan(batches[i - 1].bytesProcessed);
+    }
+  });
+});
+
+describe('MBOX Parser - Stable UIDs', () => {
+  const duplicate = `From alice@example.com Mon Jan 01 10:00:00 2024
+From: alice@example.com
+Subject: Same
+Message-ID: <same@example.com>
+
+Identical body.
+`;
+  const archive = [duplicate, duplicate.replace('Mon Jan 01 10:00:00', 'Tue Jan 02 09:00:00'), mboxContent].join('\n');
+  const file = () => new File([archive], 'archive.mbox', { lastModified: 1700000000000 });
+
+  it('should give the same uids when a file is parsed again', async () => {
+    const first = await new MBOXParser().parseFile(file(), 16);
+    const second = await new MBOXParser().parseFile(file(), 64);
+
+    expect(first.emails.map(e => e.uid)).toEqual(second.emails.map(e => e.uid));
+    expect(first.emails[0].uid).toMatch(/^eama-[0-9a-f]{16}$/);
+  });
+
+  it('should tell exact copies apart by location', async () => {
+    const { emails } = await new MBOXParser().parseFile(file());
+
+    expect(new Set(emails.map(e => e.uid)).size).toBe(emails.length);
+    expect(emails[1].uid.startsWith(`${emails[0].uid}-`)).toBe(true);
+    expect(emails[1].location).toMatchObject({ offset: encoder.encode(`${duplicate}\n`).length });
+  });
+
+  it('should keep the uids of a renamed file', async () => {
+    const original = (await new MBOXParser().parseFile(file())).emails.map(e => e.uid);
+    const renamed = new File([archive], 'renamed.mbox', { lastModified: 1800000000000 });
+
+    expect((await new MBOXParser().parseFile(renamed)).emails.map(e => e.uid)).toEqual(original);
+  });
+
+  it('should give a file the same uids whatever is parsed with it', async () => {
+    const alone = (await new MBOXParser().parseFile(file())).emails.map(e => e.uid);
+    const parser = new MBOXParser();
+    const [copy] = (await parser.parseFile(new File([duplicate], 'other.mbox'))).emails;
+
+    expect((await parser.parseFile(file())).emails.map(e => e.uid)).toEqual(alone);
+    expect(copy.uid).toBe(alone[0]);
+  });
+
+  it('should match the uid of the same message in an .eml file', async () => {
+    const eml = duplicate.split('\n').slice(1).join('\r\n');
+    const [fromMbox] = (await new MBOXParser().parseFile(file())).emails;
+    const fromEml = [];
+    for await (const batch of new MBOXParser().parseMessageBatches([new Blob([eml])])) {
+      fromEml.push(...batch.emails);
+    }
+
+    expect(fromEml[0].uid).toBe(fromMbox.uid);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { MBOXParser, type ParseBatch } from '../../src/services/MBOXParser';
+import { isMaildirMessagePath, sourceKindFromContent, sourceKindFromPath } from '../../src/utils/mail-sources';
+import { listZipEntries, readZipEntry } from '../../src/utils/zip';
+
+const encoder = new TextEncoder();
+
+const message = (n: number, body = `Body ${n}\r\n`) =>
+  `From: sender${n}@example.com\r\nSubject: Message ${n}\r\nMessage-ID: <${n}@example.com>\r\n\r\n${body}`;
+
+interface ZipFixtureEntry {
+  path: string;
+  content: string;
+  deflate?: boolean;
+}
+
+async function buildZip(entries: ZipFixtureEntry[]): Promise<Blob> {
+  const parts: Uint8Array<ArrayBuffer>[] = [];
+  const directory: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const raw = encoder.encode(entry.content);
+    const data = entry.deflate
+      ? new Uint8Array(await new Response(new Blob([raw]).stream().pipeThrough(new CompressionStream('deflate-raw'))).arrayBuffer())
+      : raw;
+    const method = entry.deflate ? 8 : 0;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(6, 0x800, true);
+    local.setUint16(8, method, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, raw.length, true);
+    local.setUint16(26, name.length, true);
+    parts.push(new Uint8Array(local.buffer), name, data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(8, 0x800, true);
+    central.setUint16(10, method, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, raw.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    directory.push(new Uint8Array(central.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  }
+
+  const directorySize = directory.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...directory, new Uint8Array(end.buffer)]);
+}
+
+async function collect(batches: AsyncGenerator<ParseBatch>) {
+  const emails = [];
+  for await (const batch of batches) {
+    emails.push(...batch.emails);
+  }
+  return emails;
+}
+
+describe('Mail Sources - Classification', () => {
+  it('should recognize Maildir cur/new entries but not tmp or dotfiles', () => {
+    expect(isMaildirMessagePath('Maildir/cur/1700000000.M1P2.host:2,S')).toBe(true);
+    expect(isMaildirMessagePath('archive/.Sent/new/1700000001.M3P4.host')).toBe(true);
+    expect(isMaildirMessagePath('Maildir/tmp/1700000002.M5P6.host')).toBe(false);
+    expect(isMaildirMessagePath('Maildir/cur/.DS_Store')).toBe(false);
+    expect(isMaildirMessagePath('Maildir/dovecot-uidlist')).toBe(false);
+  });
+
+  it('should classify by extension and fall back to content', () => {
+    expect(sourceKindFromPath('evidence/Inbox.MBOX')).toBe('mbox');
+    expect(sourceKindFromPath('evidence/message.eml')).toBe('message');
+    expect(sourceKindFromPath('evidence/export.zip')).toBe('zip');
+    expect(sourceKindFromPath('evidence/export.txt')).toBeNull();
+
+    expect(sourceKindFromContent(encoder.encode('From someone@example.com Mon Jan 01'))).toBe('mbox');
+    expect(sourceKindFromContent(encoder.encode('﻿Return-Path: <a@example.com>\r\n'))).toBe('message');
+    expect(sourceKindFromContent(new Uint8Array([0x50, 0x4b, 0x03, 0x04]))).toBe('zip');
+    // Outlook .msg files are OLE compound documents, not RFC 822
+    expect(sourceKindFromContent(new Uint8Array([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]))).toBeNull();
+  });
+});
+
+describe('MBOX Parser - Standalone Messages', () => {
+  it('should parse .eml files without undoing MBOX From_ quoting', async () => {
+    const files = [
+      new Blob([message(1, 'Quoted in the original\r\n>From here\r\n')]),
+      new Blob([message(2)])
+    ];
+
+    const emails = await collect(new MBOXParser().parseMessageBatches(files));
+
+    expect(emails.map(e => e.metadata.subject)).toEqual(['Message 1', 'Message 2']);
+    expect(emails[0].body.text).toContain('>From here');
+    expect(emails[0].metadata.from[0].address).toBe('sender1@example.com');
+  });
+
+  it('should parse Maildir and .eml entries of a ZIP archive in order', async () => {
+    const zip = await buildZip([
+      { path: 'Maildir/cur/1700000000.M1P2.host:2,S', content: message(1) },
+      { path: 'Maildir/new/1700000001.M3P4.host', content: message(2), deflate: true },
+      { path: 'Maildir/tmp/1700000002.M5P6.host', content: message(3) },
+      { path: 'Maildir/dovecot-uidlist', content: '3 V1 N4\n' },
+      { path: 'loose/forwarded.eml', content: message(4), deflate: true }
+    ]);
+
+    const parser = new MBOXParser();
+    const emails = await collect(parser.parseZipBatches(zip));
+
+    expect(emails.map(e => e.metadata.subject)).toEqual(['Message 1', 'Message 2', 'Message 4']);
+    expect(parser.getErrors()).toHaveLength(0);
+    expect(parser.getVariant()).toBeUndefined();
+  });
+
+  it('should list and inflate ZIP entries', async () => {
+    const zip = await buildZip([
+      { path: 'dir/a.eml', content: 'stored' },
+      { path: 'dir/b.eml', content: 'deflated '.repeat(50), deflate: true }
+    ]);
+
+    const entries = await listZipEntries(zip);
+    expect(entries.map(e => e.path)).toEqual(['dir/a.eml', 'dir/b.eml']);
+
+    const decoder = new TextDecoder();
+    expect(decoder.decode(await readZipEntry(zip, entries[0]))).toBe('stored');
+    expect(decoder.decode(await readZipEntry(zip, entries[1]))).toBe('deflated '.repeat(50));
+  });
+
+  it('should reject files that are not ZIP archives', async () => {
+    await expect(listZipEntries(new Blob(['not a zip']))).rejects.toThrow(/not a ZIP archive/i);
+  });
+});
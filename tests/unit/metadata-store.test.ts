@@ -0,0 +1,214 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { MetadataStore, createUserMetadata } from '../../src/services/MetadataStore';
+import { fileFingerprint } from '../../src/utils/identity';
+import { exportMetadataBundle, importMetadataBundle, parseMetadataBundle } from '../../src/utils/metadata-bundle';
+
+const mbox = (subject: string) =>
+  `From sender@example.com Mon Jan 01 00:00:00 2024\nSubject: ${subject}\n\nBody\n`;
+
+describe('Metadata Store - Persistence', () => {
+  let factory: IDBFactory;
+  let store: MetadataStore;
+
+  beforeEach(() => {
+    factory = new IDBFactory();
+    store = new MetadataStore({ factory });
+  });
+
+  afterEach(async () => {
+    await store.close();
+  });
+
+  it('should start with empty metadata for a file it has not seen', async () => {
+    const { metadata, restored } = await store.restore(new File([mbox('New')], 'new.mbox'));
+
+    expect(restored).toBe(false);
+    expect(metadata.favorites.size).toBe(0);
+    expect(metadata.notes.size).toBe(0);
+    expect(metadata.headerPreferences.defaultView).toBe('all');
+  });
+
+  it('should restore favorites, notes and header preferences after reopening', async () => {
+    const file = new File([mbox('Evidence')], 'evidence.mbox');
+    const { fingerprint } = await store.restore(file);
+
+    await store.toggleFavorite(fingerprint, 'eama-1');
+    await store.toggleFavorite(fingerprint, 'eama-2');
+    await store.toggleFavorite(fingerprint, 'eama-2');
+    const note = await store.saveNote(fingerprint, 'eama-1', 'Spoofed sender', ['phishing', 'spf']);
+    await store.setHeaderPreferences(fingerprint, {
+      hiddenHeaders: new Set(['x-mailer']),
+      alwaysShowHeaders: new Set(['received']),
+      defaultView: 'standard'
+    });
+    await store.close();
+
+    // A new store over the same database stands in for a browser restart
+    const reopened = new MetadataStore({ factory });
+    const { metadata, restored } = await reopened.restore(new File([mbox('Evidence')], 'renamed.mbox'));
+    await reopened.close();
+
+    expect(restored).toBe(true);
+    expect([...metadata.favorites]).toEqual(['eama-1']);
+    expect(metadata.notes.get('eama-1')).toEqual(note);
+    expect(metadata.notes.get('eama-1')?.tags).toEqual(['phishing', 'spf']);
+    expect(metadata.notes.get('eama-1')?.createdAt).toBeInstanceOf(Date);
+    expect(metadata.headerPreferences.hiddenHeaders).toEqual(new Set(['x-mailer']));
+    expect(metadata.headerPreferences.defaultView).toBe('standard');
+  });
+
+  it('should keep metadata of different files apart', async () => {
+    const a = await store.restore(new File([mbox('A')], 'a.mbox'));
+    const b = await store.restore(new File([mbox('B')], 'b.mbox'));
+
+    await store.toggleFavorite(a.fingerprint, 'eama-1');
+
+    expect(a.fingerprint).not.toBe(b.fingerprint);
+    expect((await store.load(a.fingerprint))?.favorites.has('eama-1')).toBe(true);
+    expect(await store.load(b.fingerprint)).toBeNull();
+  });
+
+  it('should keep the creation time when a note is edited', async () => {
+    const { fingerprint } = await store.restore(new File([mbox('Notes')], 'notes.mbox'));
+
+    const first = await store.saveNote(fingerprint, 'eama-1', 'Draft');
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const second = await store.saveNote(fingerprint, 'eama-1', 'Final');
+
+    expect(second.uid).toBe(first.uid);
+    expect(second.createdAt).toEqual(first.createdAt);
+    expect(second.updatedAt.getTime()).toBeGreaterThan(first.updatedAt.getTime());
+
+    await store.deleteNote(fingerprint, 'eama-1');
+    expect((await store.load(fingerprint))?.notes.size).toBe(0);
+  });
+
+  it('should list and delete stored files', async () => {
+    const file = new File([mbox('Listed')], 'listed.mbox');
+    const { fingerprint, metadata } = await store.restore(file);
+    await store.save(fingerprint, metadata, file);
+
+    expect(await store.list()).toEqual([
+      expect.objectContaining({ fingerprint, fileName: 'listed.mbox', fileSize: file.size })
+    ]);
+
+    await store.delete(fingerprint);
+    expect(await store.list()).toEqual([]);
+  });
+});
+
+describe('Metadata Store - File Fingerprints', () => {
+  it('should fingerprint by content rather than name or date', async () => {
+    const content = mbox('Same');
+    const a = new File([content], 'a.mbox', { lastModified: 1 });
+    const b = new File([content], 'b.mbox', { lastModified: 2 });
+
+    expect(await fileFingerprint(a)).toBe(await fileFingerprint(b));
+    expect(await fileFingerprint(a)).not.toBe(await fileFingerprint(new File([mbox('Other')], 'a.mbox')));
+  });
+
+  it('should sample the head and tail of large files', async () => {
+    const head = 'x'.repeat(64 * 1024);
+    const tail = 'y'.repeat(64 * 1024);
+    const a = new Blob([head, 'middle one', tail]);
+    const b = new Blob([head, 'middle two', tail]);
+    const c = new Blob([head, 'middle one', tail.slice(1), 'z']);
+
+    expect(await fileFingerprint(a)).toBe(await fileFingerprint(b));
+    expect(await fileFingerprint(a)).not.toBe(await fileFingerprint(c));
+  });
+});
+
+describe('Metadata Store - Export and Import', () => {
+  const file = { fingerprint: 'aaaa', name: 'evidence.mbox', size: 100 };
+  const emails = [
+    { uid: 'eama-1', messageId: '<one@example.com>' },
+    { uid: 'eama-2', messageId: '<two@example.com>' },
+    { uid: 'eama-3', messageId: '<generated-3@eama>' }
+  ];
+
+  function analysed() {
+    const metadata = createUserMetadata();
+    metadata.favorites.add('eama-1');
+    metadata.favorites.add('eama-3');
+    metadata.notes.set('eama-2', {
+      uid: 'note-1',
+      emailUid: 'eama-2',
+      content: 'Forwarded to legal',
+      createdAt: new Date('2024-01-01T10:00:00Z'),
+      updatedAt: new Date('2024-01-02T10:00:00Z'),
+      tags: ['legal']
+    });
+    metadata.headerPreferences.hiddenHeaders.add('x-mailer');
+    return metadata;
+  }
+
+  it('should round-trip Sets, Maps and Dates through JSON', () => {
+    const json = JSON.stringify(exportMetadataBundle(analysed(), file, emails));
+    const bundle = parseMetadataBundle(json);
+
+    expect(bundle.version).toBe(1);
+    expect(bundle.file).toEqual(file);
+    expect(bundle.favorites).toEqual([{ uid: 'eama-1', messageId: '<one@example.com>' }, { uid: 'eama-3' }]);
+
+    const { metadata, report } = importMetadataBundle(bundle, createUserMetadata(), 'aaaa', emails, 'merge');
+    expect(report).toMatchObject({ fingerprintMatches: true, matched: 3, matchedByMessageId: 0, unmatched: [] });
+    expect(metadata.favorites).toEqual(new Set(['eama-1', 'eama-3']));
+    expect(metadata.notes.get('eama-2')).toEqual(analysed().notes.get('eama-2'));
+    expect(metadata.headerPreferences.hiddenHeaders).toEqual(new Set(['x-mailer']));
+  });
+
+  it('should match by Message-ID and report entries that match nothing', () => {
+    const bundle = parseMetadataBundle(JSON.stringify(exportMetadataBundle(analysed(), file, emails)));
+    // Another export of the same mailbox: different uids, same Message-IDs
+    const reexported = [
+      { uid: 'eama-9', messageId: '<one@example.com>' },
+      { uid: 'eama-8', messageId: '<two@example.com>' },
+      { uid: 'eama-7', messageId: '<generated-3@eama>' }
+    ];
+
+    const { metadata, report } = importMetadataBundle(bundle, createUserMetadata(), 'bbbb', reexported, 'merge');
+
+    expect(report.fingerprintMatches).toBe(false);
+    expect(report.matched).toBe(2);
+    expect(report.matchedByMessageId).toBe(2);
+    expect(report.unmatched).toEqual([{ kind: 'favorite', entry: { uid: 'eama-3' } }]);
+    expect(metadata.favorites).toEqual(new Set(['eama-9']));
+    expect(metadata.notes.get('eama-8')?.emailUid).toBe('eama-8');
+  });
+
+  it('should keep the newer note on merge and discard saved metadata on replace', () => {
+    const bundle = parseMetadataBundle(JSON.stringify(exportMetadataBundle(analysed(), file, emails)));
+    const current = createUserMetadata();
+    current.favorites.add('eama-2');
+    current.notes.set('eama-2', {
+      uid: 'note-2',
+      emailUid: 'eama-2',
+      content: 'Local edit',
+      createdAt: new Date('2024-01-01T10:00:00Z'),
+      updatedAt: new Date('2024-03-01T10:00:00Z')
+    });
+
+    const merged = importMetadataBundle(bundle, current, 'aaaa', emails, 'merge');
+    expect(merged.report.conflicts).toBe(1);
+    expect(merged.metadata.notes.get('eama-2')?.content).toBe('Local edit');
+    expect(merged.metadata.favorites).toEqual(new Set(['eama-1', 'eama-2', 'eama-3']));
+
+    const replaced = importMetadataBundle(bundle, current, 'aaaa', emails, 'replace');
+    expect(replaced.metadata.notes.get('eama-2')?.content).toBe('Forwarded to legal');
+    expect(replaced.metadata.favorites).toEqual(new Set(['eama-1', 'eama-3']));
+  });
+
+  it('should reject malformed and newer bundles with the offending field', () => {
+    const bundle = exportMetadataBundle(analysed(), file, emails);
+
+    expect(() => parseMetadataBundle('{')).toThrow(/not valid JSON/i);
+    expect(() => parseMetadataBundle(JSON.stringify({ ...bundle, format: 'other' }))).toThrow(/not an EAMA metadata export/i);
+    expect(() => parseMetadataBundle(JSON.stringify({ ...bundle, version: 2 }))).toThrow(/newer version/);
+    expect(() => parseMetadataBundle(JSON.stringify({
+      ...bundle,
+      notes: [{ ...bundle.notes[0], createdAt: 'yesterday' }]
+    }))).toThrow('notes[0].createdAt: expected an ISO 8601 date');
+  });
+});
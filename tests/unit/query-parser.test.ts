@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import { SearchIndex, type SearchDocument } from '../../src/services/SearchIndex';
+import type { QueryNode } from '../../src/types';
+import { formatQuery, parseQuery, QuerySyntaxError } from '../../src/utils/query-parser';
+
+// The tree without offsets, for readable expectations
+function shape(node: QueryNode): unknown {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return { [node.type]: node.children.map(shape) };
+    case 'not':
+      return { not: shape(node.child) };
+    case 'match':
+      return node.query;
+  }
+}
+
+function syntaxError(input: string): QuerySyntaxError {
+  try {
+    parseQuery(input);
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) return error;
+    throw error;
+  }
+  throw new Error(`"${input}" parsed without an error`);
+}
+
+describe('Query Parser - Syntax', () => {
+  it('should compile operators into SearchQuery leaves', () => {
+    const node = parseQuery('from:alice subject:"quarterly invoice" after:2023/01/01 has:attachment -label:spam');
+
+    expect(shape(node)).toEqual({
+      and: [
+        { from: 'alice' },
+        { subject: 'quarterly invoice' },
+        { dateFrom: new Date(2023, 0, 1) },
+        { hasAttachment: true },
+        { not: { headers: { 'X-Gmail-Labels': 'spam' } } }
+      ]
+    });
+  });
+
+  it('should search words with an unknown prefix as text', () => {
+    expect(shape(parseQuery('re:meeting note:foo http://host/path'))).toEqual({
+      and: [{ text: 're:meeting' }, { text: 'note:foo' }, { text: 'http://host/path' }]
+    });
+  });
+
+  it('should keep the offsets of each term', () => {
+    const node = parseQuery('hello from:"a b"');
+    expect(node).toMatchObject({
+      children: [{ start: 0, end: 5 }, { start: 6, end: 16 }]
+    });
+  });
+
+  it('should bind OR tighter than the implicit AND, as Gmail does', () => {
+    expect(shape(parseQuery('a b OR c'))).toEqual({ and: [{ text: 'a' }, { or: [{ text: 'b' }, { text: 'c' }] }] });
+    expect(shape(parseQuery('(a b) OR -c AND "d e"'))).toEqual({
+      and: [{ or: [{ and: [{ text: 'a' }, { text: 'b' }] }, { not: { text: 'c' } }] }, { text: '"d e"' }]
+    });
+  });
+
+  it('should parse headers, sizes and date bounds', () => {
+    expect(shape(parseQuery('header:X-Mailer:"Apple Mail" header:X-Spam-Flag'))).toEqual({
+      and: [{ headers: { 'X-Mailer': 'Apple Mail' } }, { headers: { 'X-Spam-Flag': '' } }]
+    });
+    expect(shape(parseQuery('larger:1.5M smaller:200k'))).toEqual({
+      and: [{ largerThan: 1572864 }, { smallerThan: 204800 }]
+    });
+    expect(shape(parseQuery('before:2024-02-29'))).toEqual({ dateTo: new Date(new Date(2024, 1, 29).getTime() - 1) });
+  });
+
+  it('should report where a malformed query goes wrong', () => {
+    expect(syntaxError('from:"alice')).toMatchObject({ message: 'Unterminated quote', position: 5 });
+    expect(syntaxError('(a OR b')).toMatchObject({ message: 'Missing closing parenthesis', position: 0 });
+    expect(syntaxError('a b)')).toMatchObject({ message: 'Unmatched closing parenthesis', position: 3 });
+    expect(syntaxError('a OR')).toMatchObject({ message: 'Expected a term after OR', position: 4 });
+    expect(syntaxError('OR a')).toMatchObject({ message: 'Expected a term before OR', position: 0 });
+    expect(syntaxError('a -)')).toMatchObject({ position: 3 });
+    expect(syntaxError('x ()')).toMatchObject({ message: 'Empty parentheses', position: 2 });
+    expect(syntaxError('a subject:')).toMatchObject({ message: 'Expected a value after subject:', position: 10 });
+    expect(syntaxError('after:2023/02/30').position).toBe(6);
+    expect(syntaxError('larger:big').position).toBe(7);
+    expect(syntaxError('has:pets').position).toBe(4);
+  });
+});
+
+describe('Query Parser - Formatting', () => {
+  it('should write queries back in a form that parses to the same tree', () => {
+    const inputs = [
+      'from:alice subject:"quarterly invoice" after:2023/01/01 has:attachment -label:spam',
+      'a b OR c',
+      '(a b) OR -c "d e"',
+      '-(from:alice OR is:starred) header:X-Mailer:"Apple Mail" larger:1024',
+      're:meeting http://host'
+    ];
+
+    for (const input of inputs) {
+      const node = parseQuery(input);
+      expect(shape(parseQuery(formatQuery({ expression: node })))).toEqual(shape(node));
+    }
+  });
+
+  it('should write the fields of a filter query', () => {
+    expect(formatQuery({
+      text: 'invoice',
+      to: 'bob smith',
+      dateTo: new Date(2024, 0, 31, 23, 59, 59, 999),
+      headers: { 'X-Gmail-Labels': 'Inbox' },
+      favorites: true,
+      hasNotes: false
+    })).toBe('invoice to:"bob smith" before:2024/02/01 label:Inbox is:starred -has:notes');
+  });
+});
+
+describe('Query Parser - Evaluation', () => {
+  const document = (uid: string, fields: Partial<SearchDocument>): SearchDocument => ({
+    uid,
+    subject: '',
+    from: '',
+    to: '',
+    date: null,
+    headers: {},
+    body: '',
+    size: 1000,
+    attachments: 0,
+    ...fields
+  });
+
+  const index = new SearchIndex();
+  index.add([
+    document('invoice', {
+      from: 'Alice <alice@example.com>',
+      subject: 'Invoice 42',
+      date: new Date(2023, 5, 1).getTime(),
+      attachments: 1,
+      size: 2 * 1024 * 1024
+    }),
+    document('spam', {
+      from: 'promo@example.net',
+      subject: 'Cheap invoice software',
+      headers: { 'x-gmail-labels': ['Spam,Unread'] }
+    }),
+    document('lunch', {
+      from: 'Bob <bob@example.com>',
+      subject: 'Lunch?',
+      body: 'Shall we discuss the invoice over lunch',
+      headers: { 'x-mailer': ['Apple Mail (2.3)'] }
+    })
+  ]);
+  index.setUserState({ favorites: ['lunch'], noted: [] });
+
+  const search = (input: string) => index.search({ expression: parseQuery(input) }).uids;
+
+  it('should apply negation, OR and parentheses', () => {
+    expect(search('invoice -label:spam')).toEqual(['invoice', 'lunch']);
+    expect(search('from:alice OR is:starred')).toEqual(['invoice', 'lunch']);
+    expect(search('-(from:alice OR from:bob)')).toEqual(['spam']);
+  });
+
+  it('should filter on attachments, sizes, headers and dates', () => {
+    expect(search('has:attachment larger:1M')).toEqual(['invoice']);
+    expect(search('smaller:1M')).toEqual(['spam', 'lunch']);
+    expect(search('header:X-Mailer:apple')).toEqual(['lunch']);
+    expect(search('after:2023/06/01 before:2023/06/02')).toEqual(['invoice']);
+    expect(search('is:unread')).toEqual(['spam']);
+  });
+
+  it('should rank by the text of every term that is not negated', () => {
+    expect(search('invoice')).toEqual(['invoice', 'spam', 'lunch']);
+    expect(search('invoice OR lunch')[0]).toBe('lunch');
+  });
+
+  it('should combine an expression with the other query fields', () => {
+    expect(index.search({ from: 'example.com', expression: parseQuery('invoice') }).uids).toEqual(['invoice', 'lunch']);
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { buildIndexSegment, mergeIndexSegments } from '../../src/services/InvertedIndex';
+import { SearchEngine } from '../../src/services/SearchEngine';
+import { SearchIndex, toSearchDocument, type SearchDocument, type UserState } from '../../src/services/SearchIndex';
+import type { SearchQuery } from '../../src/types';
+import { makeEmail } from './fixtures';
+
+const emails = [
+  makeEmail('a', {
+    from: 'alice@example.com',
+    to: 'bob@example.com',
+    subject: 'Invoice March',
+    date: '2024-03-01T10:00:00Z',
+    body: 'Please pay the attached invoice',
+    headers: { 'x-mailer': ['Outlook 16.0'] }
+  }),
+  makeEmail('b', {
+    from: 'bob@example.com',
+    to: 'alice@example.com',
+    subject: 'Re: Invoice March',
+    date: '2024-03-02T10:00:00Z',
+    html: '<p>Paid <b>in full</b></p>',
+    headers: { 'x-mailer': ['Thunderbird'] }
+  }),
+  makeEmail('c', { from: 'carol@example.com', subject: 'Lunch', body: 'No date on this one' })
+];
+
+describe('Search Engine - Query Evaluation', () => {
+  const index = new SearchIndex();
+  index.add(emails.map((e) => toSearchDocument(e)));
+  index.setUserState({ favorites: ['b'], noted: ['a', 'c'] });
+
+  it('should require every word of free text somewhere in the email', () => {
+    expect(index.search({ text: 'invoice' }).uids).toEqual(['a', 'b']);
+    expect(index.search({ text: 'invoice PAID' }).uids).toEqual(['b']);
+    expect(index.search({ text: 'carol lunch' }).uids).toEqual(['c']);
+  });
+
+  it('should combine field filters', () => {
+    expect(index.search({ from: 'ALICE' }).uids).toEqual(['a']);
+    expect(index.search({ to: 'alice', subject: 're:' }).uids).toEqual(['b']);
+    expect(index.search({ bodyContains: 'in full' }).uids).toEqual(['b']);
+    expect(index.search({ headers: { 'X-Mailer': 'outlook' } }).uids).toEqual(['a']);
+    expect(index.search({ headers: { 'x-mailer': '' } }).uids).toEqual(['a', 'b']);
+  });
+
+  it('should filter by inclusive date range and leave out undated emails', () => {
+    expect(index.search({ dateFrom: new Date('2024-03-02T10:00:00Z') }).uids).toEqual(['b']);
+    expect(index.search({ dateTo: new Date('2024-03-01T10:00:00Z') }).uids).toEqual(['a']);
+  });
+
+  it('should filter by favorites and notes', () => {
+    expect(index.search({ favorites: true }).uids).toEqual(['b']);
+    expect(index.search({ hasNotes: true, text: 'invoice' }).uids).toEqual(['a']);
+    expect(index.search({ hasNotes: false }).uids).toEqual(['b']);
+  });
+
+  it('should paginate and replace re-added emails in place', () => {
+    expect(index.search({}, 1, 2)).toEqual({ uids: ['c'], total: 3 });
+
+    index.add([toSearchDocument(makeEmail('a', { subject: 'Replaced' }))]);
+    expect(index.search({ subject: 'replaced' }).uids).toEqual(['a']);
+    expect(index.size).toBe(3);
+  });
+});
+
+describe('Search Engine - Full-Text Index', () => {
+  const documents = [
+    makeEmail('subject', { subject: 'Quarterly report', body: 'see below' }),
+    makeEmail('body', { subject: 'Hello', body: 'The quarterly report is attached, and the report covers Q3' }),
+    makeEmail('reversed', { subject: 'Reports', body: 'report quarterly numbers' }),
+    makeEmail('header', { subject: 'Status', headers: { 'x-mailer': ['Café Mailer 2.1'] } })
+  ].map((email) => toSearchDocument(email));
+
+  function indexOf(docs = documents) {
+    const index = new SearchIndex();
+    index.add(docs);
+    return index;
+  }
+
+  it('should rank matches in the subject above matches in the body', () => {
+    const { uids } = indexOf().search({ text: 'quarterly report' });
+    expect(uids[0]).toBe('subject');
+    expect([...uids].sort()).toEqual(['body', 'reversed', 'subject']);
+  });
+
+  it('should match quoted phrases in order within one field', () => {
+    const index = indexOf();
+    expect(index.search({ text: '"quarterly report"' }).uids).toEqual(['subject', 'body']);
+    expect(index.search({ text: '"report is attached" q3' }).uids).toEqual(['body']);
+    // The subject ends and the body begins; a phrase never spans them
+    expect(index.search({ text: '"report see"' }).uids).toEqual([]);
+  });
+
+  it('should match prefixes, headers and accent-folded words', () => {
+    const index = indexOf();
+    // "Reports" in the subject and "report" in the body both count
+    expect(index.search({ text: 'repo*' }).uids).toEqual(['reversed', 'subject', 'body']);
+    expect(index.search({ text: 'reports' }).uids).toEqual(['reversed']);
+    expect(index.search({ text: 'cafe mailer' }).uids).toEqual(['header']);
+    expect(index.search({ text: '"x-mailer: café"' }).uids).toEqual(['header']);
+  });
+
+  it('should update incrementally and replace the postings of re-added emails', () => {
+    const index = indexOf(documents.slice(0, 2));
+    index.add(documents.slice(2));
+    expect(index.search({ text: 'numbers' }).uids).toEqual(['reversed']);
+
+    index.add([toSearchDocument(makeEmail('body', { subject: 'Hello', body: 'nothing to see' }))]);
+    expect(index.search({ text: 'attached' }).uids).toEqual([]);
+    expect(index.search({ text: 'nothing' }).uids).toEqual(['body']);
+  });
+
+  it('should use segments built elsewhere, merged in batch order', () => {
+    const segment = mergeIndexSegments([buildIndexSegment(documents.slice(0, 1)), buildIndexSegment(documents.slice(1))]);
+    const withoutBodies = documents.map((document) => ({ ...document, body: '' }));
+
+    const index = new SearchIndex();
+    index.add(withoutBodies, segment);
+
+    expect(index.search({ bodyContains: 'covers q3' }).uids).toEqual(['body']);
+    expect(index.search({ text: 'numbers' }).uids).toEqual(['reversed']);
+  });
+});
+
+// Runs the real search core behind the worker protocol
+class InlineSearchWorker {
+  onmessage: ((e: MessageEvent) => void) | null = null;
+  onerror: ((e: ErrorEvent) => void) | null = null;
+  private index = new SearchIndex();
+
+  postMessage(message: { command: string; requestId?: number; data?: unknown }) {
+    const { command, requestId, data } = message;
+    switch (command) {
+      case 'add':
+        this.index.add(structuredClone(data as { documents: SearchDocument[] }).documents);
+        break;
+      case 'userState':
+        this.index.setUserState(data as UserState);
+        break;
+      case 'clear':
+        this.index.clear();
+        break;
+      case 'search': {
+        const { query, page, pageSize } = structuredClone(data as { query: SearchQuery; page: number; pageSize: number });
+        const results = this.index.search(query, page, pageSize);
+        queueMicrotask(() => this.onmessage?.({ data: { type: 'results', requestId, data: results } } as MessageEvent));
+        break;
+      }
+    }
+  }
+
+  terminate() {}
+}
+
+describe('Search Engine - Worker Round Trip', () => {
+  beforeEach(() => {
+    vi.stubGlobal('Worker', InlineSearchWorker);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should resolve uids to the loaded emails with paging and timing', async () => {
+    const engine = new SearchEngine();
+    engine.addEmails(emails);
+
+    const results = await engine.search({ text: 'invoice' }, { pageSize: 1, page: 1 });
+
+    expect(results.emails).toEqual([emails[1]]);
+    expect(results.total).toBe(2);
+    expect(results).toMatchObject({ page: 1, pageSize: 1, query: { text: 'invoice' } });
+    expect(results.executionTime).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should reject pending searches on destroy', async () => {
+    const engine = new SearchEngine();
+    const pending = engine.search({ text: 'x' });
+    engine.destroy();
+
+    await expect(pending).rejects.toThrow(/destroyed/);
+  });
+});
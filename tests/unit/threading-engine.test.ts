@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { MBOXParser, type ParsedEmail } from '../../src/services/MBOXParser';
+import {
+  ThreadingEngine,
+  baseSubject,
+  flattenThread,
+  type Thread,
+  type ThreadNode
+} from '../../src/services/ThreadingEngine';
+import { makeEmail, type EmailFixture } from './fixtures';
+
+const engine = new ThreadingEngine();
+
+// A message of the "Budget" thread, all sent at once unless a test says otherwise
+function message(uid: string, messageId: string, fields: EmailFixture = {}): ParsedEmail {
+  return makeEmail(uid, { messageId, subject: 'Budget', date: '2024-01-01T10:00:00.000Z', ...fields });
+}
+
+// The tree as nested uids, with '?' for placeholders
+function shape(node: ThreadNode): unknown {
+  const label = node.email?.uid ?? '?';
+  return node.children.length ? { [label]: node.children.map(shape) } : label;
+}
+
+const shapes = (threads: Thread[]) => threads.map(thread => shape(thread.root));
+
+describe('Threading Engine - References', () => {
+  it('should build a tree from References and In-Reply-To', () => {
+    const threads = engine.thread([
+      message('a', '<a@x>', { date: '2024-01-01T10:00:00Z' }),
+      message('b', '<b@x>', { subject: 'Re: Budget', references: ['<a@x>'], date: '2024-01-01T11:00:00Z' }),
+      message('c', '<c@x>', { subject: 'Re: Budget', inReplyTo: '<b@x>', date: '2024-01-01T12:00:00Z' }),
+      message('d', '<d@x>', { subject: 'Re: Budget', references: ['<a@x>'], date: '2024-01-01T10:30:00Z' })
+    ]);
+
+    expect(shapes(threads)).toEqual([{ a: ['d', { b: ['c'] }] }]);
+    expect(threads[0]).toMatchObject({ id: '<a@x>', subject: 'Budget', size: 4 });
+  });
+
+  it('should put a placeholder where a referenced parent is not loaded', () => {
+    const threads = engine.thread([
+      message('b', '<b@x>', { subject: 'Re: Budget', references: ['<a@x>'], date: '2024-01-01T11:00:00Z' }),
+      message('c', '<c@x>', { subject: 'Re: Budget', references: ['<a@x>'], date: '2024-01-01T12:00:00Z' })
+    ]);
+
+    expect(shapes(threads)).toEqual([{ '?': ['b', 'c'] }]);
+    expect(threads[0].root.messageId).toBe('<a@x>');
+    expect(threads[0].size).toBe(2);
+  });
+
+  it('should collapse a chain of missing messages into one placeholder', () => {
+    const threads = engine.thread([
+      message('d', '<d@x>', { subject: 'Re: Budget', references: ['<a@x>', '<b@x>', '<c@x>'] })
+    ]);
+
+    expect(shapes(threads)).toEqual([{ '?': ['d'] }]);
+    expect(threads[0].root.messageId).toBe('<c@x>');
+  });
+
+  it('should ignore references that would make a loop', () => {
+    const threads = engine.thread([
+      message('a', '<a@x>', { references: ['<b@x>'] }),
+      message('b', '<b@x>', { references: ['<a@x>'] })
+    ]);
+
+    expect(threads).toHaveLength(1);
+    expect(threads[0].size).toBe(2);
+  });
+
+  it('should keep messages with generated or duplicate Message-IDs apart', () => {
+    const threads = new ThreadingEngine({ groupBySubject: false }).thread([
+      message('a', '<a@x>'),
+      message('a-copy', '<a@x>'),
+      message('g1', '<generated-1@eama>', { subject: 'Other' }),
+      message('g2', '<generated-1@eama>', { subject: 'Another' })
+    ]);
+
+    expect(threads.map(thread => thread.size)).toEqual([1, 1, 1, 1]);
+  });
+
+  it('should thread a conversation split across files', () => {
+    const threads = engine.thread([
+      message('sent', '<a@x>', { location: { fileId: 'sent.mbox', offset: 0, length: 0 } }),
+      message('inbox', '<b@x>', { subject: 'Re: Budget', references: ['<a@x>'], location: { fileId: 'inbox.mbox', offset: 0, length: 0 } })
+    ]);
+
+    expect(shapes(threads)).toEqual([{ sent: ['inbox'] }]);
+    expect(threads[0].fileIds).toEqual(['sent.mbox', 'inbox.mbox']);
+  });
+});
+
+describe('Threading Engine - Subjects', () => {
+  it('should strip reply, forward and list prefixes', () => {
+    expect(baseSubject('Re: Fwd: [team] RE[2]:  Budget  plan')).toBe('budget plan');
+    expect(baseSubject('(No Subject)')).toBe('');
+  });
+
+  it('should join replies whose client dropped the references by subject', () => {
+    const threads = engine.thread([
+      message('reply', '<r@x>', { subject: 'RE: Budget', date: '2024-01-02T10:00:00Z' }),
+      message('original', '<o@x>', { subject: 'Budget', date: '2024-01-01T10:00:00Z' }),
+      message('other', '<x@x>', { subject: 'Lunch', date: '2024-01-03T10:00:00Z' })
+    ]);
+
+    expect(shapes(threads)).toEqual(['other', { original: ['reply'] }]);
+  });
+
+  it('should group messages that are not replies under a placeholder', () => {
+    const threads = engine.thread([
+      message('first', '<1@x>', { subject: 'Status', date: '2024-01-01T10:00:00Z' }),
+      message('second', '<2@x>', { subject: 'Status', date: '2024-01-02T10:00:00Z' }),
+      message('blank1', '<3@x>', { subject: '(No Subject)' }),
+      message('blank2', '<4@x>', { subject: '(No Subject)' })
+    ]);
+
+    expect(shapes(threads)).toContainEqual({ '?': ['first', 'second'] });
+    expect(threads).toHaveLength(3);
+  });
+
+  it('should not group by subject when turned off', () => {
+    const threads = new ThreadingEngine({ groupBySubject: false }).thread([
+      message('reply', '<r@x>', { subject: 'Re: Budget' }),
+      message('original', '<o@x>', { subject: 'Budget' })
+    ]);
+
+    expect(threads).toHaveLength(2);
+  });
+});
+
+describe('Threading Engine - Parsed Messages', () => {
+  it('should thread parsed emails and flatten them for the list', () => {
+    const result = new MBOXParser().parse(`From a@example.com Mon Jan 01 10:00:00 2024
+From: a@example.com
+Subject: Plan
+Date: Mon, 1 Jan 2024 10:00:00 +0000
+Message-ID: <plan@example.com>
+
+First.
+
+From b@example.com Mon Jan 01 11:00:00 2024
+From: b@example.com
+Subject: Re: Plan
+Date: Mon, 1 Jan 2024 11:00:00 +0000
+In-Reply-To: <plan@example.com>
+References: <plan@example.com>
+Message-ID: <reply@example.com>
+
+Second.
+`);
+
+    const [thread] = engine.thread(result.emails);
+    const rows = flattenThread(thread);
+
+    expect(rows.map(row => [row.node.email?.metadata.subject, row.depth])).toEqual([['Plan', 0], ['Re: Plan', 1]]);
+  });
+});
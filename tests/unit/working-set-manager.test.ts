@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import type { ParsedEmail } from '../../src/services/MBOXParser';
+import { MetadataStore } from '../../src/services/MetadataStore';
+import { WorkingSetManager, resolveWorkingSet } from '../../src/services/WorkingSetManager';
+import { parseQuery } from '../../src/utils/query-parser';
+import { makeEmail } from './fixtures';
+
+function email(uid: string, messageId: string): ParsedEmail {
+  return makeEmail(uid, { messageId, subject: uid, from: 'Alice <alice@example.com>', date: '2024-01-01T00:00:00.000Z' });
+}
+
+describe('Working Set Manager - Sets', () => {
+  let store: MetadataStore;
+  let manager: WorkingSetManager;
+
+  beforeEach(() => {
+    store = new MetadataStore({ factory: new IDBFactory() });
+    manager = new WorkingSetManager({ store });
+  });
+
+  afterEach(async () => {
+    await store.close();
+  });
+
+  it('should keep several named sets and reject duplicate names', async () => {
+    const phishing = await manager.create(' Phishing ');
+    await manager.create('Invoices');
+
+    expect(phishing.name).toBe('Phishing');
+    await expect(manager.create('Invoices')).rejects.toThrow(/already exists/);
+    await expect(manager.rename(phishing.id, '  ')).rejects.toThrow(/empty/);
+
+    await manager.rename(phishing.id, 'Suspicious');
+    expect(manager.list().map(set => set.name)).toEqual(['Suspicious', 'Invoices']);
+
+    await manager.delete(phishing.id);
+    expect(manager.list().map(set => set.name)).toEqual(['Invoices']);
+  });
+
+  it('should merge copies with the same Message-ID and record each search', async () => {
+    const { id } = await manager.create('Case');
+    const original = email('eama-1', '<m1@example.com>');
+    const copy = email('eama-2', '<m1@example.com>');
+    const other = email('eama-3', '<m3@example.com>');
+
+    const first = await manager.add(id, [original, other], { expression: parseQuery('from:alice') });
+    expect(first).toMatchObject({ added: 2, merged: 0 });
+
+    const second = await manager.add(id, [copy], { subject: 'invoice' });
+    expect(second).toMatchObject({ added: 0, merged: 1 });
+
+    const [entry] = second.set.entries;
+    expect(entry.copies).toEqual(['eama-2']);
+    expect(entry.provenance.map(p => [p.query, p.uid])).toEqual([
+      ['from:alice', 'eama-1'],
+      ['subject:invoice', 'eama-2']
+    ]);
+
+    // Adding the same email from the same search again records nothing new
+    const again = await manager.add(id, [original], { expression: parseQuery('from:alice') });
+    expect(again.set.entries[0].provenance).toHaveLength(2);
+  });
+
+  it('should not merge emails whose Message-IDs were generated by the parser', async () => {
+    const { id } = await manager.create('Case');
+    const { set } = await manager.add(id, [
+      email('eama-1', '<generated-1@eama>'),
+      email('eama-2', '<generated-1@eama>')
+    ]);
+
+    expect(set.entries).toHaveLength(2);
+    expect(set.entries[0].messageId).toBeUndefined();
+    expect(set.entries[0].provenance[0].query).toBeNull();
+  });
+
+  it('should remove an entry by any of its copies', async () => {
+    const { id } = await manager.create('Case');
+    await manager.add(id, [email('eama-1', '<m1@example.com>'), email('eama-2', '<m1@example.com>')]);
+
+    const set = await manager.remove(id, ['eama-2']);
+    expect(set.entries).toEqual([]);
+  });
+
+  it('should persist sets alongside the file metadata', async () => {
+    const { id } = await manager.create('Case');
+    await manager.add(id, [email('eama-1', '<m1@example.com>')], { text: 'invoice' });
+
+    const restored = await new WorkingSetManager({ store }).load();
+
+    expect(restored).toHaveLength(1);
+    expect(restored[0].entries[0]).toMatchObject({
+      uid: 'eama-1',
+      subject: 'eama-1',
+      from: 'Alice <alice@example.com>',
+      provenance: [{ query: 'invoice', uid: 'eama-1', addedAt: expect.any(Date) }]
+    });
+  });
+
+  it('should resolve entries to loaded emails, falling back to the Message-ID', async () => {
+    const { id } = await manager.create('Case');
+    const { set } = await manager.add(id, [
+      email('eama-1', '<m1@example.com>'),
+      email('eama-2', '<m2@example.com>')
+    ]);
+
+    // The first is loaded from another file, under another uid
+    const loaded = [email('eama-9', '<m1@example.com>'), email('eama-2', '<m2@example.com>')];
+    expect(resolveWorkingSet(set, loaded).map(email => email.uid)).toEqual(['eama-9', 'eama-2']);
+    expect(resolveWorkingSet(set, loaded.slice(1)).map(email => email.uid)).toEqual(['eama-2']);
+  });
+});